@@ -1,112 +1,565 @@
 import Anthropic from '@anthropic-ai/sdk';
 import type { PageData } from './extractor.js';
+import type { PageGroup } from './formatter.js';
+import { buildDescriptionPrompt, maxTokensFor, typicalOutputTokens } from './prompt.js';
+import { estimateTokens } from './budget.js';
+import { checkDescription, correctionPrompt, isRefusal, tidyReply } from './guard.js';
+import type { Rejection } from './guard.js';
+import { emptyUsage } from './usage.js';
+import type { AiUsage } from './usage.js';
+import { recordResponse, replayResponse, responseKey } from './replay.js';
+import type { Replay } from './replay.js';
+import type { DescriptionStyle } from './prompt.js';
 
-export type AiProvider = 'claude' | 'openai' | 'gemini' | 'perplexity' | 'grok' | 'deepseek';
+export type AiProvider = 'claude' | 'openai' | 'gemini' | 'perplexity' | 'grok' | 'deepseek' | 'openai-compatible';
 
-const PROVIDER_CONFIG: Record<AiProvider, { envVar: string; baseUrl?: string; model: string }> = {
-  claude:     { envVar: 'ANTHROPIC_API_KEY', model: 'claude-haiku-4-5-20251001' },
-  openai:     { envVar: 'OPENAI_API_KEY',    baseUrl: 'https://api.openai.com/v1',    model: 'gpt-4o-mini' },
-  gemini:     { envVar: 'GEMINI_API_KEY',    model: 'gemini-2.0-flash' },
-  perplexity: { envVar: 'PERPLEXITY_API_KEY', baseUrl: 'https://api.perplexity.ai',   model: 'sonar' },
-  grok:       { envVar: 'XAI_API_KEY',       baseUrl: 'https://api.x.ai/v1',          model: 'grok-3-mini' },
-  deepseek:   { envVar: 'DEEPSEEK_API_KEY',  baseUrl: 'https://api.deepseek.com/v1',  model: 'deepseek-chat' },
+export const AI_PROVIDERS: AiProvider[] = ['claude', 'openai', 'gemini', 'perplexity', 'grok', 'deepseek', 'openai-compatible'];
+
+// rpm: default requests-per-minute cap, set near each provider's entry-level tier
+// openai-compatible has no defaults: it is whatever --ai-base-url and --ai-model point at
+const PROVIDER_CONFIG: Record<AiProvider, { envVar: string; baseUrl?: string; model?: string; rpm: number }> = {
+  claude:     { envVar: 'ANTHROPIC_API_KEY', model: 'claude-haiku-4-5-20251001', rpm: 50 },
+  openai:     { envVar: 'OPENAI_API_KEY',    baseUrl: 'https://api.openai.com/v1',    model: 'gpt-4o-mini', rpm: 500 },
+  gemini:     { envVar: 'GEMINI_API_KEY',    baseUrl: 'https://generativelanguage.googleapis.com/v1beta', model: 'gemini-2.0-flash', rpm: 15 },
+  perplexity: { envVar: 'PERPLEXITY_API_KEY', baseUrl: 'https://api.perplexity.ai',   model: 'sonar', rpm: 50 },
+  grok:       { envVar: 'XAI_API_KEY',       baseUrl: 'https://api.x.ai/v1',          model: 'grok-3-mini', rpm: 60 },
+  deepseek:   { envVar: 'DEEPSEEK_API_KEY',  baseUrl: 'https://api.deepseek.com/v1',  model: 'deepseek-chat', rpm: 60 },
+  'openai-compatible': { envVar: 'OPENAI_COMPATIBLE_API_KEY', rpm: 0 },
 };
 
+// Everything needed to call one provider, after applying --ai-model / --ai-base-url overrides
+export interface AiEndpoint {
+  provider: AiProvider;
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  headers: Record<string, string>;
+}
+
+const MAX_BACKOFF_MS = 60_000;
+
+export interface GenerateOptions {
+  // Requests in flight at once (default 4)
+  concurrency?: number;
+  // Requests started per minute; defaults to the provider's entry-level limit, 0 disables
+  requestsPerMinute?: number;
+  // Retries after a 429, 5xx or network error (default 3)
+  maxRetries?: number;
+  // First backoff delay, doubled on each retry unless the server sends Retry-After (default 1000)
+  retryBaseMs?: number;
+  // New attempts, with a note on what was wrong, after a description fails the checks in guard.ts (default 1)
+  maxRejections?: number;
+  // Throw on the first page that still fails after retries instead of keeping its description
+  strict?: boolean;
+  onProgress?: (success: boolean) => void;
+  // Override the provider's default model and API base URL
+  model?: string;
+  baseUrl?: string;
+  // Extra request headers, e.g. `api-key` for Azure OpenAI or a gateway token
+  headers?: Record<string, string>;
+  // Prompt template, length, tone and language of the descriptions
+  style?: DescriptionStyle;
+  // The section a page will be listed under: fills {{section}} and picks from sectionStyles
+  sectionOf?: (page: PageData) => string | undefined;
+  // Per-section settings, by label, layered over `style`
+  sectionStyles?: Record<string, DescriptionStyle>;
+  // Recorded responses to answer from and add to, see replay.ts
+  replay?: Replay;
+}
+
+export interface AiFailure {
+  url: string;
+  reason: string;
+}
+
+// Carries what the retry logic needs to know about a failed call
+class AiRequestError extends Error {
+  constructor(message: string, readonly status?: number, readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
 export function getProviderEnvVar(provider: AiProvider): string {
   return PROVIDER_CONFIG[provider].envVar;
 }
 
+export function getProviderRateLimit(provider: AiProvider): number {
+  return PROVIDER_CONFIG[provider].rpm;
+}
+
+// The model requests go to: the --ai-model override or the provider's default
+export function getProviderModel(provider: AiProvider, options: Pick<GenerateOptions, 'model'> = {}): string | undefined {
+  return options.model ?? PROVIDER_CONFIG[provider].model;
+}
+
+// Local servers such as Ollama accept unauthenticated requests
+export function requiresApiKey(provider: AiProvider): boolean {
+  return provider !== 'openai-compatible';
+}
+
+export function resolveEndpoint(provider: AiProvider, apiKey: string, options: GenerateOptions): AiEndpoint {
+  const defaults = PROVIDER_CONFIG[provider];
+  const model = options.model ?? defaults.model;
+  const baseUrl = options.baseUrl ?? defaults.baseUrl;
+  if (!model) throw new Error(`--ai ${provider} needs a model (--ai-model or aiModel in the config)`);
+  if (provider === 'openai-compatible' && !baseUrl) {
+    throw new Error(`--ai ${provider} needs a base URL (--ai-base-url or aiBaseUrl in the config)`);
+  }
+  return { provider, apiKey, model, baseUrl, headers: options.headers ?? {} };
+}
+
+// Appends an API path to a base URL, keeping any query string (Azure's ?api-version=...)
+export function endpointUrl(baseUrl: string, apiPath: string): URL {
+  const url = new URL(baseUrl);
+  url.pathname = url.pathname.replace(/\/+$/, '') + apiPath;
+  return url;
+}
+
+// One provider endpoint behind a shared rate limit; every call retries 429s, 5xx and network errors
+export interface AiClient {
+  provider: AiProvider;
+  model: string;
+  // Running total over every call made through this client
+  readonly usage: AiUsage;
+  complete(prompt: string, maxTokens: number): Promise<string>;
+}
+
+// Token counts are missing from some OpenAI-compatible servers' responses
+interface ProviderReply {
+  text: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export function createAiClient(provider: AiProvider, apiKey: string, options: GenerateOptions = {}): AiClient {
+  const { maxRetries = 3, retryBaseMs = 1000 } = options;
+  const endpoint = resolveEndpoint(provider, apiKey, options);
+  const limiter = createRateLimiter(options.requestsPerMinute ?? PROVIDER_CONFIG[provider].rpm);
+  const usage = emptyUsage();
+
+  return {
+    provider,
+    model: endpoint.model,
+    usage,
+    async complete(prompt, maxTokens) {
+      const replay = options.replay;
+      const key = replay && responseKey(provider, endpoint.model, prompt);
+      if (replay && key) {
+        // Replayed responses cost nothing, so they are left out of the usage
+        const recorded = replayResponse(replay, key);
+        if (recorded !== undefined) return recorded;
+        if (replay.mode === 'read-only') throw new AiRequestError('no recorded response (read-only replay)');
+      }
+      for (let attempt = 0; ; attempt++) {
+        await limiter.wait();
+        try {
+          usage.requests++;
+          const reply = await callProvider(endpoint, prompt, maxTokens);
+          // Estimate what the server didn't report rather than count it as free
+          usage.inputTokens += reply.inputTokens ?? estimateTokens(prompt);
+          usage.outputTokens += reply.outputTokens ?? estimateTokens(reply.text);
+          if (!reply.text) throw new AiRequestError('empty response');
+          if (replay && key) recordResponse(replay, key, { provider, model: endpoint.model, text: reply.text });
+          return reply.text;
+        } catch (err) {
+          const error = toRequestError(err);
+          if (attempt >= maxRetries || !isRetryable(error)) throw error;
+          const delay = error.retryAfterMs ?? Math.min(MAX_BACKOFF_MS, retryBaseMs * 2 ** attempt);
+          // A rate-limit response applies to every worker, not just this one
+          if (error.status === 429) limiter.pause(delay);
+          await new Promise(r => setTimeout(r, delay));
+        }
+      }
+    },
+  };
+}
+
 export async function generateDescriptions(
   pages: PageData[],
   provider: AiProvider,
   apiKey: string,
+  options: GenerateOptions = {},
 ): Promise<PageData[]> {
-  const results: PageData[] = [];
+  return (await generateDescriptionsWithReport(pages, provider, apiKey, options)).pages;
+}
+
+// Pages whose description could not be generated keep their original one and are listed in `failures`
+export async function generateDescriptionsWithReport(
+  pages: PageData[],
+  provider: AiProvider,
+  apiKey: string,
+  options: GenerateOptions = {},
+): Promise<{ pages: PageData[]; failures: AiFailure[]; usage: AiUsage }> {
+  const client = createAiClient(provider, apiKey, options);
+  const { results, failures } = await runPool(
+    pages,
+    page => describePage(client, page, options),
+    page => page.url,
+    (url, reason) => `AI description failed for ${url}: ${reason}`,
+    options,
+  );
+  return {
+    pages: pages.map((page, i) => (results[i] === undefined ? page : { ...page, description: results[i] })),
+    failures,
+    usage: { ...client.usage },
+  };
+}
+
+// Tidies each reply and checks it; a rejected one is asked for again before the page counts as failed
+async function describePage(client: AiClient, page: PageData, options: GenerateOptions): Promise<string> {
+  const { prompt, maxTokens, style } = descriptionRequest(page, options);
+  const attempts = 1 + (options.maxRejections ?? 1);
+  let rejection: Rejection | undefined;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const reply = tidyReply(await client.complete(rejection ? correctionPrompt(prompt, rejection) : prompt, maxTokens));
+    rejection = checkDescription(reply, page, style);
+    if (!rejection) return reply;
+  }
+  throw new Error(`rejected: ${rejection}`);
+}
+
+// The prompt and reply size for one page's description, after section overrides
+export function descriptionRequest(
+  page: PageData,
+  options: GenerateOptions,
+): { prompt: string; maxTokens: number; style: DescriptionStyle } {
+  const section = options.sectionOf?.(page);
+  const overrides = Object.entries((section && options.sectionStyles?.[section]) || {})
+    .filter(([, value]) => value !== undefined);
+  const style: DescriptionStyle = { ...options.style, ...Object.fromEntries(overrides) };
+  return { prompt: buildDescriptionPrompt(page, style, section), maxTokens: maxTokensFor(style), style };
+}
+
+// Approximate usage of describing `pages`, from the prompts that would be sent; no requests are made
+export function estimateDescriptionUsage(pages: PageData[], options: GenerateOptions = {}): AiUsage {
+  const usage = emptyUsage();
   for (const page of pages) {
-    const prompt = buildPrompt(page);
-    try {
-      const desc = await callProvider(provider, apiKey, prompt);
-      results.push({ ...page, description: desc || page.description });
-    } catch {
-      results.push(page);
+    const { prompt, style } = descriptionRequest(page, options);
+    usage.requests++;
+    usage.inputTokens += estimateTokens(prompt);
+    usage.outputTokens += typicalOutputTokens(style);
+  }
+  return usage;
+}
+
+// Approximate usage of the grouping, site summary and section intro requests
+export function estimateOutlineUsage(
+  siteName: string,
+  pages: PageData[],
+  sections: Array<{ label: string; pages: PageData[] }>,
+  steps: { group?: boolean; summary?: boolean },
+): AiUsage {
+  const usage = emptyUsage();
+  const add = (prompt: string, outputTokens: number) => {
+    usage.requests++;
+    usage.inputTokens += estimateTokens(prompt);
+    usage.outputTokens += outputTokens;
+  };
+  if (steps.group && pages.length > 0) {
+    const listed = pages.slice(0, MAX_GROUPING_PAGES);
+    // A page number, a comma and some JSON per page, plus the labels
+    add(buildGroupingPrompt(listed), listed.length * 3 + 100);
+  }
+  if (steps.summary) {
+    add(buildSummaryPrompt(siteName, pages), 60);
+    for (const section of sections) add(buildIntroPrompt(siteName, section.label, section.pages), 40);
+  }
+  return usage;
+}
+
+// The exact prompt a page's description is generated from, so cached descriptions can be tied to it
+export function descriptionPrompt(page: PageData, options: GenerateOptions = {}): string {
+  return descriptionRequest(page, options).prompt;
+}
+
+// Runs `task` over `items` with a fixed number of workers; a failed item leaves a hole in `results`
+async function runPool<T>(
+  items: T[],
+  task: (item: T) => Promise<string>,
+  keyOf: (item: T) => string,
+  strictMessage: (key: string, reason: string) => string,
+  options: Pick<GenerateOptions, 'concurrency' | 'strict' | 'onProgress'>,
+): Promise<{ results: Array<string | undefined>; failures: AiFailure[] }> {
+  const { concurrency = 4, strict = false, onProgress } = options;
+  const results = new Array<string | undefined>(items.length);
+  const failures: AiFailure[] = [];
+  let next = 0;
+  let aborted: Error | null = null;
+
+  const worker = async () => {
+    while (next < items.length && !aborted) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index]);
+        onProgress?.(true);
+      } catch (err) {
+        const reason = (err as Error).message;
+        failures.push({ url: keyOf(items[index]), reason });
+        onProgress?.(false);
+        if (strict) aborted ??= new Error(strictMessage(keyOf(items[index]), reason));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  if (aborted) throw aborted;
+  return { results, failures };
+}
+
+// Pages listed in one grouping request; any beyond this keep their URL-based sections
+const MAX_GROUPING_PAGES = 300;
+
+// Clusters pages into sections by topic, for sites whose URLs don't say much
+export async function groupPages(client: AiClient, pages: PageData[]): Promise<PageGroup[]> {
+  const listed = pages.slice(0, MAX_GROUPING_PAGES);
+  if (listed.length === 0) return [];
+  const reply = await client.complete(buildGroupingPrompt(listed), 4096);
+  return parseGrouping(reply, listed);
+}
+
+// The reply names pages by their number in the prompt; unknown or repeated numbers are ignored
+function parseGrouping(reply: string, pages: PageData[]): PageGroup[] {
+  let parsed: unknown;
+  try {
+    // Models often wrap JSON in a code fence or a sentence
+    parsed = JSON.parse(reply.slice(reply.indexOf('{'), reply.lastIndexOf('}') + 1));
+  } catch {
+    throw new Error('grouping reply was not valid JSON');
+  }
+  const sections = (parsed as { sections?: unknown }).sections;
+  if (!Array.isArray(sections)) throw new Error('grouping reply has no "sections" list');
+
+  const assigned = new Set<number>();
+  const groups: PageGroup[] = [];
+  for (const section of sections as Array<{ label?: unknown; pages?: unknown }>) {
+    const label = typeof section?.label === 'string' ? cleanReply(section.label) : '';
+    if (!label || !Array.isArray(section.pages)) continue;
+    const urls: string[] = [];
+    for (const n of section.pages) {
+      if (!Number.isInteger(n) || n < 1 || n > pages.length || assigned.has(n)) continue;
+      assigned.add(n);
+      urls.push(pages[n - 1].url);
     }
+    if (urls.length > 0) groups.push({ label, urls });
   }
-  return results;
+  return groups;
+}
+
+// One or two sentences for the blockquote under the site name
+export async function summarizeSite(client: AiClient, siteName: string, pages: PageData[]): Promise<string> {
+  return checkedReply(await client.complete(buildSummaryPrompt(siteName, pages), 150));
+}
+
+// Sections whose intro could not be written are left without one and listed in `failures`, keyed by label
+export async function writeSectionIntros(
+  client: AiClient,
+  siteName: string,
+  sections: Array<{ label: string; pages: PageData[] }>,
+  options: Pick<GenerateOptions, 'concurrency' | 'strict' | 'onProgress'> = {},
+): Promise<{ intros: Record<string, string>; failures: AiFailure[] }> {
+  const { results, failures } = await runPool(
+    sections,
+    async section => checkedReply(await client.complete(buildIntroPrompt(siteName, section.label, section.pages), 100)),
+    section => section.label,
+    (label, reason) => `AI intro failed for section "${label}": ${reason}`,
+    options,
+  );
+  const intros: Record<string, string> = {};
+  sections.forEach((section, i) => {
+    if (results[i]) intros[section.label] = results[i]!;
+  });
+  return { intros, failures };
 }
 
-function buildPrompt(page: PageData): string {
-  return `Summarize this web page in one concise sentence (under 20 words) for an llm.txt index file.
+// Groups failures by reason, most common first: "3× HTTP 429, 1× empty response"
+export function summarizeFailures(failures: AiFailure[]): string {
+  const counts = new Map<string, number>();
+  for (const f of failures) counts.set(f.reason, (counts.get(f.reason) ?? 0) + 1);
+  return [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, n]) => `${n}× ${reason}`)
+    .join(', ');
+}
 
-Title: ${page.title}
-H1: ${page.h1}
-Meta description: ${page.description}
-Content excerpt: ${page.content.slice(0, 500)}
+// Spaces request starts evenly; parallel callers reserve consecutive slots
+function createRateLimiter(requestsPerMinute: number) {
+  const intervalMs = requestsPerMinute > 0 ? 60_000 / requestsPerMinute : 0;
+  let nextSlot = 0;
+  return {
+    async wait() {
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot);
+      nextSlot = slot + intervalMs;
+      if (slot > now) await new Promise(r => setTimeout(r, slot - now));
+    },
+    pause(ms: number) {
+      nextSlot = Math.max(nextSlot, Date.now() + ms);
+    },
+  };
+}
 
-Respond with only the one-line description.`;
+function isRetryable(error: AiRequestError): boolean {
+  // No status means the request never got a response: network error or timeout
+  if (error.status === undefined) return error.message !== 'empty response';
+  return error.status === 429 || error.status >= 500;
 }
 
-async function callProvider(provider: AiProvider, apiKey: string, prompt: string): Promise<string> {
-  const { baseUrl, model } = PROVIDER_CONFIG[provider];
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.min(MAX_BACKOFF_MS, Math.max(0, seconds * 1000));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.min(MAX_BACKOFF_MS, Math.max(0, date - Date.now()));
+}
 
-  if (provider === 'claude') {
-    return callClaude(prompt, apiKey, model);
+function toRequestError(err: unknown): AiRequestError {
+  if (err instanceof AiRequestError) return err;
+  // Errors from the Anthropic SDK carry the HTTP status and response headers
+  if (err instanceof Anthropic.APIError && err.status !== undefined) {
+    const headers = err.headers as Record<string, string | null | undefined> | undefined;
+    return new AiRequestError(`HTTP ${err.status}`, err.status, parseRetryAfter(headers?.['retry-after']));
   }
-  if (provider === 'gemini') {
-    return callGemini(prompt, apiKey, model);
+  const error = err as Error;
+  return new AiRequestError(error.name === 'TimeoutError' ? 'timeout' : error.message || 'request failed');
+}
+
+function failedResponse(res: Response): AiRequestError {
+  return new AiRequestError(`HTTP ${res.status}`, res.status, parseRetryAfter(res.headers?.get('retry-after')));
+}
+
+function cleanReply(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().replace(/^["“](.*)["”]$/, '$1');
+}
+
+// Summaries and intros may run to two sentences, so only preambles and refusals are caught
+function checkedReply(text: string): string {
+  const reply = tidyReply(text, true);
+  if (!reply) throw new Error('empty response');
+  if (isRefusal(reply)) throw new Error('rejected: refusal');
+  return reply;
+}
+
+function pageLine(page: PageData): string {
+  const title = page.title || page.h1 || page.url;
+  return page.description && page.description !== title ? `${title}: ${page.description}` : title;
+}
+
+function buildGroupingPrompt(pages: PageData[]): string {
+  const list = pages.map((page, i) => `${i + 1}. ${pageLine(page)} (${page.url})`).join('\n');
+  return `Group the pages of this website into sections for an llm.txt index file, by what they are about rather than by URL.
+
+Pages:
+${list}
+
+Use at most 10 sections with short labels (one to three words), most important first, and put every page in exactly one section.
+Respond with only JSON in this form: {"sections": [{"label": "Getting Started", "pages": [1, 4]}]}`;
+}
+
+function buildSummaryPrompt(siteName: string, pages: PageData[]): string {
+  const list = pages.slice(0, 40).map(page => `- ${pageLine(page)}`).join('\n');
+  return `Summarize the website "${siteName}" in one or two sentences (under 40 words) for the blockquote at the top of an llm.txt index file. Say what the site offers and who it is for.
+
+Pages:
+${list}
+
+Respond with only the summary.`;
+}
+
+function buildIntroPrompt(siteName: string, label: string, pages: PageData[]): string {
+  const list = pages.slice(0, 20).map(page => `- ${pageLine(page)}`).join('\n');
+  return `Write a one-sentence introduction (under 30 words) for the "${label}" section of the llm.txt index file for "${siteName}", telling the reader what the section covers.
+
+Pages in the section:
+${list}
+
+Respond with only the sentence.`;
+}
+
+async function callProvider(endpoint: AiEndpoint, prompt: string, maxTokens: number): Promise<ProviderReply> {
+  if (endpoint.provider === 'claude') {
+    return callClaude(prompt, endpoint, maxTokens);
+  }
+  if (endpoint.provider === 'gemini') {
+    return callGemini(prompt, endpoint, maxTokens);
   }
-  return callOpenAICompat(prompt, apiKey, baseUrl!, model);
+  return callOpenAICompat(prompt, endpoint, maxTokens);
+}
+
+export function createAnthropic(endpoint: AiEndpoint): Anthropic {
+  // Retries are handled by createAiClient so they share its backoff and rate limit
+  return new Anthropic({
+    apiKey: endpoint.apiKey,
+    baseURL: endpoint.baseUrl,
+    defaultHeaders: endpoint.headers,
+    maxRetries: 0,
+  });
 }
 
-async function callClaude(prompt: string, apiKey: string, model: string): Promise<string> {
-  const client = new Anthropic({ apiKey });
+async function callClaude(prompt: string, endpoint: AiEndpoint, maxTokens: number): Promise<ProviderReply> {
+  const client = createAnthropic(endpoint);
   const message = await client.messages.create({
-    model,
-    max_tokens: 80,
+    model: endpoint.model,
+    max_tokens: maxTokens,
     messages: [{ role: 'user', content: prompt }],
   });
-  return message.content[0].type === 'text' ? message.content[0].text.trim() : '';
+  return {
+    text: message.content[0]?.type === 'text' ? message.content[0].text.trim() : '',
+    inputTokens: message.usage?.input_tokens,
+    outputTokens: message.usage?.output_tokens,
+  };
 }
 
-async function callOpenAICompat(
-  prompt: string,
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-): Promise<string> {
-  const res = await fetch(`${baseUrl}/chat/completions`, {
+async function callOpenAICompat(prompt: string, endpoint: AiEndpoint, maxTokens: number): Promise<ProviderReply> {
+  const res = await fetch(endpointUrl(endpoint.baseUrl!, '/chat/completions').href, {
     method: 'POST',
     headers: {
-      'Authorization': `Bearer ${apiKey}`,
+      ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
       'Content-Type': 'application/json',
+      ...endpoint.headers,
     },
     body: JSON.stringify({
-      model,
-      max_tokens: 80,
+      model: endpoint.model,
+      max_tokens: maxTokens,
       messages: [{ role: 'user', content: prompt }],
     }),
     signal: AbortSignal.timeout(30000),
   });
-  if (!res.ok) throw new Error(`${baseUrl} error ${res.status}`);
-  const data = await res.json() as { choices: { message: { content: string } }[] };
-  return data.choices[0]?.message?.content?.trim() ?? '';
+  if (!res.ok) throw failedResponse(res);
+  const data = await res.json() as {
+    choices: { message: { content: string } }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+  };
+  return {
+    text: data.choices[0]?.message?.content?.trim() ?? '',
+    inputTokens: data.usage?.prompt_tokens,
+    outputTokens: data.usage?.completion_tokens,
+  };
 }
 
-async function callGemini(prompt: string, apiKey: string, model: string): Promise<string> {
+async function callGemini(prompt: string, endpoint: AiEndpoint, maxTokens: number): Promise<ProviderReply> {
+  const url = endpointUrl(endpoint.baseUrl!, `/models/${endpoint.model}:generateContent`);
+  url.searchParams.set('key', endpoint.apiKey);
   const res = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    url.href,
     {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...endpoint.headers },
       body: JSON.stringify({
         contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: { maxOutputTokens: 80 },
+        generationConfig: { maxOutputTokens: maxTokens },
       }),
       signal: AbortSignal.timeout(30000),
     },
   );
-  if (!res.ok) throw new Error(`Gemini error ${res.status}`);
+  if (!res.ok) throw failedResponse(res);
   const data = await res.json() as {
     candidates: { content: { parts: { text: string }[] } }[];
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  };
+  return {
+    text: data.candidates[0]?.content?.parts[0]?.text?.trim() ?? '',
+    inputTokens: data.usageMetadata?.promptTokenCount,
+    outputTokens: data.usageMetadata?.candidatesTokenCount,
   };
-  return data.candidates[0]?.content?.parts[0]?.text?.trim() ?? '';
 }
@@ -0,0 +1,328 @@
+import { readFile, writeFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import type { PageData } from './extractor.js';
+import { createAnthropic, descriptionRequest, endpointUrl, resolveEndpoint } from './ai.js';
+import type { AiEndpoint, AiFailure, AiProvider, GenerateOptions } from './ai.js';
+import { checkDescription, tidyReply } from './guard.js';
+import { emptyUsage } from './usage.js';
+import type { AiUsage } from './usage.js';
+
+// Providers with an asynchronous batch endpoint; openai-compatible covers servers that copy OpenAI's
+export const BATCH_PROVIDERS: AiProvider[] = ['claude', 'openai', 'openai-compatible'];
+
+const BATCH_STATE_VERSION = 1;
+
+// Written when a batch is submitted, so a later run can collect it
+export interface BatchState {
+  version: number;
+  provider: AiProvider;
+  model: string;
+  batchId: string;
+  submittedAt: string;
+  // custom_id → page URL
+  requests: Record<string, string>;
+}
+
+export interface BatchProgress {
+  ended: boolean;
+  // Requests finished, successfully or not
+  done: number;
+  total: number;
+}
+
+interface BatchItem {
+  customId: string;
+  prompt: string;
+  maxTokens: number;
+}
+
+interface BatchOutcome {
+  customId: string;
+  text?: string;
+  error?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+interface BatchApi {
+  submit(items: BatchItem[]): Promise<string>;
+  progress(batchId: string): Promise<BatchProgress>;
+  results(batchId: string): Promise<BatchOutcome[]>;
+}
+
+function anthropicBatches(endpoint: AiEndpoint): BatchApi {
+  const client = createAnthropic(endpoint);
+  return {
+    async submit(items) {
+      const batch = await client.messages.batches.create({
+        requests: items.map(item => ({
+          custom_id: item.customId,
+          params: {
+            model: endpoint.model,
+            max_tokens: item.maxTokens,
+            messages: [{ role: 'user', content: item.prompt }],
+          },
+        })),
+      });
+      return batch.id;
+    },
+    async progress(batchId) {
+      const batch = await client.messages.batches.retrieve(batchId);
+      const counts = batch.request_counts;
+      const done = counts.succeeded + counts.errored + counts.canceled + counts.expired;
+      return { ended: batch.processing_status === 'ended', done, total: done + counts.processing };
+    },
+    async results(batchId) {
+      const outcomes: BatchOutcome[] = [];
+      for await (const entry of await client.messages.batches.results(batchId)) {
+        const { result } = entry;
+        if (result.type === 'succeeded') {
+          const block = result.message.content[0];
+          outcomes.push({
+            customId: entry.custom_id,
+            text: block?.type === 'text' ? block.text.trim() : '',
+            inputTokens: result.message.usage?.input_tokens,
+            outputTokens: result.message.usage?.output_tokens,
+          });
+        } else {
+          const message = result.type === 'errored' ? result.error?.error?.message : undefined;
+          outcomes.push({ customId: entry.custom_id, error: message ? `${result.type}: ${message}` : result.type });
+        }
+      }
+      return outcomes;
+    },
+  };
+}
+
+interface OpenAiBatch {
+  id: string;
+  status: string;
+  output_file_id?: string | null;
+  error_file_id?: string | null;
+  request_counts?: { total: number; completed: number; failed: number };
+  errors?: { data?: Array<{ message?: string }> };
+}
+
+interface OpenAiBatchLine {
+  custom_id: string;
+  response?: {
+    status_code: number;
+    body?: {
+      choices?: { message?: { content?: string } }[];
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+  } | null;
+  error?: { message?: string } | null;
+}
+
+const OPENAI_FINAL_STATUSES = ['completed', 'failed', 'expired', 'cancelled'];
+
+// Files API upload, then /batches; results come back as a JSONL output file
+function openAiBatches(endpoint: AiEndpoint): BatchApi {
+  const request = async (method: string, apiPath: string, body?: BodyInit, json = false): Promise<Response> => {
+    const res = await fetch(endpointUrl(endpoint.baseUrl!, apiPath).href, {
+      method,
+      headers: {
+        ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
+        ...(json ? { 'Content-Type': 'application/json' } : {}),
+        ...endpoint.headers,
+      },
+      body,
+      signal: AbortSignal.timeout(120_000),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status} from ${method} ${apiPath}`);
+    return res;
+  };
+  const getBatch = async (batchId: string) =>
+    await (await request('GET', `/batches/${encodeURIComponent(batchId)}`)).json() as OpenAiBatch;
+  const readLines = async (fileId: string) => {
+    const text = await (await request('GET', `/files/${encodeURIComponent(fileId)}/content`)).text();
+    return text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as OpenAiBatchLine);
+  };
+
+  return {
+    async submit(items) {
+      const jsonl = items.map(item => JSON.stringify({
+        custom_id: item.customId,
+        method: 'POST',
+        url: '/v1/chat/completions',
+        body: {
+          model: endpoint.model,
+          max_tokens: item.maxTokens,
+          messages: [{ role: 'user', content: item.prompt }],
+        },
+      })).join('\n');
+      const form = new FormData();
+      form.append('purpose', 'batch');
+      form.append('file', new Blob([jsonl], { type: 'application/jsonl' }), 'descriptions.jsonl');
+      const file = await (await request('POST', '/files', form)).json() as { id: string };
+      const batch = await (await request('POST', '/batches', JSON.stringify({
+        input_file_id: file.id,
+        endpoint: '/v1/chat/completions',
+        completion_window: '24h',
+      }), true)).json() as OpenAiBatch;
+      return batch.id;
+    },
+    async progress(batchId) {
+      const batch = await getBatch(batchId);
+      const counts = batch.request_counts ?? { total: 0, completed: 0, failed: 0 };
+      return {
+        ended: OPENAI_FINAL_STATUSES.includes(batch.status),
+        done: counts.completed + counts.failed,
+        total: counts.total,
+      };
+    },
+    async results(batchId) {
+      const batch = await getBatch(batchId);
+      if (batch.status === 'failed' && !batch.output_file_id) {
+        throw new Error(`batch ${batchId} failed: ${batch.errors?.data?.[0]?.message ?? 'no reason given'}`);
+      }
+      const lines = [
+        ...(batch.output_file_id ? await readLines(batch.output_file_id) : []),
+        ...(batch.error_file_id ? await readLines(batch.error_file_id) : []),
+      ];
+      return lines.map((line): BatchOutcome => {
+        const response = line.response;
+        if (!response || response.status_code !== 200) {
+          return {
+            customId: line.custom_id,
+            error: line.error?.message ?? (response ? `HTTP ${response.status_code}` : 'no response'),
+          };
+        }
+        return {
+          customId: line.custom_id,
+          text: response.body?.choices?.[0]?.message?.content?.trim() ?? '',
+          inputTokens: response.body?.usage?.prompt_tokens,
+          outputTokens: response.body?.usage?.completion_tokens,
+        };
+      });
+    },
+  };
+}
+
+function batchApi(provider: AiProvider, apiKey: string, options: GenerateOptions): BatchApi {
+  if (!BATCH_PROVIDERS.includes(provider)) {
+    throw new Error(`--ai-batch is not available for ${provider} (supported: ${BATCH_PROVIDERS.join(', ')})`);
+  }
+  const endpoint = resolveEndpoint(provider, apiKey, options);
+  return provider === 'claude' ? anthropicBatches(endpoint) : openAiBatches(endpoint);
+}
+
+export async function loadBatchState(statePath: string): Promise<BatchState | undefined> {
+  const full = path.resolve(statePath);
+  if (!existsSync(full)) return undefined;
+  let state: BatchState;
+  try {
+    state = JSON.parse(await readFile(full, 'utf-8')) as BatchState;
+  } catch (err) {
+    throw new Error(`Cannot read batch state ${statePath}: ${(err as Error).message}`);
+  }
+  // Unlike the page cache, this can't be rebuilt: the batch ID is the only way to the results
+  if (state.version !== BATCH_STATE_VERSION || !state.batchId || typeof state.requests !== 'object') {
+    throw new Error(`${statePath} is not a batch state file from this version of llm-txt-gen`);
+  }
+  return state;
+}
+
+export async function saveBatchState(statePath: string, state: BatchState): Promise<void> {
+  await writeFile(path.resolve(statePath), JSON.stringify(state, null, 2) + '\n', 'utf-8');
+}
+
+export async function removeBatchState(statePath: string): Promise<void> {
+  await rm(path.resolve(statePath), { force: true });
+}
+
+// Sends one description request per page as a single batch and records it in `statePath`
+export async function submitDescriptionBatch(
+  pages: PageData[],
+  provider: AiProvider,
+  apiKey: string,
+  options: GenerateOptions,
+  statePath: string,
+): Promise<BatchState> {
+  const api = batchApi(provider, apiKey, options);
+  const requests: Record<string, string> = {};
+  const items = pages.map((page, i) => {
+    const customId = `page-${i}`;
+    requests[customId] = page.url;
+    const { prompt, maxTokens } = descriptionRequest(page, options);
+    return { customId, prompt, maxTokens };
+  });
+
+  const batchId = await api.submit(items);
+  const state: BatchState = {
+    version: BATCH_STATE_VERSION,
+    provider,
+    model: resolveEndpoint(provider, apiKey, options).model,
+    batchId,
+    submittedAt: new Date().toISOString(),
+    requests,
+  };
+  await saveBatchState(statePath, state);
+  return state;
+}
+
+// Checks the batch every `intervalMs` until it ends or `waitMs` has passed
+export async function pollDescriptionBatch(
+  state: BatchState,
+  apiKey: string,
+  options: GenerateOptions,
+  waitMs = 0,
+  intervalMs = 30_000,
+): Promise<BatchProgress> {
+  const api = batchApi(state.provider, apiKey, { ...options, model: state.model });
+  const deadline = Date.now() + waitMs;
+  for (;;) {
+    const progress = await api.progress(state.batchId);
+    if (progress.ended || Date.now() + intervalMs > deadline) return progress;
+    await new Promise(r => setTimeout(r, intervalMs));
+  }
+}
+
+// Merges a finished batch into `pages` by URL; pages that weren't in the batch are returned unchanged
+export async function collectDescriptionBatch(
+  state: BatchState,
+  pages: PageData[],
+  apiKey: string,
+  options: GenerateOptions,
+): Promise<{ pages: PageData[]; failures: AiFailure[]; usage: AiUsage }> {
+  const api = batchApi(state.provider, apiKey, { ...options, model: state.model });
+  const outcomes = await api.results(state.batchId);
+  const usage = emptyUsage();
+  const descriptions = new Map<string, string>();
+  const failures: AiFailure[] = [];
+  const byUrl = new Map(pages.map(page => [page.url, page]));
+
+  for (const outcome of outcomes) {
+    const url = state.requests[outcome.customId];
+    if (!url) continue;
+    usage.requests++;
+    usage.inputTokens += outcome.inputTokens ?? 0;
+    usage.outputTokens += outcome.outputTokens ?? 0;
+    if (outcome.text === undefined) {
+      failures.push({ url, reason: outcome.error ?? 'empty response' });
+      continue;
+    }
+    // Same checks as a direct run, but a rejected reply can't be asked for again inside the batch
+    const text = tidyReply(outcome.text);
+    const page = byUrl.get(url);
+    const rejection = page ? checkDescription(text, page, descriptionRequest(page, options).style) : undefined;
+    if (rejection) failures.push({ url, reason: `rejected: ${rejection}` });
+    else descriptions.set(url, text);
+  }
+  // Requests the provider never answered, e.g. when the batch was cancelled early
+  const answered = new Set(outcomes.map(o => o.customId));
+  for (const [customId, url] of Object.entries(state.requests)) {
+    if (!answered.has(customId)) failures.push({ url, reason: 'no result' });
+  }
+
+  return {
+    pages: pages.map(page => {
+      const description = descriptions.get(page.url);
+      return description ? { ...page, description } : page;
+    }),
+    failures,
+    usage,
+  };
+}
@@ -0,0 +1,152 @@
+import { truncateMarkdown } from './markdown.js';
+
+export type BudgetUnit = 'chars' | 'tokens';
+
+export interface ContentBudget {
+  unit: BudgetUnit;
+  // Max size of one page's content; defaults to DEFAULT_PAGE_BUDGET_CHARS
+  perPage?: number;
+  // Max size of the whole file, headers included
+  total?: number;
+}
+
+export interface BudgetItem {
+  url: string;
+  content: string;
+  // Characters the page costs on top of its content (heading, URL line, separators)
+  overhead: number;
+  // Relative share when the total budget is tight
+  weight: number;
+}
+
+export interface BudgetReport {
+  unit: BudgetUnit;
+  truncated: Array<{ url: string; from: number; to: number }>;
+  omitted: string[];
+  // Size of the finished file, in the budget's unit
+  size: number;
+}
+
+// Rough average for English prose and code across current tokenizers
+export const CHARS_PER_TOKEN = 4;
+
+// The per-page cap llm-full.txt has always used
+export const DEFAULT_PAGE_BUDGET_CHARS = 3000;
+
+// Pages that would get less than this are left out rather than cut to a stub
+const MIN_PAGE_CHARS = 200;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function measure(text: string, unit: BudgetUnit): number {
+  return unit === 'tokens' ? estimateTokens(text) : text.length;
+}
+
+function toChars(size: number, unit: BudgetUnit): number {
+  return unit === 'tokens' ? size * CHARS_PER_TOKEN : size;
+}
+
+// "4000", "100k", "1.5m"
+export function parseBudgetSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([km]?)$/i);
+  if (!match) throw new Error(`Invalid size "${value}" (expected a number like 4000, 100k or 1m)`);
+  const multiplier = { '': 1, k: 1_000, m: 1_000_000 }[match[2].toLowerCase() as '' | 'k' | 'm'];
+  const size = Math.round(parseFloat(match[1]) * multiplier);
+  if (size < 1) throw new Error(`Invalid size "${value}" (must be at least 1)`);
+  return size;
+}
+
+// Priority 0.5 (the sitemap default) weighs 1; key pages count double
+export function pageWeight(priority: number | undefined, isKey: boolean): number {
+  return (0.5 + (priority ?? 0.5)) * (isKey ? 2 : 1);
+}
+
+// Water-filling: every page gets what it wants up to its weighted share of what's left,
+// and the shares of pages that need less are handed on to the rest
+function fill(desired: number[], weights: number[], available: number): number[] {
+  const allocation = new Array<number>(desired.length).fill(0);
+  let open = desired.map((_, i) => i);
+  let remaining = available;
+
+  while (open.length > 0 && remaining > 0) {
+    const totalWeight = open.reduce((sum, i) => sum + weights[i], 0);
+    const satisfied = open.filter(i => desired[i] <= (remaining * weights[i]) / totalWeight);
+    if (satisfied.length === 0) {
+      for (const i of open) allocation[i] = Math.floor((remaining * weights[i]) / totalWeight);
+      break;
+    }
+    for (const i of satisfied) {
+      allocation[i] = desired[i];
+      remaining -= desired[i];
+    }
+    open = open.filter(i => !satisfied.includes(i));
+  }
+  return allocation;
+}
+
+// Returns each page's content cut to its share of the budget; omitted pages are absent
+export function allocateBudget(
+  items: BudgetItem[],
+  budget: ContentBudget,
+  fixedOverhead = 0,
+): { contents: Map<string, string>; report: Omit<BudgetReport, 'size'> } {
+  const perPage = budget.perPage !== undefined ? toChars(budget.perPage, budget.unit) : DEFAULT_PAGE_BUDGET_CHARS;
+  const desired = items.map(item => Math.min(item.content.length, perPage));
+  const included = items.map(() => true);
+  let allocation = desired;
+
+  if (budget.total !== undefined) {
+    const total = toChars(budget.total, budget.unit);
+    for (;;) {
+      const indexes = items.map((_, i) => i).filter(i => included[i]);
+      const available = total - fixedOverhead - indexes.reduce((sum, i) => sum + items[i].overhead, 0);
+      const filled = fill(indexes.map(i => desired[i]), indexes.map(i => items[i].weight), Math.max(0, available));
+      allocation = items.map(() => 0);
+      indexes.forEach((i, k) => { allocation[i] = filled[k]; });
+
+      // Drop the least important starved page and share its room out again
+      const starved = indexes.filter(i => allocation[i] < desired[i] && allocation[i] < MIN_PAGE_CHARS);
+      if (starved.length === 0) break;
+      const victim = starved.reduce((a, b) => (items[b].weight <= items[a].weight ? b : a));
+      included[victim] = false;
+    }
+  }
+
+  const contents = new Map<string, string>();
+  const truncated: BudgetReport['truncated'] = [];
+  const omitted: string[] = [];
+  items.forEach((item, i) => {
+    if (!included[i]) {
+      omitted.push(item.url);
+      return;
+    }
+    const text = truncateMarkdown(item.content, allocation[i]);
+    if (text.length < item.content.length) {
+      truncated.push({
+        url: item.url,
+        from: measure(item.content, budget.unit),
+        to: measure(text, budget.unit),
+      });
+    }
+    contents.set(item.url, text);
+  });
+
+  return { contents, report: { unit: budget.unit, truncated, omitted } };
+}
+
+export function formatBudgetReport(report: BudgetReport, limit?: number, maxLines = 20): string {
+  const unit = report.unit;
+  const details = [
+    ...report.omitted.map(url => `  omitted   ${url}`),
+    ...report.truncated.map(t => `  truncated ${t.url} (${t.from} -> ${t.to} ${unit})`),
+  ];
+  const lines = [
+    `llm-full.txt: ${report.size.toLocaleString('en-US')} ${unit}${limit ? ` of ${limit.toLocaleString('en-US')}` : ''}, ` +
+      `${report.truncated.length} page(s) truncated, ${report.omitted.length} omitted`,
+    ...details.slice(0, maxLines),
+  ];
+  if (details.length > maxLines) lines.push(`  ...and ${details.length - maxLines} more`);
+  return lines.join('\n');
+}
@@ -0,0 +1,147 @@
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import type { PageData } from './extractor.js';
+import type { PageValidators } from './crawler.js';
+
+// 2: pages carry their language and hreflang alternates; 3: their canonical URL and meta robots;
+// 4: robots directives filtered to ours and merged with X-Robots-Tag
+const CACHE_VERSION = 4;
+// Entries no run has used for this long are dropped when the cache is saved, so removed pages don't pile up
+const CACHE_MAX_AGE_DAYS = 30;
+
+export interface CachedPage extends PageValidators {
+  lastmod?: string;
+  contentHash: string;
+  page: PageData;
+  aiDescription?: string;
+  // Hash of the page, and of the prompt when one was given, as sent to the AI provider
+  aiHash?: string;
+  // When a run last fetched or reused the page (ISO 8601)
+  seenAt?: string;
+}
+
+export interface PageCache {
+  version: number;
+  pages: Record<string, CachedPage>;
+}
+
+export function emptyCache(): PageCache {
+  return { version: CACHE_VERSION, pages: {} };
+}
+
+export async function loadCache(cachePath: string): Promise<PageCache> {
+  const full = path.resolve(cachePath);
+  if (!existsSync(full)) return emptyCache();
+  try {
+    const parsed = JSON.parse(await readFile(full, 'utf-8')) as PageCache;
+    // An unreadable or outdated cache is simply rebuilt
+    if (parsed.version !== CACHE_VERSION || typeof parsed.pages !== 'object') return emptyCache();
+    // Entries from before seenAt was recorded start their age now
+    const now = new Date().toISOString();
+    for (const entry of Object.values(parsed.pages)) entry.seenAt ??= now;
+    return parsed;
+  } catch {
+    return emptyCache();
+  }
+}
+
+export async function saveCache(cachePath: string, cache: PageCache): Promise<void> {
+  const cutoff = Date.now() - CACHE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  for (const [url, entry] of Object.entries(cache.pages)) {
+    if (entry.seenAt && Date.parse(entry.seenAt) < cutoff) delete cache.pages[url];
+  }
+  await writeFile(path.resolve(cachePath), JSON.stringify(cache, null, 2), 'utf-8');
+}
+
+export function hashPage(page: PageData): string {
+  return createHash('sha256')
+    .update([page.title, page.description, page.h1, page.content].join('\0'))
+    .digest('hex');
+}
+
+// A sitemap lastmod identical to the one recorded means the page can be reused without a request
+export function isFreshByLastmod(cached: CachedPage | undefined, lastmod?: string): boolean {
+  return !!cached && !!lastmod && cached.lastmod === lastmod;
+}
+
+export function recordPage(
+  cache: PageCache,
+  page: PageData,
+  meta: PageValidators & { lastmod?: string },
+): void {
+  const previous = cache.pages[page.url];
+  cache.pages[page.url] = {
+    ...previous,
+    etag: meta.etag,
+    lastModified: meta.lastModified,
+    lastmod: meta.lastmod,
+    contentHash: hashPage(page),
+    page,
+    seenAt: new Date().toISOString(),
+  };
+}
+
+// The cached copy of an unchanged page, marked as used by this run
+export function reusePage(cache: PageCache, url: string): PageData {
+  const cached = cache.pages[url];
+  cached.seenAt = new Date().toISOString();
+  return { ...cached.page };
+}
+
+function descriptionHash(page: PageData, promptOf?: (page: PageData) => string): string {
+  if (!promptOf) return hashPage(page);
+  return createHash('sha256').update(`${hashPage(page)}\0${promptOf(page)}`).digest('hex');
+}
+
+function hasCachedDescription(cache: PageCache, page: PageData, promptOf?: (page: PageData) => string): boolean {
+  const cached = cache.pages[page.url];
+  return !!cached?.aiDescription && cached.aiHash === descriptionHash(page, promptOf);
+}
+
+// The pages withCachedDescriptions would send to the provider
+export function uncachedPages(
+  pages: PageData[],
+  cache: PageCache,
+  promptOf?: (page: PageData) => string,
+): PageData[] {
+  return pages.filter(page => !hasCachedDescription(cache, page, promptOf));
+}
+
+// Reuse AI descriptions for pages whose content hash is unchanged; only the rest go to `generate`.
+// With `promptOf`, a changed prompt (template, tone, length...) also invalidates the description.
+export async function withCachedDescriptions(
+  pages: PageData[],
+  cache: PageCache,
+  generate: (pages: PageData[]) => Promise<PageData[]>,
+  promptOf?: (page: PageData) => string,
+): Promise<{ pages: PageData[]; reused: number }> {
+  const reused = new Map<string, PageData>();
+  const pending: PageData[] = [];
+
+  for (const page of pages) {
+    if (hasCachedDescription(cache, page, promptOf)) {
+      reused.set(page.url, { ...page, description: cache.pages[page.url].aiDescription! });
+    } else {
+      pending.push(page);
+    }
+  }
+
+  const generated = pending.length > 0 ? await generate(pending) : [];
+  const byUrl = new Map(generated.map(p => [p.url, p]));
+
+  for (const original of pending) {
+    const result = byUrl.get(original.url);
+    const entry = cache.pages[original.url];
+    // Fallbacks keep the original description and must not be cached as AI output
+    if (!result || !entry || result.description === original.description) continue;
+    entry.aiDescription = result.description;
+    entry.aiHash = descriptionHash(original, promptOf);
+  }
+
+  return {
+    pages: pages.map(p => reused.get(p.url) ?? byUrl.get(p.url) ?? p),
+    reused: reused.size,
+  };
+}
@@ -1,20 +1,189 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
-import { writeFile } from 'fs/promises';
-import { discoverSitemapUrl, fetchSitemap } from './sitemap.js';
-import { crawlSite, fetchPage } from './crawler.js';
-import { extractPageData } from './extractor.js';
-import { formatLlmTxt, formatLlmFullTxt } from './formatter.js';
-import { generateDescriptions, getProviderEnvVar } from './ai.js';
-import type { AiProvider } from './ai.js';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { discoverSitemapUrls, fetchSitemap, fetchSitemaps, parseUrlList } from './sitemap.js';
+import { crawlSite, fetchPageIfChanged, fetchPageWithHeaders } from './crawler.js';
+import type { CrawlOptions } from './crawler.js';
+import { extractPageData, withRobotsHeader } from './extractor.js';
+import { formatLlmTxt, fitLlmFullTxt, planSections } from './formatter.js';
+import { parseBudgetSize, formatBudgetReport } from './budget.js';
+import { writeMarkdownMirror } from './mirror.js';
+import type { BudgetUnit, ContentBudget } from './budget.js';
+import type { LlmTxtOptions, SpecMode } from './formatter.js';
+import { parseLlmsTxt, checkLinks, readLlmsTxt, formatIssues } from './lint.js';
+import {
+  AI_PROVIDERS,
+  createAiClient,
+  descriptionPrompt,
+  estimateDescriptionUsage,
+  estimateOutlineUsage,
+  generateDescriptionsWithReport,
+  getProviderEnvVar,
+  getProviderModel,
+  groupPages,
+  requiresApiKey,
+  summarizeFailures,
+  summarizeSite,
+  writeSectionIntros,
+} from './ai.js';
+import type { AiProvider, AiFailure, GenerateOptions } from './ai.js';
+import { PROMPT_FIELDS, unknownFields } from './prompt.js';
+import type { DescriptionStyle } from './prompt.js';
+import { addUsage, batchPrice, emptyUsage, costOf, formatEstimate, formatUsage, getModelPrice, writeRunReport } from './usage.js';
+import type { AiPrice, AiUsage, EstimateRow, RunReport } from './usage.js';
+import {
+  BATCH_PROVIDERS,
+  collectDescriptionBatch,
+  loadBatchState,
+  pollDescriptionBatch,
+  removeBatchState,
+  submitDescriptionBatch,
+} from './batch.js';
+import type { BatchState } from './batch.js';
+import { dedupePages } from './dedupe.js';
+import type { MergedPage } from './dedupe.js';
+import { localeLabel, localizedPath, matchesLocale, normalizeLocale, splitByLocale } from './locale.js';
+import type { LocaleEdition } from './locale.js';
+import { createReplay, loadResponseCache, REPLAY_MODES, responseKey, saveResponseCache } from './replay.js';
+import type { ReplayMode } from './replay.js';
 import { validateUrl } from './validate.js';
 import { crawlWithFirecrawl } from './firecrawl.js';
 import { fetchPagesWithBrowser } from './playwright.js';
 import { loadConfig } from './config.js';
-import type { LlmConfig } from './config.js';
-import type { PageData } from './extractor.js';
+import { createRobotsGate, fetchRobotsPolicy, noindexDirective, NOINDEX_DIRECTIVES, robotsDirectives } from './robots.js';
+import type { RobotsGate } from './robots.js';
+import { loadCache, saveCache, recordPage, reusePage, isFreshByLastmod, uncachedPages, withCachedDescriptions } from './cache.js';
+import type { PageCache } from './cache.js';
+import type { SitemapEntry, SitemapFetchOptions } from './sitemap.js';
+import { SELECT_STRATEGIES, candidateLimit, selectEntries } from './select.js';
+import type { SelectStrategy } from './select.js';
+import { checkUrl, findMatchingPattern, validateUrlPatterns } from './patterns.js';
+import type { UrlRules } from './patterns.js';
+import type { LlmConfig, RenderMode } from './config.js';
+import type { PageData, ExtractOptions } from './extractor.js';
 
-const AI_PROVIDERS: AiProvider[] = ['claude', 'openai', 'gemini', 'perplexity', 'grok', 'deepseek'];
+// Raw commander values; defaults are applied in resolveRunOptions so the config file can fill gaps
+interface CliOptions {
+  sitemap?: string;
+  urlsFile?: string;
+  select?: string;
+  output?: string;
+  fullOutput?: string;
+  limit?: string;
+  concurrency?: string;
+  firecrawl?: boolean;
+  browser?: boolean;
+  ai?: string;
+  config?: string;
+  ignoreRobots?: boolean;
+  includeNoindex?: boolean;
+  followNofollow?: boolean;
+  cache?: string;
+  maxDepth?: string;
+  scope?: string;
+  include?: string[];
+  exclude?: string[];
+  stripQuery?: boolean;
+  delay?: string;
+  dryRun?: boolean;
+  lang?: string[];
+  splitLocales?: boolean;
+  dedupe?: boolean;
+  spec?: string;
+  pageBudget?: string;
+  totalBudget?: string;
+  budgetUnit?: string;
+  mdDir?: string;
+  mdLinks?: boolean;
+  aiConcurrency?: string;
+  aiRpm?: string;
+  aiStrict?: boolean;
+  aiModel?: string;
+  aiBaseUrl?: string;
+  aiSummary?: boolean;
+  aiGroup?: boolean;
+  aiPrompt?: string;
+  aiTone?: string;
+  aiLanguage?: string;
+  aiMaxWords?: string;
+  aiContentChars?: string;
+  aiEstimate?: boolean;
+  aiBatch?: string;
+  aiBatchWait?: string;
+  aiReplay?: string;
+  aiReplayMode?: string;
+  report?: string;
+}
+
+interface RunOptions {
+  sitemap?: string;
+  // A file of URLs to process instead of a sitemap or crawl
+  urlsFile?: string;
+  // How to choose --limit URLs from a larger sitemap
+  select: SelectStrategy;
+  output?: string;
+  fullOutput?: string;
+  limit: number;
+  concurrency: number;
+  render: RenderMode;
+  ai?: string;
+  maxDepth?: number;
+  scope?: string;
+  include: string[];
+  exclude: string[];
+  stripQuery: boolean;
+  delay: number;
+  ignoreRobots: boolean;
+  // Keep pages marked noindex or noai, and follow nofollow links
+  includeNoindex: boolean;
+  followNofollow: boolean;
+  cache?: string;
+  dryRun: boolean;
+  // Language filters ("de" also matches "de-AT"), and whether to write one llm.txt per language
+  lang: string[];
+  splitLocales: boolean;
+  // Merge pages that share a URL, a canonical or (within dedupeDistance SimHash bits) their content
+  dedupe: boolean;
+  dedupeDistance?: number;
+  spec: SpecMode;
+  budget: ContentBudget;
+  mdDir?: string;
+  mdLinks: boolean;
+  aiConcurrency: number;
+  aiRpm?: number;
+  aiStrict: boolean;
+  aiModel?: string;
+  aiBaseUrl?: string;
+  aiHeaders: Record<string, string>;
+  aiApiKeyEnv?: string;
+  aiSummary: boolean;
+  aiGroup: boolean;
+  // The template is read from aiPromptFile when that is set
+  aiStyle: DescriptionStyle;
+  aiPromptFile?: string;
+  aiPricing?: AiPrice;
+  aiEstimate: boolean;
+  // State file of --ai-batch; minutes to keep polling before leaving the batch for a later run
+  aiBatch?: string;
+  aiBatchWait: number;
+  // File of recorded AI responses, and whether to only read it, add to it or re-record it
+  aiReplay?: string;
+  aiReplayMode: ReplayMode;
+  report?: string;
+}
+
+// A provider that is ready to call: known, and with its key when it needs one
+interface AiSetup {
+  provider: AiProvider;
+  apiKey: string;
+  options: GenerateOptions;
+}
+
+interface DroppedUrl {
+  url: string;
+  reason: string;
+}
 
 const program = new Command();
 
@@ -23,26 +192,56 @@ program
   .description('Auto-generate /llm.txt and /llm-full.txt for any website')
   .version('0.1.0')
   .argument('<url>', 'Website URL to generate llm.txt for')
-  .option('--sitemap <url>', 'Use a specific sitemap URL instead of auto-discovery')
+  .option('--sitemap <url>', 'Use a specific sitemap URL instead of auto-discovery (XML, .xml.gz, text, RSS or Atom)')
+  .option('--select <strategy>', 'How to pick --limit URLs from a larger sitemap: "balanced" (default), "recent" or "priority"')
+  .option('--urls-file <path>', 'Process the URLs listed in this file, one per line, instead of a sitemap')
   .option('--output <path>', 'Write llm.txt to this path (default: stdout)')
   .option('--full-output <path>', 'Also write llm-full.txt to this path')
-  .option('--limit <n>', 'Max number of pages to process', '50')
-  .option('--concurrency <n>', 'Number of pages to fetch in parallel', '5')
+  .option('--limit <n>', 'Max number of pages to process (default: 50)')
+  .option('--concurrency <n>', 'Number of pages (and child sitemaps) to fetch in parallel (default: 5)')
+  .option('--max-depth <n>', 'Max link depth when crawling a site without a sitemap')
+  .option('--scope <path>', 'Only crawl URLs under this path prefix, e.g. /docs/')
+  .option('--include <pattern...>', 'Only keep URLs matching these globs or re:<regex> patterns, e.g. "/docs/**"')
+  .option('--exclude <pattern...>', 'Drop URLs matching these globs or re:<regex> patterns, e.g. "/blog/tag/*"')
+  .option('--lang <locales...>', 'Only keep pages in these languages, e.g. "de" or "en fr" (from hreflang or <html lang>)')
+  .option('--split-locales', 'Write one llm.txt per language (llms.de.txt, ...) linking to each other; needs --output')
+  .option('--no-dedupe', 'Keep pages that share a canonical URL or have near-identical content')
+  .option('--strip-query', 'Drop query strings when crawling (tracking params are always dropped)')
+  .option('--delay <ms>', 'Minimum delay between requests to the same host when crawling (default: 0)')
   .option('--firecrawl', 'Use Firecrawl to render JS-heavy pages (requires FIRECRAWL_API_KEY)')
   .option('--browser', 'Use local Playwright browser to render JS-heavy pages (requires playwright)')
   .option(`--ai <provider>`, `Use AI to generate descriptions. Provider: ${AI_PROVIDERS.join(', ')}`)
-  .option('--config <path>', 'Path to llm.config.json', 'llm.config.json')
-  .action(async (url: string, opts: {
-    sitemap?: string;
-    output?: string;
-    fullOutput?: string;
-    limit: string;
-    concurrency: string;
-    firecrawl?: boolean;
-    browser?: boolean;
-    ai?: string;
-    config: string;
-  }) => {
+  .option('--ai-concurrency <n>', 'Parallel AI requests (default: 4)')
+  .option('--ai-rpm <n>', "Max AI requests per minute (default: the provider's entry-level limit, 0 = no limit)")
+  .option('--ai-strict', 'Fail the run when a description cannot be generated instead of keeping the original')
+  .option('--ai-model <name>', "Model to use instead of the provider's default")
+  .option('--ai-base-url <url>', 'API base URL, e.g. a proxy, Azure OpenAI or a local server (required for openai-compatible)')
+  .option('--ai-summary', 'Also write the site summary and an intro for each section with AI')
+  .option('--ai-group', 'Group pages into sections by topic with AI instead of by URL path')
+  .option('--ai-prompt <file>', 'Prompt template for AI descriptions, with {{title}}, {{content}}, {{section}}... placeholders')
+  .option('--ai-tone <text>', 'Tone of AI descriptions, e.g. "neutral" or "imperative, starting with \'How to\'"')
+  .option('--ai-language <language>', 'Language to write AI descriptions in, e.g. German')
+  .option('--ai-max-words <n>', 'Target length of AI descriptions in words (default: 20)')
+  .option('--ai-content-chars <n>', 'Characters of page content sent with each AI request (default: 500)')
+  .option('--ai-batch <state-file>', "Send AI descriptions through the provider's batch API at half price; a later run collects them")
+  .option('--ai-batch-wait <minutes>', 'Keep polling a submitted batch this long before leaving it for a later run (default: 0)')
+  .option('--ai-replay <file>', 'Answer AI requests from a file of recorded responses, recording new ones into it')
+  .option('--ai-replay-mode <mode>', '"record" (default), "read-only" (never call the provider) or "refresh" (re-record everything)')
+  .option('--ai-estimate', 'Fetch the pages and estimate AI tokens and cost per provider, without calling AI or writing outputs')
+  .option('--config <path>', 'Path to config file (default: llm.config.{json,yaml,yml,mjs,js})')
+  .option('--ignore-robots', 'Do not honor robots.txt rules (only for sites you own)')
+  .option('--include-noindex', 'Keep pages marked noindex or noai in meta robots or X-Robots-Tag')
+  .option('--follow-nofollow', 'Follow links marked rel="nofollow" and links on nofollow pages when crawling')
+  .option('--dry-run', 'List which URLs would be processed and which rule dropped the rest, then exit')
+  .option('--cache <path>', 'Reuse unchanged pages and AI descriptions from this cache file')
+  .option('--spec <mode>', 'Output format: "default" or "strict" (exact llmstxt.org structure)')
+  .option('--page-budget <size>', 'Max content per page in llm-full.txt, e.g. 4000 or 2k (default: 3000 chars)')
+  .option('--total-budget <size>', 'Max size of llm-full.txt, e.g. 100k; content is shared out by page priority')
+  .option('--budget-unit <unit>', 'Unit for the budgets: "chars" or "tokens" (approximate)')
+  .option('--md-dir <path>', 'Also write a Markdown copy of each page, mirroring the URL paths')
+  .option('--md-links', 'Point llm.txt entries at the .md copies (requires --md-dir)')
+  .option('--report <path>', 'Write a JSON report of the run: pages, outputs, AI tokens and cost')
+  .action(async (url: string, opts: CliOptions) => {
     try {
       await run(url, opts);
     } catch (err) {
@@ -51,40 +250,83 @@ program
     }
   });
 
+program
+  .command('lint')
+  .description('Check an existing llms.txt file (local path or URL) against the llmstxt.org format')
+  .argument('<source>', 'Path or URL of the llms.txt file')
+  .option('--skip-links', 'Do not check that listed URLs resolve')
+  .option('--concurrency <n>', 'Number of links to check in parallel', '5')
+  .action(async (source: string, opts: { skipLinks?: boolean; concurrency: string }) => {
+    try {
+      const failed = await lint(source, opts);
+      if (failed) process.exit(1);
+    } catch (err) {
+      console.error('Error:', (err as Error).message);
+      process.exit(1);
+    }
+  });
+
 program.parse();
 
 async function run(
   url: string,
-  opts: {
-    sitemap?: string;
-    output?: string;
-    fullOutput?: string;
-    limit: string;
-    concurrency: string;
-    firecrawl?: boolean;
-    browser?: boolean;
-    ai?: string;
-    config: string;
-  },
+  opts: CliOptions,
 ) {
-  const limit = parseInt(opts.limit, 10);
-  const concurrency = parseInt(opts.concurrency, 10);
   const config: LlmConfig = await loadConfig(opts.config);
+  const options = resolveRunOptions(opts, config);
+  const { limit, concurrency } = options;
+  const startedAt = new Date();
 
   const baseUrl = url.startsWith('http') ? url : `https://${url}`;
   const origin = await validateUrl(baseUrl);
 
-  if (opts.firecrawl && opts.browser) {
-    console.error('Error: --firecrawl and --browser cannot be used together');
-    process.exit(1);
+  console.error(`Generating llm.txt for ${baseUrl}...`);
+
+  let robots: RobotsGate | undefined;
+  if (options.ignoreRobots) {
+    console.error('Ignoring robots.txt (--ignore-robots).');
+  } else {
+    const policy = await fetchRobotsPolicy(origin);
+    robots = createRobotsGate(policy);
+    if (policy.unreachable) {
+      console.error(`Warning: robots.txt unreachable (${policy.unreachable}); treating site as disallowed, use --ignore-robots to override.`);
+    }
+    if (policy.crawlDelay) {
+      console.error(`Honoring robots.txt Crawl-delay of ${policy.crawlDelay}s.`);
+    }
   }
 
-  console.error(`Generating llm.txt for ${baseUrl}...`);
+  const rules: UrlRules = {
+    include: options.include,
+    exclude: options.exclude,
+  };
+  const patternErrors = validateUrlPatterns([...options.include, ...options.exclude]);
+  if (patternErrors.length > 0) throw new Error(patternErrors.join('\n'));
+
+  const crawlOptions: CrawlOptions = {
+    concurrency,
+    maxDepth: options.maxDepth,
+    scope: options.scope,
+    include: rules.include,
+    exclude: rules.exclude,
+    stripQuery: options.stripQuery,
+    delayMs: options.delay,
+    robots,
+    includeNoindex: options.includeNoindex,
+    followNofollow: options.followNofollow,
+  };
 
-  const excluded = new Set(config.exclude ?? []);
+  const extract: ExtractOptions = {
+    contentSelector: config.contentSelector,
+    removeSelectors: config.removeSelectors,
+  };
+
+  const cache = options.cache ? await loadCache(options.cache) : undefined;
+  const dropped: DroppedUrl[] = [];
+  crawlOptions.onSkip = (skippedUrl, reason) => dropped.push({ url: skippedUrl, reason });
   let validPages: PageData[];
 
-  if (opts.firecrawl) {
+  if (options.render === 'firecrawl') {
     const apiKey = process.env.FIRECRAWL_API_KEY;
     if (!apiKey) {
       console.error('Error: --firecrawl requires FIRECRAWL_API_KEY env var');
@@ -92,119 +334,890 @@ async function run(
     }
     console.error('Using Firecrawl (JS rendering enabled)...');
     const rawPages = await crawlWithFirecrawl(baseUrl, apiKey, limit);
-    validPages = rawPages
-      .filter(p => !excluded.has(p.url))
-      .map(p => {
-        const override = config.overrides?.[p.url];
-        return override ? { ...p, ...override } : p;
-      });
-    console.error(`Fetched ${validPages.length} pages via Firecrawl.`);
-
-  } else if (opts.browser) {
-    const urls = await discoverUrls(baseUrl, opts.sitemap, limit, excluded);
-    console.error(`Rendering ${urls.length} pages with Playwright...`);
-    const pages = await fetchPagesWithBrowser(urls, concurrency, (ok) => {
-      process.stderr.write(ok ? '.' : 'x');
+    // Firecrawl crawls on its own, so its pages get the same robots.txt check as any other source
+    const keptPages = rawPages.filter(p => {
+      const reason = checkUrl(p.url, rules) ?? (robots && !robots.allows(p.url) ? 'robots.txt' : null);
+      if (reason) dropped.push({ url: p.url, reason });
+      return !reason;
     });
-    process.stderr.write('\n');
-    validPages = pages
-      .filter((p): p is PageData => p !== null)
-      .map(p => {
-        const override = config.overrides?.[p.url];
-        return override ? { ...p, ...override } : p;
-      });
+    if (options.dryRun) {
+      printDryRun(keptPages.map(p => p.url), dropped);
+      return;
+    }
+    if (cache) rawPages.forEach(p => recordPage(cache, p, {}));
+    validPages = keptPages.map(p => {
+      const override = config.overrides?.[p.url];
+      return override ? { ...p, ...override } : p;
+    });
+    console.error(`Fetched ${validPages.length} pages via Firecrawl.`);
 
   } else {
-    const urls = await discoverUrls(baseUrl, opts.sitemap, limit, excluded);
-    console.error(`Processing ${urls.length} pages...`);
-    const pages = await processInBatches(
-      urls,
-      concurrency,
-      async (pageUrl): Promise<PageData | null> => {
-        try {
-          const html = await fetchPage(pageUrl);
-          const data = extractPageData(pageUrl, html);
-          const override = config.overrides?.[pageUrl];
-          if (override) Object.assign(data, override);
-          process.stderr.write('.');
-          return data;
-        } catch {
-          process.stderr.write('x');
-          return null;
-        }
-      },
-    );
-    process.stderr.write('\n');
-    validPages = pages.filter((p): p is PageData => p !== null);
+    const entries = await discoverUrls(baseUrl, options, config, limit, rules, crawlOptions, dropped, options.lang);
+    if (options.dryRun) {
+      printDryRun(entries.map(e => e.url), dropped);
+      return;
+    }
+
+    if (options.render === 'browser') {
+      const reused = cache ? entries.filter(e => isFreshByLastmod(cache.pages[e.url], e.lastmod)) : [];
+      const toRender = entries.filter(e => !reused.includes(e));
+      if (reused.length > 0) console.error(`Reusing ${reused.length} unchanged pages from cache.`);
+      console.error(`Rendering ${toRender.length} pages with Playwright...`);
+      const rendered = await fetchPagesWithBrowser(toRender.map(e => e.url), concurrency, (ok) => {
+        process.stderr.write(ok ? '.' : 'x');
+      }, robots, extract);
+      process.stderr.write('\n');
+      if (cache) {
+        rendered.forEach((p, i) => { if (p) recordPage(cache, p, { lastmod: toRender[i].lastmod }); });
+      }
+      const byUrl = new Map<string, PageData | null>(toRender.map((e, i) => [e.url, rendered[i]]));
+      for (const e of reused) byUrl.set(e.url, reusePage(cache!, e.url));
+      validPages = entries
+        .map((e): PageData | null => {
+          const page = byUrl.get(e.url);
+          return page ? withEntry(page, e) : null;
+        })
+        .filter((p): p is PageData => p !== null)
+        .map(p => {
+          const override = config.overrides?.[p.url];
+          return override ? { ...p, ...override } : p;
+        });
+
+    } else {
+      console.error(`Processing ${entries.length} pages...`);
+      let reused = 0;
+      const pages = await processInBatches(
+        entries,
+        concurrency,
+        async (entry): Promise<PageData | null> => {
+          try {
+            const loaded = await loadPage(entry, robots, cache, extract);
+            if (loaded.fromCache) reused++;
+            const data = withEntry(loaded.page, entry);
+            const override = config.overrides?.[entry.url];
+            if (override) Object.assign(data, override);
+            process.stderr.write(loaded.fromCache ? ',' : '.');
+            return data;
+          } catch {
+            process.stderr.write('x');
+            return null;
+          }
+        },
+      );
+      process.stderr.write('\n');
+      if (reused > 0) console.error(`Reused ${reused} unchanged pages from cache.`);
+      validPages = pages.filter((p): p is PageData => p !== null);
+    }
+  }
+
+  // Noindex pages found while crawling were never listed; sitemap and Firecrawl pages are only known once fetched
+  const excluded = dropped.filter(d => NOINDEX_DIRECTIVES.includes(d.reason));
+  if (!options.includeNoindex) {
+    const listed: PageData[] = [];
+    for (const page of validPages) {
+      const directive = noindexDirective(robotsDirectives(page.robots));
+      if (directive) excluded.push({ url: page.url, reason: directive });
+      else listed.push(page);
+    }
+    validPages = listed;
+  }
+  if (excluded.length > 0) {
+    console.error(`Excluded ${excluded.length} pages marked noindex (use --include-noindex to keep them):`);
+    for (const e of excluded) console.error(`  - ${e.url}  (${e.reason})`);
+  }
+
+  if (options.lang.length > 0) {
+    // Pages with no language at all are kept: there is nothing to filter them on
+    const before = validPages.length;
+    validPages = validPages.filter(p => !p.lang || matchesLocale(p.lang, options.lang));
+    if (validPages.length < before) {
+      console.error(`Dropped ${before - validPages.length} pages in other languages (--lang ${options.lang.join(',')}).`);
+    }
+  } else if (!options.splitLocales) {
+    const locales = [...new Set(validPages.map(p => p.lang).filter(Boolean))];
+    if (locales.length > 1) {
+      console.error(
+        `Found pages in ${locales.length} languages (${locales.join(', ')}); ` +
+          'use --lang to keep one or --split-locales to write one file per language.',
+      );
+    }
+  }
+
+  let duplicates: MergedPage[] = [];
+  if (options.dedupe) {
+    const result = dedupePages(validPages, { maxDistance: options.dedupeDistance });
+    validPages = result.pages;
+    duplicates = result.merged;
+    if (duplicates.length > 0) {
+      const counts = new Map<string, number>();
+      for (const d of duplicates) counts.set(d.reason, (counts.get(d.reason) ?? 0) + 1);
+      const summary = [...counts].map(([reason, n]) => `${n} ${reason}`).join(', ');
+      console.error(`Merged ${duplicates.length} duplicate pages (${summary}):`);
+      for (const d of duplicates) console.error(`  - ${d.url} → ${d.into} (${d.reason})`);
+    }
+  }
+
+  if (options.aiEstimate) {
+    const siteName = siteNameFor(findHomePage(validPages), config, baseUrl);
+    const estimate = await estimateAi(validPages, options, config, cache, siteName);
+    process.stdout.write(formatEstimate(estimate.usage, estimate.rows));
+    if (cache && options.cache) await saveCache(options.cache, cache);
+    if (options.report) {
+      await writeRunReport(options.report, {
+        url: baseUrl,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        pages: validPages.length,
+        outputs: {},
+        duplicates,
+        excluded,
+        estimate: {
+          ...estimate.usage,
+          providers: estimate.rows.map(row => ({
+            provider: row.provider,
+            model: row.model,
+            costUsd: row.price ? costOf(estimate.usage, row.price) : null,
+          })),
+        },
+      });
+    }
+    return;
   }
 
   // Optionally enhance descriptions with AI
   let finalPages = validPages;
-  if (opts.ai) {
-    const provider = opts.ai as AiProvider;
-    if (!AI_PROVIDERS.includes(provider)) {
-      console.error(`Error: unknown AI provider "${provider}". Choose from: ${AI_PROVIDERS.join(', ')}`);
-      process.exit(1);
+  let aiUsage = emptyUsage();
+  const failures: AiFailure[] = [];
+  let collectedBatch: BatchState | undefined;
+  const ai = options.ai ? await resolveAi(options, config) : undefined;
+  if (ai) {
+    const { provider, apiKey } = ai;
+    const describeOptions: GenerateOptions = { ...ai.options, sectionOf: sectionLookup(validPages, config) };
+    const promptOf = (page: PageData) => descriptionPrompt(page, describeOptions);
+    let generate = async (pending: PageData[]) => {
+      console.error(`Generating descriptions with ${provider} for ${pending.length} pages...`);
+      try {
+        const result = await generateDescriptionsWithReport(pending, provider, apiKey, describeOptions);
+        failures.push(...result.failures);
+        aiUsage = addUsage(aiUsage, result.usage);
+        return result.pages;
+      } finally {
+        process.stderr.write('\n');
+      }
+    };
+    if (options.aiBatch) {
+      const pending = cache ? uncachedPages(validPages, cache, promptOf) : validPages;
+      const batch = await runDescriptionBatch(ai, describeOptions, pending, validPages, options);
+      if (!batch) {
+        if (cache && options.cache) await saveCache(options.cache, cache);
+        return;
+      }
+      if (options.aiStrict && batch.failures.length > 0) {
+        throw new Error(`${batch.failures.length} AI descriptions failed in the batch (${summarizeFailures(batch.failures)})`);
+      }
+      failures.push(...batch.failures);
+      aiUsage = addUsage(aiUsage, batch.usage);
+      collectedBatch = batch.state;
+      const byUrl = new Map(batch.pages.map(p => [p.url, p]));
+      generate = async pending => pending.map(p => byUrl.get(p.url) ?? p);
     }
-    const envVar = getProviderEnvVar(provider);
-    const apiKey = process.env[envVar];
-    if (!apiKey) {
-      console.error(`Warning: --ai ${provider} requires ${envVar} env var. Skipping AI step.`);
+    if (cache) {
+      const result = await withCachedDescriptions(validPages, cache, generate, promptOf);
+      if (result.reused > 0) console.error(`Reused ${result.reused} cached AI descriptions.`);
+      finalPages = result.pages;
     } else {
-      console.error(`Generating descriptions with ${provider} for ${validPages.length} pages...`);
-      finalPages = await generateDescriptions(validPages, provider, apiKey);
+      finalPages = await generate(validPages);
     }
+    if (failures.length > 0) {
+      console.error(
+        `Warning: ${failures.length} AI descriptions failed (${summarizeFailures(failures)}); kept the original descriptions.`,
+      );
+    }
+  }
+
+  if (cache && options.cache) {
+    await saveCache(options.cache, cache);
+    console.error(`Cache written to ${options.cache}`);
   }
 
-  // Determine site name and description
-  const homePage =
-    finalPages.find(p => {
-      try { return new URL(p.url).pathname === '/'; } catch { return false; }
-    }) ?? finalPages[0];
+  // With --split-locales, one edition per language: the main one in the given files, the rest in
+  // llms.<lang>.txt next to them, each linking to the others
+  const editions: LocaleEdition[] = options.splitLocales
+    ? splitByLocale(finalPages)
+    : [{ locale: 'und', pages: finalPages, primary: true, home: findHomePage(finalPages) }];
+  const pathFor = (file: string, edition: LocaleEdition) =>
+    edition.primary ? file : localizedPath(file, edition.locale);
+  const languages = editions.length > 1
+    ? editions.map(edition => ({
+        label: localeLabel(edition.locale),
+        url: new URL(path.basename(pathFor(options.output!, edition)), `${origin}/`).href,
+      }))
+    : undefined;
+  if (languages) console.error(`Writing ${editions.length} languages: ${editions.map(e => e.locale).join(', ')}`);
+  const localeOutputs: NonNullable<RunReport['outputs']['locales']> = {};
 
-  const siteName = config.siteName ?? homePage?.title ?? new URL(baseUrl).hostname;
-  const siteDescription =
-    config.siteDescription ?? homePage?.description ?? `Website at ${origin}`;
+  for (const [i, edition] of editions.entries()) {
+    // Determine site name and description
+    const homePage = edition.home ?? edition.pages[0];
+    const siteName = siteNameFor(homePage, config, baseUrl);
+    const siteDescription =
+      config.siteDescription ?? homePage?.description ?? `Website at ${origin}`;
 
-  // Format and output
-  const llmTxt = formatLlmTxt({ siteName, siteDescription, pages: finalPages });
+    // Format and output
+    let formatOptions: LlmTxtOptions = {
+      siteName,
+      siteDescription,
+      pages: edition.pages,
+      sections: config.sections,
+      keyPages: config.keyPages,
+      spec: options.spec,
+      details: config.details,
+      budget: options.budget,
+      mdLinks: options.mdLinks,
+      generatedAt: sourceDate(),
+      languages: languages?.filter((_, j) => j !== i),
+    };
+    if (ai && (options.aiGroup || options.aiSummary)) {
+      const outline = await applyAiOutline(ai, formatOptions, options, config.siteDescription === undefined);
+      formatOptions = outline.formatOptions;
+      aiUsage = addUsage(aiUsage, outline.usage);
+    }
+    const llmTxt = formatLlmTxt(formatOptions);
+
+    const output = options.output && pathFor(options.output, edition);
+    if (output) {
+      await writeFile(output, llmTxt, 'utf-8');
+      console.error(`Written to ${output}`);
+    } else {
+      process.stdout.write(llmTxt);
+    }
+
+    const fullOutput = options.fullOutput && pathFor(options.fullOutput, edition);
+    if (fullOutput) {
+      const { text: llmFullTxt, report } = fitLlmFullTxt(formatOptions);
+      await writeFile(fullOutput, llmFullTxt, 'utf-8');
+      console.error(`Full content written to ${fullOutput}`);
+      console.error(formatBudgetReport(report, options.budget.total));
+    }
+    if (languages) localeOutputs[edition.locale] = { llmTxt: output || undefined, llmFullTxt: fullOutput || undefined };
+  }
+
+  const replay = ai?.options.replay;
+  if (replay && options.aiReplay) {
+    if (replay.mode !== 'read-only') await saveResponseCache(options.aiReplay, replay);
+    console.error(`Replayed ${replay.hits} and recorded ${replay.recorded} AI responses (${options.aiReplay})`);
+  }
+
+  if (options.mdDir) {
+    const { written, skipped } = await writeMarkdownMirror(options.mdDir, finalPages);
+    console.error(`Wrote ${written.length} Markdown pages to ${options.mdDir}`);
+    if (skipped.length > 0) {
+      console.error(`Skipped ${skipped.length} pages whose URLs map to an existing file (differing only by query string).`);
+    }
+  }
 
-  if (opts.output) {
-    await writeFile(opts.output, llmTxt, 'utf-8');
-    console.error(`Written to ${opts.output}`);
+  // Only now that the outputs exist is it safe to forget the batch
+  if (collectedBatch && options.aiBatch) await removeBatchState(options.aiBatch);
+
+  let aiReport: RunReport['ai'];
+  if (ai) {
+    const model = getProviderModel(ai.provider, ai.options)!;
+    const listPrice = options.aiPricing ?? getModelPrice(model);
+    const price = listPrice && options.aiBatch ? batchPrice(listPrice) : listPrice;
+    console.error(formatUsage(aiUsage, model, price));
+    aiReport = {
+      provider: ai.provider,
+      model,
+      ...aiUsage,
+      costUsd: price ? costOf(aiUsage, price) : null,
+      failures: failures.length,
+    };
+  }
+  if (options.report) {
+    await writeRunReport(options.report, {
+      url: baseUrl,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      pages: finalPages.length,
+      outputs: {
+        llmTxt: options.output,
+        llmFullTxt: options.fullOutput,
+        mdDir: options.mdDir,
+        ...(languages ? { locales: localeOutputs } : {}),
+      },
+      duplicates,
+      excluded,
+      ai: aiReport,
+    });
+    console.error(`Run report written to ${options.report}`);
+  }
+}
+
+// Submits the pages without a cached description as one batch, or collects the batch an earlier run
+// submitted; undefined means the batch is still running
+async function runDescriptionBatch(
+  ai: AiSetup,
+  describeOptions: GenerateOptions,
+  pending: PageData[],
+  pages: PageData[],
+  options: RunOptions,
+): Promise<(Awaited<ReturnType<typeof collectDescriptionBatch>> & { state?: BatchState }) | undefined> {
+  const statePath = options.aiBatch!;
+  let state = await loadBatchState(statePath);
+  if (state && state.provider !== ai.provider) {
+    throw new Error(`${statePath} holds a ${state.provider} batch; run with --ai ${state.provider} or delete the file`);
+  }
+  if (!state) {
+    if (pending.length === 0) return { pages, failures: [], usage: emptyUsage() };
+    state = await submitDescriptionBatch(pending, ai.provider, ai.apiKey, describeOptions, statePath);
+    console.error(`Submitted ${pending.length} descriptions as ${ai.provider} batch ${state.batchId} (saved to ${statePath}).`);
   } else {
-    process.stdout.write(llmTxt);
+    console.error(`Checking ${ai.provider} batch ${state.batchId}, submitted ${state.submittedAt}...`);
   }
 
-  if (opts.fullOutput) {
-    const llmFullTxt = formatLlmFullTxt({ siteName, siteDescription, pages: finalPages });
-    await writeFile(opts.fullOutput, llmFullTxt, 'utf-8');
-    console.error(`Full content written to ${opts.fullOutput}`);
+  const progress = await pollDescriptionBatch(state, ai.apiKey, ai.options, options.aiBatchWait * 60_000);
+  if (!progress.ended) {
+    console.error(
+      `Batch ${state.batchId}: ${progress.done}/${progress.total} requests done. ` +
+        'Nothing was written; run the same command again later to collect the results.',
+    );
+    return undefined;
   }
+  console.error(`Collecting batch ${state.batchId}...`);
+  return { ...await collectDescriptionBatch(state, pages, ai.apiKey, describeOptions), state };
+}
+
+// SOURCE_DATE_EPOCH (seconds) pins the "Generated" date, so replayed runs are byte-identical on any day
+function sourceDate(): Date | undefined {
+  const epoch = process.env.SOURCE_DATE_EPOCH;
+  if (epoch === undefined || epoch === '') return undefined;
+  if (!/^\d+$/.test(epoch)) throw new Error(`SOURCE_DATE_EPOCH must be a number of seconds, got "${epoch}"`);
+  return new Date(Number(epoch) * 1000);
+}
+
+function siteNameFor(homePage: PageData | undefined, config: LlmConfig, baseUrl: string): string {
+  return config.siteName ?? homePage?.title ?? new URL(baseUrl).hostname;
+}
+
+function findHomePage(pages: PageData[]): PageData | undefined {
+  return pages.find(p => {
+    try { return new URL(p.url).pathname === '/'; } catch { return false; }
+  }) ?? pages[0];
+}
+
+// Tokens for the AI steps this run is configured for, priced for every provider with a known model
+async function estimateAi(
+  pages: PageData[],
+  options: RunOptions,
+  config: LlmConfig,
+  cache: PageCache | undefined,
+  siteName: string,
+): Promise<{ usage: AiUsage; rows: EstimateRow[] }> {
+  const describeOptions: GenerateOptions = {
+    style: await loadDescriptionStyle(options),
+    sectionStyles: sectionStylesOf(config),
+    sectionOf: sectionLookup(pages, config),
+  };
+  // Cached and replayed descriptions would be reused, so they cost nothing
+  let pending = cache ? uncachedPages(pages, cache, page => descriptionPrompt(page, describeOptions)) : pages;
+  const replayModel = options.ai && getProviderModel(options.ai as AiProvider, { model: options.aiModel });
+  if (options.aiReplay && replayModel && options.aiReplayMode !== 'refresh') {
+    const { responses } = await loadResponseCache(options.aiReplay);
+    pending = pending.filter(page => !responses[responseKey(options.ai!, replayModel, descriptionPrompt(page, describeOptions))]);
+  }
+  let usage = estimateDescriptionUsage(pending, describeOptions);
+  if (options.aiGroup || options.aiSummary) {
+    const plan = planSections({
+      siteName,
+      siteDescription: '',
+      pages,
+      sections: config.sections,
+      keyPages: config.keyPages,
+    });
+    const candidates = plan.sections.filter(s => s.origin === 'url').flatMap(s => s.pages);
+    usage = addUsage(usage, estimateOutlineUsage(siteName, options.aiGroup ? candidates : pages, plan.sections, {
+      group: options.aiGroup,
+      summary: options.aiSummary,
+    }));
+  }
+
+  const rows: EstimateRow[] = [];
+  for (const provider of AI_PROVIDERS) {
+    const selected = provider === options.ai;
+    const model = getProviderModel(provider, selected ? { model: options.aiModel } : {});
+    if (!model) continue;
+    const price = (selected ? options.aiPricing : undefined) ?? getModelPrice(model);
+    if (options.aiBatch && !BATCH_PROVIDERS.includes(provider)) continue;
+    rows.push({ provider, model, price: price && options.aiBatch ? batchPrice(price) : price });
+  }
+  return { usage, rows };
+}
+
+// Returns undefined, after a warning, when the provider's API key is missing
+async function resolveAi(options: RunOptions, config: LlmConfig): Promise<AiSetup | undefined> {
+  const provider = options.ai as AiProvider;
+  if (!AI_PROVIDERS.includes(provider)) {
+    console.error(`Error: unknown AI provider "${provider}". Choose from: ${AI_PROVIDERS.join(', ')}`);
+    process.exit(1);
+  }
+  if (provider === 'openai-compatible' && (!options.aiBaseUrl || !options.aiModel)) {
+    throw new Error('--ai openai-compatible needs --ai-base-url and --ai-model (or aiBaseUrl and aiModel in the config)');
+  }
+  const envVar = options.aiApiKeyEnv ?? getProviderEnvVar(provider);
+  const apiKey = process.env[envVar] ?? '';
+  // A read-only replay never reaches the provider, so CI can run it without a key
+  const readOnly = !!options.aiReplay && options.aiReplayMode === 'read-only';
+  if (!apiKey && requiresApiKey(provider) && !readOnly) {
+    if (options.aiStrict) throw new Error(`--ai ${provider} requires the ${envVar} env var`);
+    console.error(`Warning: --ai ${provider} requires ${envVar} env var. Skipping AI step.`);
+    return undefined;
+  }
+  return {
+    provider,
+    apiKey,
+    options: {
+      concurrency: options.aiConcurrency,
+      requestsPerMinute: options.aiRpm,
+      strict: options.aiStrict,
+      model: options.aiModel,
+      baseUrl: options.aiBaseUrl,
+      headers: Object.fromEntries(
+        Object.entries(options.aiHeaders).map(([name, value]) => [name, expandEnv(value, `aiHeaders.${name}`)]),
+      ),
+      onProgress: ok => process.stderr.write(ok ? '.' : 'x'),
+      style: await loadDescriptionStyle(options),
+      sectionStyles: sectionStylesOf(config),
+      replay: options.aiReplay
+        ? createReplay(await loadResponseCache(options.aiReplay), options.aiReplayMode)
+        : undefined,
+    },
+  };
+}
+
+function sectionStylesOf(config: LlmConfig): Record<string, DescriptionStyle> {
+  return Object.fromEntries(
+    (config.sections ?? [])
+      .filter(rule => rule.aiPrompt !== undefined || rule.aiTone !== undefined || rule.aiMaxWords !== undefined)
+      .map(rule => [rule.label, { template: rule.aiPrompt, tone: rule.aiTone, maxWords: rule.aiMaxWords }]),
+  );
+}
+
+async function loadDescriptionStyle(options: RunOptions): Promise<DescriptionStyle> {
+  if (!options.aiPromptFile) return options.aiStyle;
+  let template: string;
+  try {
+    template = await readFile(options.aiPromptFile, 'utf-8');
+  } catch (err) {
+    throw new Error(`Cannot read prompt template ${options.aiPromptFile}: ${(err as Error).message}`);
+  }
+  const unknown = unknownFields(template);
+  if (unknown.length > 0) {
+    throw new Error(
+      `${options.aiPromptFile}: unknown placeholder ${unknown.map(n => `{{${n}}}`).join(', ')} ` +
+        `(available: ${PROMPT_FIELDS.join(', ')})`,
+    );
+  }
+  return { ...options.aiStyle, template };
+}
+
+// The heading each page is expected under, for the {{section}} placeholder and per-section AI settings
+function sectionLookup(pages: PageData[], config: LlmConfig): (page: PageData) => string | undefined {
+  const plan = planSections({
+    siteName: '',
+    siteDescription: '',
+    pages,
+    sections: config.sections,
+    keyPages: config.keyPages,
+  });
+  const labels = new Map<string, string>();
+  for (const page of plan.keyPages) labels.set(page.url, 'Key Pages');
+  for (const section of plan.sections) {
+    for (const page of section.pages) labels.set(page.url, section.label);
+  }
+  // Pages under "## Optional" or past a section's maxEntries still belong to their rule
+  return page =>
+    labels.get(page.url) ??
+    config.sections?.find(rule => findMatchingPattern(page.url, rule.patterns) !== undefined)?.label;
+}
+
+// Topic groups, then the site summary and section intros; a failed step keeps what the crawl produced
+async function applyAiOutline(
+  ai: AiSetup,
+  base: LlmTxtOptions,
+  options: RunOptions,
+  writeSummary: boolean,
+): Promise<{ formatOptions: LlmTxtOptions; usage: AiUsage }> {
+  const client = createAiClient(ai.provider, ai.apiKey, ai.options);
+  const result = { ...base };
+  const failed = (step: string, err: unknown, fallback: string) => {
+    const reason = (err as Error).message;
+    if (options.aiStrict) throw new Error(`AI ${step} failed: ${reason}`);
+    console.error(`Warning: AI ${step} failed (${reason}); ${fallback}.`);
+  };
+
+  if (options.aiGroup) {
+    // Configured sections and key pages stay put; only the URL-derived sections are regrouped
+    const candidates = planSections(result).sections.filter(s => s.origin === 'url').flatMap(s => s.pages);
+    console.error(`Grouping ${candidates.length} pages by topic with ${ai.provider}...`);
+    try {
+      result.groups = await groupPages(client, candidates);
+    } catch (err) {
+      failed('grouping', err, 'kept the URL-based sections');
+    }
+  }
+
+  if (options.aiSummary) {
+    if (writeSummary) {
+      try {
+        result.siteDescription = await summarizeSite(client, result.siteName, result.pages);
+      } catch (err) {
+        failed('site summary', err, 'kept the homepage description');
+      }
+    }
+    const sections = planSections(result).sections.filter(s => !s.description);
+    console.error(`Writing intros for ${sections.length} sections with ${ai.provider}...`);
+    try {
+      const { intros, failures } = await writeSectionIntros(client, result.siteName, sections, ai.options);
+      result.sectionIntros = intros;
+      if (failures.length > 0) {
+        console.error(`Warning: ${failures.length} section intros failed (${summarizeFailures(failures)}).`);
+      }
+    } finally {
+      process.stderr.write('\n');
+    }
+  }
+  return { formatOptions: result, usage: { ...client.usage } };
+}
+
+function parseIntOption(value: string | undefined, flag: string, min: number): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    throw new Error(`${flag} must be an integer >= ${min}, got "${value}"`);
+  }
+  return n;
+}
+
+// CLI flags win over the config file, which wins over built-in defaults
+function resolveRunOptions(opts: CliOptions, config: LlmConfig): RunOptions {
+  if (opts.firecrawl && opts.browser) {
+    throw new Error('--firecrawl and --browser cannot be used together');
+  }
+  const render: RenderMode = opts.firecrawl ? 'firecrawl' : opts.browser ? 'browser' : config.render ?? 'fetch';
+  const mdDir = opts.mdDir ?? config.mdDir;
+  const mdLinks = opts.mdLinks ?? config.mdLinks ?? false;
+  if (mdLinks && !mdDir) {
+    throw new Error('--md-links needs --md-dir so the linked .md files exist');
+  }
+  if (config.aiPrompt !== undefined && config.aiPromptFile !== undefined) {
+    throw new Error('Set either aiPrompt or aiPromptFile in the config, not both');
+  }
+  const aiSummary = opts.aiSummary ?? config.aiSummary ?? false;
+  const aiGroup = opts.aiGroup ?? config.aiGroup ?? false;
+  if ((aiSummary || aiGroup) && !(opts.ai ?? config.ai)) {
+    throw new Error(`--${aiGroup ? 'ai-group' : 'ai-summary'} needs an AI provider (--ai)`);
+  }
+  const aiBatch = opts.aiBatch ?? config.aiBatch;
+  const aiProvider = opts.ai ?? config.ai;
+  if (aiBatch && aiProvider && !BATCH_PROVIDERS.includes(aiProvider as AiProvider)) {
+    throw new Error(`--ai-batch is not available for ${aiProvider} (supported: ${BATCH_PROVIDERS.join(', ')})`);
+  }
+  if (aiBatch && !aiProvider && !opts.aiEstimate) {
+    throw new Error('--ai-batch needs an AI provider (--ai)');
+  }
+  const splitLocales = opts.splitLocales ?? config.splitLocales ?? false;
+  if (splitLocales && !(opts.output ?? config.output)) {
+    throw new Error('--split-locales writes several files, so it needs --output');
+  }
+  const aiReplay = opts.aiReplay ?? config.aiReplay;
+  if (aiReplay && aiBatch) {
+    throw new Error('--ai-replay cannot be combined with --ai-batch');
+  }
+  const sitemap = opts.sitemap ?? config.sitemap;
+  const urlsFile = opts.urlsFile ?? config.urlsFile;
+  if (sitemap && urlsFile) {
+    throw new Error('--urls-file cannot be combined with --sitemap');
+  }
+
+  return {
+    sitemap,
+    urlsFile,
+    select: parseSelectStrategy(opts.select) ?? config.select ?? 'balanced',
+    output: opts.output ?? config.output,
+    fullOutput: opts.fullOutput ?? config.fullOutput,
+    limit: parseIntOption(opts.limit, '--limit', 1) ?? config.limit ?? 50,
+    concurrency: parseIntOption(opts.concurrency, '--concurrency', 1) ?? config.concurrency ?? 5,
+    render,
+    ai: opts.ai ?? config.ai,
+    maxDepth: parseIntOption(opts.maxDepth, '--max-depth', 0) ?? config.maxDepth,
+    scope: opts.scope ?? config.scope,
+    include: [...(config.include ?? []), ...(opts.include ?? [])],
+    exclude: [...(config.exclude ?? []), ...(opts.exclude ?? [])],
+    stripQuery: opts.stripQuery ?? config.stripQuery ?? false,
+    delay: parseIntOption(opts.delay, '--delay', 0) ?? config.delay ?? 0,
+    ignoreRobots: opts.ignoreRobots ?? config.ignoreRobots ?? false,
+    includeNoindex: opts.includeNoindex ?? config.includeNoindex ?? false,
+    followNofollow: opts.followNofollow ?? config.followNofollow ?? false,
+    cache: opts.cache ?? config.cache,
+    dryRun: opts.dryRun ?? false,
+    lang: parseLocales(opts.lang ?? config.lang ?? []),
+    splitLocales,
+    dedupe: opts.dedupe === false ? false : config.dedupe ?? true,
+    dedupeDistance: config.dedupeDistance,
+    spec: parseSpecMode(opts.spec) ?? config.spec ?? 'default',
+    budget: {
+      unit: parseBudgetUnit(opts.budgetUnit) ?? config.budgetUnit ?? 'chars',
+      perPage: parseSizeOption(opts.pageBudget, '--page-budget') ?? parseSizeOption(config.pageBudget, 'pageBudget'),
+      total: parseSizeOption(opts.totalBudget, '--total-budget') ?? parseSizeOption(config.totalBudget, 'totalBudget'),
+    },
+    mdDir,
+    mdLinks,
+    aiConcurrency: parseIntOption(opts.aiConcurrency, '--ai-concurrency', 1) ?? config.aiConcurrency ?? 4,
+    aiRpm: parseIntOption(opts.aiRpm, '--ai-rpm', 0) ?? config.aiRpm,
+    aiStrict: opts.aiStrict ?? config.aiStrict ?? false,
+    aiModel: opts.aiModel ?? config.aiModel,
+    aiBaseUrl: parseBaseUrl(
+      opts.aiBaseUrl ?? config.aiBaseUrl,
+      opts.aiBaseUrl !== undefined ? '--ai-base-url' : 'aiBaseUrl in the config',
+    ),
+    aiHeaders: config.aiHeaders ?? {},
+    aiApiKeyEnv: config.aiApiKeyEnv,
+    aiSummary,
+    aiGroup,
+    aiStyle: {
+      template: config.aiPrompt,
+      maxWords: parseIntOption(opts.aiMaxWords, '--ai-max-words', 1) ?? config.aiMaxWords,
+      tone: opts.aiTone ?? config.aiTone,
+      language: opts.aiLanguage ?? config.aiLanguage,
+      contentChars: parseIntOption(opts.aiContentChars, '--ai-content-chars', 1) ?? config.aiContentChars,
+    },
+    aiPromptFile: opts.aiPrompt ?? config.aiPromptFile,
+    aiPricing: config.aiPricing,
+    aiEstimate: opts.aiEstimate ?? false,
+    aiBatch,
+    aiReplay,
+    aiReplayMode: parseReplayMode(opts.aiReplayMode) ?? config.aiReplayMode ?? 'record',
+    aiBatchWait: parseIntOption(opts.aiBatchWait, '--ai-batch-wait', 0) ?? config.aiBatchWait ?? 0,
+    report: opts.report ?? config.report,
+  };
+}
+
+// `source` names where the value came from, for the error: the flag or the config key
+function parseBaseUrl(value: string | undefined, source: string): string | undefined {
+  if (value === undefined) return undefined;
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`${source} must be an absolute URL, got "${value}"`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${source} must be an http(s) URL, got "${value}"`);
+  }
+  return value;
+}
+
+// "${NAME}" in a config value is replaced with the env var, so secrets stay out of the config file
+function expandEnv(value: string, name: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, variable: string) => {
+    const resolved = process.env[variable];
+    if (resolved === undefined) throw new Error(`${name} references \${${variable}}, which is not set`);
+    return resolved;
+  });
+}
+
+function parseBudgetUnit(value: string | undefined): BudgetUnit | undefined {
+  if (value === undefined) return undefined;
+  if (value !== 'chars' && value !== 'tokens') {
+    throw new Error(`--budget-unit must be "chars" or "tokens", got "${value}"`);
+  }
+  return value;
+}
+
+function parseSizeOption(value: string | number | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  try {
+    return parseBudgetSize(String(value));
+  } catch (err) {
+    throw new Error(`${name}: ${(err as Error).message}`);
+  }
+}
+
+function parseSpecMode(value: string | undefined): SpecMode | undefined {
+  if (value === undefined) return undefined;
+  if (value !== 'default' && value !== 'strict') {
+    throw new Error(`--spec must be "default" or "strict", got "${value}"`);
+  }
+  return value;
+}
+
+// Accepts "de,fr" as well as separate arguments
+function parseLocales(values: string[]): string[] {
+  return values.flatMap(value => value.split(',')).filter(value => value.trim()).map(value => {
+    const locale = normalizeLocale(value);
+    if (!locale || locale === 'x-default') throw new Error(`--lang: "${value.trim()}" is not a language tag`);
+    return locale;
+  });
+}
+
+function parseSelectStrategy(value: string | undefined): SelectStrategy | undefined {
+  if (value === undefined) return undefined;
+  if (!(SELECT_STRATEGIES as readonly string[]).includes(value)) {
+    throw new Error(`--select must be one of ${SELECT_STRATEGIES.join(', ')}, got "${value}"`);
+  }
+  return value as SelectStrategy;
+}
+
+function parseReplayMode(value: string | undefined): ReplayMode | undefined {
+  if (value === undefined) return undefined;
+  if (!(REPLAY_MODES as readonly string[]).includes(value)) {
+    throw new Error(`--ai-replay-mode must be one of ${REPLAY_MODES.join(', ')}, got "${value}"`);
+  }
+  return value as ReplayMode;
+}
+
+// Returns true when the file has errors
+async function lint(source: string, opts: { skipLinks?: boolean; concurrency: string }): Promise<boolean> {
+  const text = await readLlmsTxt(source);
+  const parsed = parseLlmsTxt(text);
+  const issues = [...parsed.issues];
+
+  if (!opts.skipLinks) {
+    const base = /^https?:\/\//i.test(source) ? source : undefined;
+    const entryCount = parsed.sections.reduce((n, s) => n + s.entries.length, 0);
+    console.error(`Checking ${entryCount} links...`);
+    issues.push(...await checkLinks(parsed, base, parseIntOption(opts.concurrency, '--concurrency', 1)));
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+  if (issues.length > 0) process.stdout.write(formatIssues(source, issues) + '\n');
+  console.error(`${errors} error(s), ${warnings} warning(s)`);
+  return errors > 0;
 }
 
 async function discoverUrls(
   baseUrl: string,
-  sitemapOpt: string | undefined,
+  source: { sitemap?: string; urlsFile?: string; select: SelectStrategy },
+  config: LlmConfig,
   limit: number,
-  excluded: Set<string>,
-): Promise<string[]> {
-  let sitemapEntries;
-  if (sitemapOpt) {
-    console.error(`Using sitemap: ${sitemapOpt}`);
-    sitemapEntries = await fetchSitemap(sitemapOpt, limit);
+  rules: UrlRules,
+  crawlOptions: CrawlOptions,
+  dropped: DroppedUrl[],
+  langs: string[] = [],
+): Promise<SitemapEntry[]> {
+  const { robots } = crawlOptions;
+  // Read past --limit so there is something to choose from
+  const candidates = candidateLimit(limit, source.select);
+  const sitemapOptions: SitemapFetchOptions = {
+    concurrency: crawlOptions.concurrency,
+    onError: (u, err) => console.error(`Warning: skipping sitemap ${u}: ${err.message}`),
+    onInvalid: (u, value) => console.error(`Warning: skipping "${value}" in sitemap ${u}: not an http(s) URL`),
+    share: source.select !== 'priority',
+  };
+  let sitemapEntries: SitemapEntry[];
+  if (source.urlsFile) {
+    console.error(`Using URLs from ${source.urlsFile}`);
+    // Relative paths in the file resolve against the site
+    sitemapEntries = parseUrlList(await readFile(path.resolve(source.urlsFile), 'utf-8'), baseUrl);
+  } else if (source.sitemap) {
+    console.error(`Using sitemap: ${source.sitemap}`);
+    sitemapEntries = await fetchSitemap(source.sitemap, candidates, sitemapOptions);
   } else {
     console.error('Discovering sitemap...');
-    const sitemapUrl = await discoverSitemapUrl(baseUrl);
-    if (sitemapUrl) {
-      console.error(`Found sitemap: ${sitemapUrl}`);
-      sitemapEntries = await fetchSitemap(sitemapUrl, limit);
-    } else {
-      console.error('No sitemap found, crawling site...');
-      sitemapEntries = await crawlSite(baseUrl, limit);
+    const sitemapUrls = await discoverSitemapUrls(baseUrl);
+    sitemapEntries = [];
+    if (sitemapUrls.length === 1) {
+      console.error(`Found sitemap: ${sitemapUrls[0]}`);
+    } else if (sitemapUrls.length > 1) {
+      console.error(`Found ${sitemapUrls.length} sitemaps:`);
+      for (const u of sitemapUrls) console.error(`  - ${u}`);
+    }
+    if (sitemapUrls.length > 0) {
+      sitemapEntries = await fetchSitemaps(sitemapUrls, candidates, sitemapOptions);
     }
+    if (sitemapEntries.length === 0) {
+      console.error(sitemapUrls.length > 0 ? 'Sitemaps listed no pages, crawling site...' : 'No sitemap found, crawling site...');
+      sitemapEntries = await crawlSite(baseUrl, limit, crawlOptions);
+    }
+  }
+  let disallowed = 0;
+  const kept = sitemapEntries.filter(e => {
+    const reason = checkUrl(e.url, rules)
+      ?? (robots && !robots.allows(e.url) ? 'robots.txt' : null)
+      // Only entries the sitemap gives a language for; the rest are checked once fetched
+      ?? (e.lang && !matchesLocale(e.lang, langs) ? `--lang (${e.lang})` : null);
+    if (reason === 'robots.txt') disallowed++;
+    if (reason) dropped.push({ url: e.url, reason });
+    return !reason;
+  });
+  if (disallowed > 0) {
+    console.error(`Skipping ${disallowed} URLs disallowed by robots.txt.`);
   }
-  return sitemapEntries.filter(e => !excluded.has(e.url)).slice(0, limit).map(e => e.url);
+  const selection = selectEntries(kept, limit, {
+    strategy: source.select,
+    sections: config.sections,
+    keyPages: config.keyPages,
+  });
+  if (selection.skipped.length > 0) {
+    const counts = selection.sections
+      .filter(s => s.selected > 0)
+      .map(s => `${s.label} ${s.selected}/${s.available}`)
+      .join(', ');
+    console.error(`Selected ${selection.selected.length} of ${kept.length} URLs (--select ${source.select}): ${counts}`);
+  }
+  for (const e of selection.skipped) dropped.push({ url: e.url, reason: `over --limit ${limit}` });
+  return selection.selected;
+}
+
+// Sitemap fields win over the page's own: hreflang in the sitemap is usually more reliable than <html lang>
+function withEntry(page: PageData, entry: SitemapEntry): PageData {
+  const data: PageData = { ...page, priority: entry.priority, lastmod: entry.lastmod };
+  if (entry.lang) data.lang = entry.lang;
+  if (entry.alternates) data.alternates = { ...page.alternates, ...entry.alternates };
+  return data;
+}
+
+function printDryRun(kept: string[], dropped: DroppedUrl[]): void {
+  const lines = [
+    `Kept ${kept.length} URLs:`,
+    ...kept.map(u => `  + ${u}`),
+    '',
+    `Dropped ${dropped.length} URLs:`,
+    ...dropped.map(d => `  - ${d.url}  (${d.reason})`),
+    '',
+  ];
+  process.stdout.write(lines.join('\n'));
+}
+
+// Fetch and extract one page, skipping the request or the extraction when the cache proves it unchanged
+async function loadPage(
+  entry: SitemapEntry,
+  robots: RobotsGate | undefined,
+  cache: PageCache | undefined,
+  extract: ExtractOptions,
+): Promise<{ page: PageData; fromCache: boolean }> {
+  if (!cache) {
+    const fetched = await fetchPageWithHeaders(entry.url, robots);
+    return { page: withRobotsHeader(extractPageData(entry.url, fetched.html, extract), fetched.robotsTag), fromCache: false };
+  }
+
+  const cached = cache.pages[entry.url];
+  if (cached && isFreshByLastmod(cached, entry.lastmod)) {
+    return { page: reusePage(cache, entry.url), fromCache: true };
+  }
+
+  const fetched = await fetchPageIfChanged(entry.url, cached ?? {}, robots);
+  if (!fetched) {
+    // 304 Not Modified is only possible when validators came from a cached entry
+    cached!.lastmod = entry.lastmod;
+    return { page: reusePage(cache, entry.url), fromCache: true };
+  }
+
+  const page = withRobotsHeader(extractPageData(entry.url, fetched.html, extract), fetched.robotsTag);
+  recordPage(cache, { ...page }, { etag: fetched.etag, lastModified: fetched.lastModified, lastmod: entry.lastmod });
+  return { page, fromCache: false };
 }
 
 async function processInBatches<T, R>(
@@ -1,17 +1,393 @@
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import * as cheerio from 'cheerio';
+import { AI_PROVIDERS } from './ai.js';
+import type { AiProvider } from './ai.js';
+import { validateUrlPatterns } from './patterns.js';
+import type { SectionRule, SpecMode } from './formatter.js';
+import { parseBudgetSize } from './budget.js';
+import type { BudgetUnit } from './budget.js';
+import { PROMPT_FIELDS, unknownFields } from './prompt.js';
+import { REPLAY_MODES } from './replay.js';
+import { SELECT_STRATEGIES } from './select.js';
+import type { SelectStrategy } from './select.js';
+import { normalizeLocale } from './locale.js';
+import type { ReplayMode } from './replay.js';
+
+export type RenderMode = 'fetch' | 'browser' | 'firecrawl';
+
+// A section can also set how the AI describes its pages
+export interface SectionConfig extends SectionRule {
+  aiPrompt?: string;
+  aiTone?: string;
+  aiMaxWords?: number;
+  // URLs reserved for this section when --limit is less than the sitemap holds, and the most it gets
+  quota?: number;
+}
 
 export interface LlmConfig {
   siteName?: string;
   siteDescription?: string;
+  // Prose paragraph placed between the summary blockquote and the first section
+  details?: string;
+  // URL patterns: globs on the pathname ("/blog/tag/*"), globs on the full URL, or "re:<regex>"
+  include?: string[];
   exclude?: string[];
   overrides?: Record<string, { title?: string; description?: string }>;
+  sections?: SectionConfig[];
+  keyPages?: string[];
+  // CSS selectors: the element holding the page content, and elements to strip before extraction
+  contentSelector?: string;
+  removeSelectors?: string[];
+
+  // Run options, named like their CLI flags; flags given on the command line win
+  sitemap?: string;
+  // Path of a file listing the URLs to process, one per line
+  urlsFile?: string;
+  select?: SelectStrategy;
+  output?: string;
+  fullOutput?: string;
+  limit?: number;
+  concurrency?: number;
+  render?: RenderMode;
+  ai?: AiProvider;
+  maxDepth?: number;
+  scope?: string;
+  stripQuery?: boolean;
+  // Only keep pages in these languages; with splitLocales, write one llm.txt per language
+  lang?: string[];
+  splitLocales?: boolean;
+  // Merge duplicate pages (default true); dedupeDistance is the SimHash bit tolerance (default 3)
+  dedupe?: boolean;
+  dedupeDistance?: number;
+  delay?: number;
+  ignoreRobots?: boolean;
+  // Keep pages marked noindex or noai (meta robots or X-Robots-Tag), and follow nofollow links
+  includeNoindex?: boolean;
+  followNofollow?: boolean;
+  cache?: string;
+  spec?: SpecMode;
+  // llm-full.txt size limits: a number or a string like "100k", in budgetUnit
+  pageBudget?: number | string;
+  totalBudget?: number | string;
+  budgetUnit?: BudgetUnit;
+  mdDir?: string;
+  mdLinks?: boolean;
+  aiConcurrency?: number;
+  aiRpm?: number;
+  aiStrict?: boolean;
+  aiModel?: string;
+  aiBaseUrl?: string;
+  // Extra headers for AI requests; "${NAME}" in a value is read from the environment
+  aiHeaders?: Record<string, string>;
+  // Env var holding the API key, instead of the provider's default (e.g. OPENAI_API_KEY)
+  aiApiKeyEnv?: string;
+  aiSummary?: boolean;
+  aiGroup?: boolean;
+  // AI description prompt: an inline template or a file holding one, with {{field}} placeholders
+  aiPrompt?: string;
+  aiPromptFile?: string;
+  aiMaxWords?: number;
+  aiTone?: string;
+  aiLanguage?: string;
+  aiContentChars?: number;
+  // USD per million tokens, for models without a built-in price
+  aiPricing?: { input: number; output: number };
+  // State file for --ai-batch, and minutes to wait for the batch before leaving it for a later run
+  aiBatch?: string;
+  aiBatchWait?: number;
+  // File of recorded AI responses and how to use it: read-only, record or refresh
+  aiReplay?: string;
+  aiReplayMode?: ReplayMode;
+  // Write a JSON summary of the run (pages, outputs, AI usage and cost) to this path
+  report?: string;
+}
+
+export const CONFIG_FILES = [
+  'llm.config.json',
+  'llm.config.yaml',
+  'llm.config.yml',
+  'llm.config.mjs',
+  'llm.config.js',
+  'llm.config.cjs',
+];
+
+// Options holding file paths; relative ones are taken from the config file's directory, not the working directory
+const PATH_KEYS = [
+  'urlsFile', 'output', 'fullOutput', 'cache', 'mdDir', 'aiPromptFile', 'aiBatch', 'aiReplay', 'report',
+] as const satisfies ReadonlyArray<keyof LlmConfig>;
+
+// Without an explicit path, the first config file found in the working directory is used, or none;
+// an explicit path that doesn't exist is an error, so a typo doesn't quietly run with the defaults
+export async function loadConfig(configPath?: string): Promise<LlmConfig> {
+  const full = configPath
+    ? path.resolve(configPath)
+    : CONFIG_FILES.map(f => path.resolve(f)).find(f => existsSync(f));
+  if (!full) return {};
+  if (!existsSync(full)) throw new Error(`Config file not found: ${configPath}`);
+  const raw = await readConfigFile(full);
+  const config = validateConfig(raw, path.basename(full));
+  for (const key of PATH_KEYS) {
+    const value = config[key];
+    if (value !== undefined) config[key] = path.resolve(path.dirname(full), value);
+  }
+  return config;
+}
+
+async function readConfigFile(full: string): Promise<unknown> {
+  const ext = path.extname(full).toLowerCase();
+  const name = path.basename(full);
+
+  if (ext === '.js' || ext === '.mjs' || ext === '.cjs') {
+    const mod = await import(pathToFileURL(full).href) as { default?: unknown };
+    return mod.default ?? mod;
+  }
+
+  const text = await readFile(full, 'utf-8');
+  if (ext === '.yaml' || ext === '.yml') {
+    try {
+      return parseYaml(text) ?? {};
+    } catch (err) {
+      throw new Error(`Invalid YAML in ${name}: ${(err as Error).message}`);
+    }
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${name}: ${(err as Error).message}`);
+  }
+}
+
+// --- Schema -----------------------------------------------------------------
+
+type Validator = (value: unknown, at: string) => string[];
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+const isString: Validator = (v, at) =>
+  typeof v === 'string' ? [] : [`${at}: expected a string, got ${describeValue(v)}`];
+
+const isBoolean: Validator = (v, at) =>
+  typeof v === 'boolean' ? [] : [`${at}: expected true or false, got ${describeValue(v)}`];
+
+function integer(min: number): Validator {
+  return (v, at) =>
+    Number.isInteger(v) && (v as number) >= min
+      ? []
+      : [`${at}: expected an integer >= ${min}, got ${describeValue(v)}`];
+}
+
+const nonNegative: Validator = (v, at) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= 0
+    ? []
+    : [`${at}: expected a number >= 0, got ${describeValue(v)}`];
+
+function oneOf(values: readonly string[]): Validator {
+  return (v, at) =>
+    typeof v === 'string' && values.includes(v)
+      ? []
+      : [`${at}: expected one of ${values.map(x => `"${x}"`).join(', ')}, got ${describeValue(v)}`];
+}
+
+function arrayOf(item: Validator): Validator {
+  return (v, at) => {
+    if (!Array.isArray(v)) return [`${at}: expected an array, got ${describeValue(v)}`];
+    return v.flatMap((x, i) => item(x, `${at}[${i}]`));
+  };
+}
+
+const urlPatterns: Validator = (v, at) => {
+  const errors = arrayOf(isString)(v, at);
+  if (errors.length > 0) return errors;
+  return validateUrlPatterns(v as string[]).map(msg => `${at}: ${msg}`);
+};
+
+const cssSelector: Validator = (v, at) => {
+  const errors = isString(v, at);
+  if (errors.length > 0) return errors;
+  try {
+    cheerio.load('')(v as string);
+    return [];
+  } catch (err) {
+    return [`${at}: invalid CSS selector "${v}": ${(err as Error).message}`];
+  }
+};
+
+const promptTemplate: Validator = (v, at) => {
+  const errors = isString(v, at);
+  if (errors.length > 0) return errors;
+  return unknownFields(v as string).map(name =>
+    `${at}: unknown placeholder {{${name}}} (available: ${PROMPT_FIELDS.join(', ')})`);
+};
+
+const localeTag: Validator = (v, at) => {
+  const errors = isString(v, at);
+  if (errors.length > 0) return errors;
+  const locale = normalizeLocale(v as string);
+  return locale && locale !== 'x-default' ? [] : [`${at}: expected a language tag like "de" or "pt-BR", got "${v}"`];
+};
+
+const budgetSize: Validator = (v, at) => {
+  if (typeof v !== 'number' && typeof v !== 'string') {
+    return [`${at}: expected a number or a size like "100k", got ${describeValue(v)}`];
+  }
+  try {
+    parseBudgetSize(String(v));
+    return [];
+  } catch (err) {
+    return [`${at}: ${(err as Error).message}`];
+  }
+};
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
 }
 
-export async function loadConfig(configPath = 'llm.config.json'): Promise<LlmConfig> {
-  const full = path.resolve(configPath);
-  if (!existsSync(full)) return {};
-  const raw = await readFile(full, 'utf-8');
-  return JSON.parse(raw) as LlmConfig;
+function suggest(key: string, known: string[]): string {
+  const best = known
+    .map(k => ({ k, d: editDistance(key.toLowerCase(), k.toLowerCase()) }))
+    .sort((a, b) => a.d - b.d)[0];
+  return best && best.d <= 2 ? ` (did you mean "${best.k}"?)` : '';
+}
+
+function join(at: string, key: string): string {
+  const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `[${JSON.stringify(key)}]`;
+  if (!at) return segment;
+  return segment.startsWith('[') ? `${at}${segment}` : `${at}.${segment}`;
+}
+
+function objectOf(shape: Record<string, Validator>): Validator {
+  const known = Object.keys(shape);
+  return (v, at) => {
+    if (!isPlainObject(v)) return [`${at || 'config'}: expected an object, got ${describeValue(v)}`];
+    const errors: string[] = [];
+    for (const [key, value] of Object.entries(v)) {
+      const field = join(at, key);
+      const check = shape[key];
+      if (!check) {
+        errors.push(`${field}: unknown option${suggest(key, known)}`);
+      } else if (value !== undefined) {
+        errors.push(...check(value, field));
+      }
+    }
+    return errors;
+  };
+}
+
+function required(keys: string[], inner: Validator): Validator {
+  return (v, at) => {
+    const missing = isPlainObject(v) ? keys.filter(k => v[k] === undefined) : [];
+    return [...missing.map(k => `${join(at, k)}: required`), ...inner(v, at)];
+  };
+}
+
+function recordOf(item: Validator): Validator {
+  return (v, at) => {
+    if (!isPlainObject(v)) return [`${at}: expected an object, got ${describeValue(v)}`];
+    return Object.entries(v).flatMap(([key, value]) => item(value, join(at, key)));
+  };
+}
+
+const CONFIG_SCHEMA = objectOf({
+  siteName: isString,
+  siteDescription: isString,
+  details: isString,
+  include: urlPatterns,
+  exclude: urlPatterns,
+  overrides: recordOf(objectOf({ title: isString, description: isString })),
+  sections: arrayOf(required(['label', 'patterns'], objectOf({
+    label: isString,
+    patterns: urlPatterns,
+    description: isString,
+    sort: oneOf(['none', 'title', 'url']),
+    maxEntries: integer(1),
+    optional: isBoolean,
+    aiPrompt: promptTemplate,
+    aiTone: isString,
+    aiMaxWords: integer(1),
+    quota: integer(0),
+  }))),
+  keyPages: urlPatterns,
+  contentSelector: cssSelector,
+  removeSelectors: arrayOf(cssSelector),
+  sitemap: isString,
+  urlsFile: isString,
+  select: oneOf(SELECT_STRATEGIES),
+  output: isString,
+  fullOutput: isString,
+  limit: integer(1),
+  concurrency: integer(1),
+  render: oneOf(['fetch', 'browser', 'firecrawl']),
+  ai: oneOf(AI_PROVIDERS),
+  maxDepth: integer(0),
+  scope: isString,
+  stripQuery: isBoolean,
+  lang: arrayOf(localeTag),
+  splitLocales: isBoolean,
+  dedupe: isBoolean,
+  dedupeDistance: integer(0),
+  delay: integer(0),
+  ignoreRobots: isBoolean,
+  includeNoindex: isBoolean,
+  followNofollow: isBoolean,
+  cache: isString,
+  spec: oneOf(['default', 'strict']),
+  pageBudget: budgetSize,
+  totalBudget: budgetSize,
+  budgetUnit: oneOf(['chars', 'tokens']),
+  mdDir: isString,
+  mdLinks: isBoolean,
+  aiConcurrency: integer(1),
+  aiRpm: integer(0),
+  aiStrict: isBoolean,
+  aiModel: isString,
+  aiBaseUrl: isString,
+  aiHeaders: recordOf(isString),
+  aiApiKeyEnv: isString,
+  aiSummary: isBoolean,
+  aiGroup: isBoolean,
+  aiPrompt: promptTemplate,
+  aiPromptFile: isString,
+  aiMaxWords: integer(1),
+  aiTone: isString,
+  aiLanguage: isString,
+  aiContentChars: integer(1),
+  aiPricing: required(['input', 'output'], objectOf({ input: nonNegative, output: nonNegative })),
+  aiBatch: isString,
+  aiBatchWait: integer(0),
+  aiReplay: isString,
+  aiReplayMode: oneOf(REPLAY_MODES),
+  report: isString,
+});
+
+export function validateConfig(raw: unknown, source = 'config'): LlmConfig {
+  const errors = CONFIG_SCHEMA(raw, '');
+  if (errors.length > 0) {
+    throw new Error(`Invalid config in ${source}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return raw as LlmConfig;
 }
@@ -1,56 +1,244 @@
 import * as cheerio from 'cheerio';
 import type { SitemapEntry } from './sitemap.js';
+import type { RobotsGate } from './robots.js';
+import { checkUrl } from './patterns.js';
+import { isNofollow, noindexDirective, robotsDirectives } from './robots.js';
+import { readMetaRobots } from './extractor.js';
 
 const SKIP_EXTENSIONS = /\.(pdf|jpg|jpeg|png|gif|svg|webp|css|js|ico|xml|json|zip|tar|gz|woff|woff2|ttf)(\?|$)/i;
 
-export async function fetchPage(url: string): Promise<string> {
-  const res = await fetch(url, {
+export interface PageValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FetchedPage extends PageValidators {
+  html: string;
+  // The X-Robots-Tag response header, as sent
+  robotsTag?: string;
+  // Where the page ended up when the server redirected; relative links resolve against this
+  url?: string;
+}
+
+async function requestPage(
+  url: string,
+  extraHeaders: Record<string, string>,
+  robots?: RobotsGate,
+): Promise<Response> {
+  if (robots) {
+    if (!robots.allows(url)) throw new Error(`Disallowed by robots.txt: ${url}`);
+    await robots.wait();
+  }
+  return fetch(url, {
     signal: AbortSignal.timeout(10000),
     headers: {
       'User-Agent': 'llm-txt-gen/0.1 (+https://github.com/remete618/llm-txt-gen)',
       'Accept': 'text/html,application/xhtml+xml',
+      ...extraHeaders,
     },
   });
+}
+
+export async function fetchPage(url: string, robots?: RobotsGate): Promise<string> {
+  return (await fetchPageWithHeaders(url, robots)).html;
+}
+
+// fetchPage, keeping the response headers that matter to later steps
+export async function fetchPageWithHeaders(url: string, robots?: RobotsGate): Promise<FetchedPage> {
+  const res = await requestPage(url, {}, robots);
   if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
-  return res.text();
+  return readPage(res, url);
 }
 
-export async function crawlSite(baseUrl: string, limit = 50): Promise<SitemapEntry[]> {
+async function readPage(res: Response, url: string): Promise<FetchedPage> {
+  return {
+    html: await res.text(),
+    etag: res.headers.get('etag') ?? undefined,
+    lastModified: res.headers.get('last-modified') ?? undefined,
+    robotsTag: res.headers.get('x-robots-tag') ?? undefined,
+    ...(res.url && res.url !== url ? { url: res.url } : {}),
+  };
+}
+
+// Conditional GET: resolves to null when the server answers 304 Not Modified
+export async function fetchPageIfChanged(
+  url: string,
+  validators: PageValidators,
+  robots?: RobotsGate,
+): Promise<FetchedPage | null> {
+  const headers: Record<string, string> = {};
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const res = await requestPage(url, headers, robots);
+  if (res.status === 304) return null;
+  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+  return readPage(res, url);
+}
+
+export interface CrawlOptions {
+  concurrency?: number;
+  maxDepth?: number;
+  // Only crawl URLs whose path starts with this prefix, e.g. "/docs/"
+  scope?: string;
+  // URL patterns, see matchesPattern
+  include?: string[];
+  exclude?: string[];
+  // Drop the whole query string instead of only tracking parameters
+  stripQuery?: boolean;
+  // Minimum gap between two requests to the same host
+  delayMs?: number;
+  robots?: RobotsGate;
+  // Keep pages marked noindex (meta robots or X-Robots-Tag), and follow nofollow links and pages
+  includeNoindex?: boolean;
+  followNofollow?: boolean;
+  // Called for in-scope links dropped by include/exclude rules or robots.txt, and for noindex pages
+  onSkip?: (url: string, reason: string) => void;
+}
+
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|msclkid|mc_cid|mc_eid|ref|_ga)$/i;
+
+// The URL to fetch: no fragment, no tracking params, sorted query. The trailing slash is kept, since
+// "/guide/" and "/guide" resolve relative links differently.
+export function cleanUrl(url: string, stripQuery = false): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  if (stripQuery) {
+    parsed.search = '';
+  } else {
+    const params = [...parsed.searchParams].filter(([key]) => !TRACKING_PARAMS.test(key));
+    params.sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+  }
+  const path = parsed.pathname === '/' ? '' : parsed.pathname;
+  return `${parsed.origin}${path}${parsed.search}`;
+}
+
+// Collapse equivalent spellings of a URL, for telling pages apart: cleanUrl without the trailing slash
+export function normalizeUrl(url: string, stripQuery = false): string {
+  const parsed = new URL(cleanUrl(url, stripQuery));
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+}
+
+function createHostThrottle(delayMs: number): (url: string) => Promise<void> {
+  const nextSlot = new Map<string, number>();
+  return async (url) => {
+    if (delayMs <= 0) return;
+    const host = new URL(url).host;
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot.get(host) ?? 0);
+    nextSlot.set(host, slot + delayMs);
+    if (slot > now) await new Promise(r => setTimeout(r, slot - now));
+  };
+}
+
+export async function crawlSite(
+  baseUrl: string,
+  limit = 50,
+  options: CrawlOptions = {},
+): Promise<SitemapEntry[]> {
+  const {
+    concurrency = 5, maxDepth, include, exclude, stripQuery = false, robots, includeNoindex, followNofollow, onSkip,
+  } = options;
   const origin = new URL(baseUrl).origin;
-  const visited = new Set<string>();
-  const queue: string[] = [baseUrl.replace(/\/$/, '') || origin];
-  const entries: SitemapEntry[] = [];
+  const scope = options.scope ? `/${options.scope.replace(/^\/+|\/+$/g, '')}/` : undefined;
+  const withinScope = (path: string) => !scope || (path.endsWith('/') ? path : path + '/').startsWith(scope);
+  const throttle = createHostThrottle(options.delayMs ?? 0);
+
+  let start = cleanUrl(baseUrl, stripQuery);
+  if (scope && !withinScope(new URL(start).pathname)) {
+    start = cleanUrl(new URL(scope, origin).href, stripQuery);
+  }
 
-  while (queue.length > 0 && entries.length < limit) {
-    const url = queue.shift()!;
-    const normalized = url.split('#')[0];
-    if (visited.has(normalized)) continue;
-    visited.add(normalized);
+  const inScope = (url: URL): boolean => {
+    const path = url.pathname;
+    if (url.origin !== origin || SKIP_EXTENSIONS.test(path)) return false;
+    return withinScope(path);
+  };
 
+  const queue: Array<{ url: string; depth: number; order: number }> = [{ url: start, depth: 0, order: 0 }];
+  // Keyed by normalizeUrl, so "/guide" and "/guide/" are one page
+  const seen = new Set<string>([normalizeUrl(start, stripQuery)]);
+  const found: Array<SitemapEntry & { order: number }> = [];
+  let active = 0;
+  let waiters: Array<() => void> = [];
+
+  const wake = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach(resolve => resolve());
+  };
+  const idle = () => new Promise<void>(resolve => waiters.push(resolve));
+
+  const visit = async ({ url, depth, order }: { url: string; depth: number; order: number }) => {
+    await throttle(url);
+    const page = await fetchPageWithHeaders(url, robots);
+    if (page.url) seen.add(normalizeUrl(page.url, stripQuery));
+    const $ = cheerio.load(page.html);
+    const directives = [...readMetaRobots($), ...robotsDirectives(page.robotsTag)];
+    // A noindex page is left out, but its links are still followed unless it also says nofollow
+    const noindex = includeNoindex ? undefined : noindexDirective(directives);
+    if (noindex) {
+      onSkip?.(url, noindex);
+    } else {
+      const isHome = new URL(url).pathname === '/';
+      found.push({ url, priority: isHome ? 1.0 : 0.5, order });
+    }
+
+    if (maxDepth !== undefined && depth >= maxDepth) return;
+    if (!followNofollow && isNofollow(directives)) return;
+
+    let base = new URL(page.url ?? url);
     try {
-      const html = await fetchPage(normalized);
-      const isHome = new URL(normalized).pathname === '/' || normalized === origin;
-      entries.push({ url: normalized, priority: isHome ? 1.0 : 0.5 });
-
-      const $ = cheerio.load(html);
-      $('a[href]').each((_, el) => {
-        const href = $(el).attr('href');
-        if (!href) return;
-        try {
-          const abs = new URL(href, normalized);
-          const clean = abs.href.split('#')[0];
-          if (
-            abs.origin === origin &&
-            !visited.has(clean) &&
-            !queue.includes(clean) &&
-            !SKIP_EXTENSIONS.test(abs.pathname)
-          ) {
-            queue.push(clean);
-          }
-        } catch { /* invalid URL */ }
-      });
-    } catch { /* skip failed pages */ }
-  }
+      base = new URL($('base[href]').attr('href') ?? '', base);
+    } catch { /* invalid <base href>: links resolve against the page */ }
+
+    $('a[href]').each((_, el) => {
+      const href = $(el).attr('href');
+      if (!href) return;
+      // Not marked as seen: another page may link to the same URL without rel="nofollow"
+      if (!followNofollow && /(^|\s)nofollow(\s|$)/i.test($(el).attr('rel') ?? '')) return;
+      try {
+        const abs = new URL(href, base);
+        if (!inScope(abs)) return;
+        const key = normalizeUrl(abs.href, stripQuery);
+        if (seen.has(key)) return;
+        seen.add(key);
+        const clean = cleanUrl(abs.href, stripQuery);
+        const dropped = checkUrl(clean, { include, exclude })
+          ?? (robots && !robots.allows(clean) ? 'robots.txt' : null);
+        if (dropped) {
+          onSkip?.(clean, dropped);
+          return;
+        }
+        queue.push({ url: clean, depth: depth + 1, order: seen.size });
+      } catch { /* invalid URL */ }
+    });
+  };
+
+  const worker = async () => {
+    while (found.length < limit) {
+      // Don't start more fetches than could still fit under the limit
+      if (queue.length === 0 || found.length + active >= limit) {
+        if (active === 0) return;
+        await idle();
+        continue;
+      }
+      const next = queue.shift()!;
+      active++;
+      try {
+        await visit(next);
+      } catch { /* skip failed pages */ } finally {
+        active--;
+        wake();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
 
-  return entries;
+  return found
+    .sort((a, b) => a.order - b.order)
+    .slice(0, limit)
+    .map(({ order: _order, ...entry }) => entry);
 }
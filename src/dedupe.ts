@@ -0,0 +1,160 @@
+import type { PageData } from './extractor.js';
+import { normalizeUrl } from './crawler.js';
+
+export type DuplicateReason = 'same URL' | 'canonical' | 'near-duplicate';
+
+export interface MergedPage {
+  url: string;
+  // The page kept in its place
+  into: string;
+  reason: DuplicateReason;
+}
+
+export interface DedupeOptions {
+  // Most SimHash bits two pages may differ in and still count as the same content (default 3, 0 = exact)
+  maxDistance?: number;
+}
+
+const DEFAULT_MAX_DISTANCE = 3;
+// SimHash needs some text to be stable; shorter pages are only merged by URL
+const MIN_WORDS = 30;
+const SHINGLE = 3;
+const INDEX_FILE = /\/index\.(html?|php|aspx?)$/i;
+
+// One spelling per page: https, no index.html, plus what normalizeUrl already collapses
+export function urlKey(url: string): string {
+  const parsed = new URL(normalizeUrl(url));
+  if (parsed.protocol === 'http:') parsed.protocol = 'https:';
+  parsed.pathname = parsed.pathname.replace(INDEX_FILE, '') || '/';
+  return normalizeUrl(parsed.href);
+}
+
+// FNV-1a with a seed, for the two 32-bit halves of a 64-bit fingerprint
+function fnv1a(text: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// 64-bit SimHash over three-word shingles, as [high, low] halves; undefined for pages too short to compare
+export function simhash(text: string): [number, number] | undefined {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length < MIN_WORDS) return undefined;
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE).join(' ');
+    const halves = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x050c5d1f)];
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5] >>> (bit & 31)) & 1;
+      weights[bit] += set ? 1 : -1;
+    }
+  }
+  const fingerprint: [number, number] = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) fingerprint[bit >> 5] = (fingerprint[bit >> 5] | (1 << (bit & 31))) >>> 0;
+  }
+  return fingerprint;
+}
+
+function popcount(n: number): number {
+  n -= (n >>> 1) & 0x55555555;
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (Math.imul((n + (n >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+}
+
+export function hammingDistance(a: [number, number], b: [number, number]): number {
+  return popcount((a[0] ^ b[0]) >>> 0) + popcount((a[1] ^ b[1]) >>> 0);
+}
+
+// Which of two duplicates to keep: the one that is its own canonical, then higher sitemap priority,
+// then no query string, then the shorter URL
+function better(a: PageData, b: PageData): boolean {
+  const selfCanonical = (p: PageData) => !!p.canonical && urlKey(p.canonical) === urlKey(p.url);
+  if (selfCanonical(a) !== selfCanonical(b)) return selfCanonical(a);
+  if ((a.priority ?? 0.5) !== (b.priority ?? 0.5)) return (a.priority ?? 0.5) > (b.priority ?? 0.5);
+  const hasQuery = (p: PageData) => new URL(p.url).search !== '';
+  if (hasQuery(a) !== hasQuery(b)) return !hasQuery(a);
+  return a.url.length < b.url.length;
+}
+
+// Collapses pages that are one page under several URLs, or that declare another page canonical, or whose
+// content is nearly identical. Each group keeps its best page, in the position of the group's first page.
+export function dedupePages(
+  pages: PageData[],
+  options: DedupeOptions = {},
+): { pages: PageData[]; merged: MergedPage[] } {
+  const maxDistance = options.maxDistance ?? DEFAULT_MAX_DISTANCE;
+  // Union-find over page indexes; each merge records the reason against the absorbed page
+  const parent = pages.map((_, i) => i);
+  const reasons = new Map<number, DuplicateReason>();
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number, reason: DuplicateReason) => {
+    const [ra, rb] = [find(a), find(b)];
+    if (ra === rb) return;
+    parent[rb] = ra;
+    reasons.set(b, reasons.get(b) ?? reason);
+  };
+
+  const byKey = new Map<string, number>();
+  pages.forEach((page, i) => {
+    const key = urlKey(page.url);
+    const first = byKey.get(key);
+    if (first === undefined) byKey.set(key, i);
+    else union(first, i, 'same URL');
+  });
+
+  // Canonicals pointing at a page we don't have still group the pages that share them
+  pages.forEach((page, i) => {
+    if (!page.canonical) return;
+    const key = urlKey(page.canonical);
+    const target = byKey.get(key);
+    if (target === undefined) byKey.set(key, i);
+    else union(target, i, 'canonical');
+  });
+
+  // Pages within maxDistance bits share at least one of maxDistance + 1 bands exactly, so only pages
+  // in the same band bucket are compared
+  const fingerprints = pages.map(page => simhash(`${page.title}\n${page.content}`));
+  const bands = Math.min(64, maxDistance + 1);
+  const bandBits = Math.ceil(64 / bands);
+  const buckets = new Map<string, number[]>();
+  fingerprints.forEach((fingerprint, i) => {
+    if (!fingerprint) return;
+    const bits = fingerprint[0].toString(2).padStart(32, '0') + fingerprint[1].toString(2).padStart(32, '0');
+    for (let band = 0; band < bands; band++) {
+      const bucketKey = `${band}:${bits.slice(band * bandBits, (band + 1) * bandBits)}`;
+      const bucket = buckets.get(bucketKey) ?? [];
+      for (const j of bucket) {
+        if (find(i) !== find(j) && hammingDistance(fingerprint, fingerprints[j]!) <= maxDistance) {
+          union(j, i, 'near-duplicate');
+        }
+      }
+      bucket.push(i);
+      buckets.set(bucketKey, bucket);
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  pages.forEach((_, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(i);
+    else groups.set(root, [i]);
+  });
+  const kept: PageData[] = [];
+  const merged: MergedPage[] = [];
+  for (const members of groups.values()) {
+    const best = members.reduce((a, b) => (better(pages[b], pages[a]) ? b : a));
+    kept.push(pages[best]);
+    for (const i of members) {
+      if (i === best) continue;
+      // The reason recorded against whichever of the pair was absorbed
+      merged.push({ url: pages[i].url, into: pages[best].url, reason: reasons.get(i) ?? reasons.get(best) ?? 'same URL' });
+    }
+  }
+  // Groups were inserted in order of their first page, so kept pages are in page order already
+  return { pages: kept, merged };
+}
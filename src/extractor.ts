@@ -1,4 +1,11 @@
 import * as cheerio from 'cheerio';
+import { htmlToMarkdown, truncateMarkdown } from './markdown.js';
+import { removeBoilerplate, findMainContent } from './readability.js';
+import type { ExtractOptions } from './readability.js';
+import { normalizeLocale, ownHreflang } from './locale.js';
+import { robotsDirectives, USER_AGENT_TOKEN } from './robots.js';
+
+export type { ExtractOptions } from './readability.js';
 
 export interface PageData {
   url: string;
@@ -6,12 +13,30 @@ export interface PageData {
   description: string;
   h1: string;
   content: string;
+  // Sitemap <priority> and <lastmod>, when the page came from a sitemap
+  priority?: number;
+  lastmod?: string;
+  // Normalized language tag, e.g. "de" or "pt-BR", from hreflang or <html lang>
+  lang?: string;
+  // hreflang → URL of each translation, the page itself included
+  alternates?: Record<string, string>;
+  // <link rel="canonical">, resolved against the page URL
+  canonical?: string;
+  // Robots directives that apply to us, from <meta name="robots"> and the X-Robots-Tag header, e.g. "noindex, follow"
+  robots?: string;
 }
 
-export function extractPageData(url: string, html: string): PageData {
+// Safety cap on stored content; llm-full.txt budgets are applied when formatting
+export const MAX_CONTENT_LENGTH = 100_000;
+
+export function extractPageData(url: string, html: string, options: ExtractOptions = {}): PageData {
   const $ = cheerio.load(html);
+  const alternates = readAlternates($, url);
+  const lang = normalizeLocale(ownHreflang(url, alternates) ?? $('html').attr('lang'));
+  const canonical = resolveHref($('link[rel="canonical"][href]').first().attr('href'), url);
+  const robots = readMetaRobots($).join(', ') || undefined;
 
-  $('script, style, noscript, nav, footer, header, aside, [role="navigation"], [role="banner"], [role="contentinfo"]').remove();
+  removeBoilerplate($, options.removeSelectors);
 
   const title = $('title').text().trim();
   const description = (
@@ -21,11 +46,54 @@ export function extractPageData(url: string, html: string): PageData {
   ).trim();
   const h1 = $('h1').first().text().trim();
 
-  const mainEl = $('main, article, [role="main"], .content, #content, .main, #main, .post, .article');
-  const textSource = mainEl.length > 0 ? mainEl.first() : $('body');
-  const content = textSource.text().replace(/\s+/g, ' ').trim().slice(0, 3000);
+  const textSource = findMainContent($, options);
+  const content = truncateMarkdown(htmlToMarkdown(textSource.contents().toArray(), url), MAX_CONTENT_LENGTH);
+
+  return {
+    url,
+    title,
+    description,
+    h1,
+    content,
+    ...(lang && lang !== 'x-default' ? { lang } : {}),
+    ...(alternates ? { alternates } : {}),
+    ...(canonical ? { canonical } : {}),
+    ...(robots ? { robots } : {}),
+  };
+}
+
+function resolveHref(href: string | undefined, base: string): string | undefined {
+  if (!href?.trim()) return undefined;
+  try {
+    return new URL(href.trim(), base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+// <meta name="robots">, and <meta name="llm-txt-gen"> addressed to us alone
+export function readMetaRobots($: cheerio.CheerioAPI): string[] {
+  return $(`meta[name="robots" i][content], meta[name="${USER_AGENT_TOKEN}" i][content]`)
+    .toArray()
+    .flatMap(el => robotsDirectives($(el).attr('content')));
+}
+
+// Adds the directives of an X-Robots-Tag response header to those the page's meta tags declared
+export function withRobotsHeader(page: PageData, header: string | null | undefined): PageData {
+  const directives = robotsDirectives(header ?? undefined);
+  if (directives.length === 0) return page;
+  return { ...page, robots: [page.robots, ...directives].filter(Boolean).join(', ') };
+}
 
-  return { url, title, description, h1, content };
+// <link rel="alternate" hreflang="de" href="/de/page"> in the head
+function readAlternates($: cheerio.CheerioAPI, url: string): Record<string, string> | undefined {
+  const alternates: Record<string, string> = {};
+  $('link[rel="alternate"][hreflang][href]').each((_, el) => {
+    const locale = normalizeLocale($(el).attr('hreflang'));
+    const href = resolveHref($(el).attr('href'), url);
+    if (locale && href) alternates[locale] = href;
+  });
+  return Object.keys(alternates).length > 0 ? alternates : undefined;
 }
 
 export function getPageDescription(page: PageData): string {
@@ -1,4 +1,8 @@
+import { MAX_CONTENT_LENGTH } from './extractor.js';
 import type { PageData } from './extractor.js';
+import { normalizeLocale } from './locale.js';
+import { robotsDirectives } from './robots.js';
+import { truncateMarkdown } from './markdown.js';
 
 const FIRECRAWL_API = 'https://api.firecrawl.dev/v1';
 const MAX_POLL_ATTEMPTS = 150; // 5 minutes at 2s intervals
@@ -11,6 +15,10 @@ interface FirecrawlPage {
     description?: string;
     ogTitle?: string;
     ogDescription?: string;
+    // <html lang>, as Firecrawl reports it
+    language?: string;
+    // <meta name="robots">
+    robots?: string;
   };
 }
 
@@ -81,6 +89,16 @@ function mapToPageData(page: FirecrawlPage): PageData {
   const markdown = page.markdown ?? '';
   const h1Match = markdown.match(/^#\s+(.+)$/m);
   const h1 = h1Match?.[1]?.trim() ?? '';
-  const content = markdown.slice(0, 3000);
-  return { url: page.url, title, description, h1, content };
+  const content = truncateMarkdown(markdown, MAX_CONTENT_LENGTH);
+  const lang = normalizeLocale(meta.language);
+  const robots = robotsDirectives(meta.robots).join(', ');
+  return {
+    url: page.url,
+    title,
+    description,
+    h1,
+    content,
+    ...(lang && lang !== 'x-default' ? { lang } : {}),
+    ...(robots ? { robots } : {}),
+  };
 }
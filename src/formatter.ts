@@ -1,11 +1,53 @@
 import type { PageData } from './extractor.js';
 import { getPageDescription, getPageTitle } from './extractor.js';
+import { findMatchingPattern } from './patterns.js';
+import { allocateBudget, measure, pageWeight } from './budget.js';
+import type { ContentBudget, BudgetReport } from './budget.js';
+import { markdownUrl } from './mirror.js';
+
+export interface SectionRule {
+  label: string;
+  // URL patterns, see matchesPattern
+  patterns: string[];
+  // Paragraph printed under the section heading
+  description?: string;
+  sort?: 'none' | 'title' | 'url';
+  maxEntries?: number;
+  // Move the entries under the spec's "## Optional" heading, which consumers may skip
+  optional?: boolean;
+}
+
+// A content-based section, e.g. from the AI grouping pass
+export interface PageGroup {
+  label: string;
+  urls: string[];
+}
+
+// "strict" emits only the llmstxt.org structure: H1, blockquote, optional prose, H2 link lists
+export type SpecMode = 'default' | 'strict';
 
 export interface LlmTxtOptions {
   siteName: string;
   siteDescription: string;
   pages: PageData[];
   generatedAt?: Date;
+  spec?: SpecMode;
+  // Prose paragraph placed between the blockquote and the first section
+  details?: string;
+  // Checked in order before the built-in URL groupings
+  sections?: SectionRule[];
+  // URL patterns that replace the built-in key page detection
+  keyPages?: string[];
+  // Checked after `sections`, in place of the URL-based groupings
+  groups?: PageGroup[];
+  // Paragraphs printed under section headings, by label; a rule's own description wins
+  sectionIntros?: Record<string, string>;
+  // Size limits for llm-full.txt page content
+  budget?: ContentBudget;
+  // Link each entry to its .md mirror instead of the HTML page
+  mdLinks?: boolean;
+  // The same file in other languages, listed under "## Languages"
+  languages?: Array<{ label: string; url: string }>;
 }
 
 // Strip " | SiteName", " - SiteName", " — SiteName" from end of title
@@ -42,14 +84,38 @@ const SECTION_PATTERNS: Array<{ label: string; pattern: RegExp }> = [
   { label: 'API & Reference', pattern: /\/(api|sdk|reference)\b/i },
 ];
 
-function isKeyPage(url: string): boolean {
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/([[\]\\])/g, '\\$1');
+}
+
+// A bare ")" or space would end the link destination early ("/wiki/Foo_(bar)")
+function escapeLinkUrl(url: string): string {
+  return url.replace(/[()\s]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+export function isKeyPage(url: string, keyPages?: string[]): boolean {
+  if (keyPages) return findMatchingPattern(url, keyPages) !== undefined;
   try {
     const { pathname } = new URL(url);
     return KEY_PAGE_PATTERNS.some(p => p.test(pathname));
   } catch { return false; }
 }
 
-function getSectionLabel(url: string): string {
+function sortSectionPages(pages: PageData[], sort: SectionRule['sort'], siteName: string): PageData[] {
+  if (sort === 'title') {
+    return [...pages].sort((a, b) =>
+      cleanTitle(getPageTitle(a), siteName).localeCompare(cleanTitle(getPageTitle(b), siteName)));
+  }
+  if (sort === 'url') return [...pages].sort((a, b) => a.url.localeCompare(b.url));
+  return pages;
+}
+
+// The built-in section for a URL: a known path pattern, else its first path segment
+export function getSectionLabel(url: string): string {
   try {
     const { pathname } = new URL(url);
     for (const { label, pattern } of SECTION_PATTERNS) {
@@ -81,65 +147,184 @@ function buildAnsweringGuidelines(pages: PageData[]): string[] {
   return lines;
 }
 
-export function formatLlmTxt({ siteName, siteDescription, pages, generatedAt }: LlmTxtOptions): string {
-  const date = (generatedAt ?? new Date()).toISOString().split('T')[0];
+export interface PlannedSection {
+  label: string;
+  description?: string;
+  pages: PageData[];
+  // Where the section came from: a configured rule, a content group, or the URL path
+  origin: 'rule' | 'group' | 'url';
+}
+
+// Decides which pages go under which heading, in output order
+export function planSections({
+  siteName,
+  pages,
+  sections = [],
+  keyPages,
+  groups = [],
+  sectionIntros = {},
+}: LlmTxtOptions): { keyPages: PageData[]; sections: PlannedSection[]; optional: PageData[] } {
+  const keyPageList = pages.filter(p => isKeyPage(p.url, keyPages));
+  const otherPages  = pages.filter(p => !isKeyPage(p.url, keyPages));
+
+  const groupOf = new Map<string, string>();
+  for (const group of groups) {
+    for (const url of group.urls) if (!groupOf.has(url)) groupOf.set(url, group.label);
+  }
+
+  // User-defined sections claim pages first, in the order they are declared
+  const claimed = new Map<SectionRule, PageData[]>(sections.map(rule => [rule, []]));
+  // Groups come first so a URL-based label that matches one merges into it
+  const sectionMap = new Map<string, PageData[]>(groups.map(g => [g.label, []]));
+  for (const page of otherPages) {
+    const rule = sections.find(r => findMatchingPattern(page.url, r.patterns) !== undefined);
+    if (rule) {
+      claimed.get(rule)!.push(page);
+      continue;
+    }
+    const label = groupOf.get(page.url) ?? getSectionLabel(page.url);
+    if (!sectionMap.has(label)) sectionMap.set(label, []);
+    sectionMap.get(label)!.push(page);
+  }
+
+  const planned: PlannedSection[] = [];
+  const optional: PageData[] = [];
+  for (const [rule, rulePages] of claimed) {
+    if (rulePages.length === 0) continue;
+    const entries = sortSectionPages(rulePages, rule.sort, siteName).slice(0, rule.maxEntries);
+    if (rule.optional) {
+      optional.push(...entries);
+      continue;
+    }
+    planned.push({
+      label: rule.label,
+      description: rule.description ?? sectionIntros[rule.label],
+      pages: entries,
+      origin: 'rule',
+    });
+  }
 
+  const groupLabels = new Set(groups.map(g => g.label));
+  for (const [label, sectionPages] of sectionMap) {
+    if (sectionPages.length === 0) continue;
+    planned.push({
+      label,
+      description: sectionIntros[label],
+      pages: sectionPages,
+      origin: groupLabels.has(label) ? 'group' : 'url',
+    });
+  }
+
+  return { keyPages: keyPageList, sections: planned, optional };
+}
+
+export function formatLlmTxt(opts: LlmTxtOptions): string {
+  const {
+    siteName,
+    siteDescription,
+    pages,
+    generatedAt,
+    spec = 'default',
+    details,
+    mdLinks = false,
+  } = opts;
+  const strict = spec === 'strict';
   const lines: string[] = [
-    `# ${siteName}`,
+    `# ${strict ? singleLine(siteName) : siteName}`,
     '',
-    `> ${siteDescription}`,
-    '',
-    `*Generated: ${date}*`,
+    `> ${strict ? singleLine(siteDescription) : siteDescription}`,
     '',
   ];
+  if (details) lines.push(details.trim(), '');
+  if (!strict) {
+    const date = (generatedAt ?? new Date()).toISOString().split('T')[0];
+    lines.push(`*Generated: ${date}*`, '');
+  }
 
-  const keyPages   = pages.filter(p => isKeyPage(p.url));
-  const otherPages = pages.filter(p => !isKeyPage(p.url));
-
-  if (keyPages.length > 0) {
-    lines.push('## Key Pages', '');
-    for (const page of keyPages) {
+  const pushEntries = (entries: PageData[]) => {
+    for (const page of entries) {
       const title = cleanTitle(getPageTitle(page), siteName);
       const desc  = cleanDescription(getPageDescription(page));
-      lines.push(`- [${title}](${page.url}): ${desc}`);
+      const href  = mdLinks ? markdownUrl(page.url) : page.url;
+      if (strict) {
+        const notes = singleLine(desc);
+        lines.push(`- [${escapeLinkText(singleLine(title))}](${escapeLinkUrl(href)})${notes ? `: ${notes}` : ''}`);
+      } else {
+        lines.push(`- [${title}](${href}): ${desc}`);
+      }
     }
+  };
+
+  const plan = planSections(opts);
+
+  if (plan.keyPages.length > 0) {
+    lines.push('## Key Pages', '');
+    pushEntries(plan.keyPages);
     lines.push('');
   }
 
-  // Group remaining pages into sections
-  const sectionMap = new Map<string, PageData[]>();
-  for (const page of otherPages) {
-    const label = getSectionLabel(page.url);
-    if (!sectionMap.has(label)) sectionMap.set(label, []);
-    sectionMap.get(label)!.push(page);
+  for (const section of plan.sections) {
+    lines.push(`## ${section.label}`, '');
+    // The spec only allows link lists under H2 headings
+    if (section.description && !strict) lines.push(section.description, '');
+    pushEntries(section.pages);
+    lines.push('');
   }
 
-  for (const [section, sectionPages] of sectionMap) {
-    lines.push(`## ${section}`, '');
-    for (const page of sectionPages) {
-      const title = cleanTitle(getPageTitle(page), siteName);
-      const desc  = cleanDescription(getPageDescription(page));
-      lines.push(`- [${title}](${page.url}): ${desc}`);
+  const guidelines = strict ? [] : buildAnsweringGuidelines(pages);
+  if (guidelines.length > 0) {
+    lines.push('## Answering Guidelines', '', ...guidelines, '');
+  }
+
+  if (opts.languages && opts.languages.length > 0) {
+    lines.push('## Languages', '');
+    for (const { label, url } of opts.languages) {
+      lines.push(strict ? `- [${escapeLinkText(label)}](${escapeLinkUrl(url)})` : `- [${label}](${url})`);
     }
     lines.push('');
   }
 
-  const guidelines = buildAnsweringGuidelines(pages);
-  if (guidelines.length > 0) {
-    lines.push('## Answering Guidelines', '', ...guidelines, '');
+  if (plan.optional.length > 0) {
+    lines.push('## Optional', '');
+    pushEntries(plan.optional);
+    lines.push('');
   }
 
   return lines.join('\n');
 }
 
 export function formatLlmFullTxt(opts: LlmTxtOptions): string {
-  const sections: string[] = [formatLlmTxt(opts), '---', ''];
+  return fitLlmFullTxt(opts).text;
+}
 
-  for (const page of opts.pages) {
-    if (!page.content) continue;
+// Builds llm-full.txt within the content budget and reports what had to be cut
+export function fitLlmFullTxt(opts: LlmTxtOptions): { text: string; report: BudgetReport } {
+  const header = [formatLlmTxt(opts), '---', ''].join('\n');
+  const pageBlock = (page: PageData, content: string) => {
     const title = cleanTitle(getPageTitle(page), opts.siteName);
-    sections.push(`## ${title}`, '', `URL: ${page.url}`, '', page.content, '', '---', '');
+    return [`## ${title}`, '', `URL: ${page.url}`, '', content, '', '---', ''].join('\n');
+  };
+
+  const withContent = opts.pages.filter(p => p.content);
+  const budget = opts.budget ?? { unit: 'chars' };
+  const { contents, report } = allocateBudget(
+    withContent.map(page => ({
+      url: page.url,
+      content: page.content,
+      // +1 for the newline joining blocks
+      overhead: pageBlock(page, '').length + 1,
+      weight: pageWeight(page.priority, isKeyPage(page.url, opts.keyPages)),
+    })),
+    budget,
+    header.length,
+  );
+
+  const blocks = [header];
+  for (const page of withContent) {
+    const content = contents.get(page.url);
+    if (content !== undefined) blocks.push(pageBlock(page, content));
   }
 
-  return sections.join('\n');
+  const text = blocks.join('\n');
+  return { text, report: { ...report, size: measure(text, budget.unit) } };
 }
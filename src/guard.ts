@@ -0,0 +1,117 @@
+import type { PageData } from './extractor.js';
+import { DEFAULT_CONTENT_CHARS, DEFAULT_MAX_WORDS } from './prompt.js';
+import type { DescriptionStyle } from './prompt.js';
+
+// Why a reply was not used; kept short and fixed so failures group well in the summary
+export type Rejection = 'empty response' | 'refusal' | 'too short' | 'too long' | 'not about the page';
+
+// Said instead of a description: "I cannot access this page", "As an AI language model..."
+const REFUSALS = [
+  /\b(i|i'm|i am)\b.{0,30}\b(cannot|can't|can not|unable to|not able to|don't have|do not have|couldn't|could not)\b.{0,40}\b(access|browse|visit|open|view|read|see|retrieve|summari[sz]e|describe|determine|provide)/i,
+  /\bas an ai\b|\bas a (large )?language model\b/i,
+  /^(sorry|i'm sorry|i apologi[sz]e|unfortunately)\b/i,
+  /\b(no|not enough|insufficient) (page )?(content|information|details) (is |was |were )?(provided|available|given)\b/i,
+];
+
+// A line that only announces the answer: "Here is a one-sentence summary:", "Sure!"
+const PREAMBLE_LINE = /^(sure|certainly|of course|okay|ok)[!.,]?$|:$/i;
+// The same, followed by the answer on the same line
+const PREAMBLE_PREFIX = [
+  /^(sure|certainly|of course|okay|ok)[!.,]\s*/i,
+  /^here(?:'s| is) (?:a |an |the |your )?[^:]{0,60}:\s*/i,
+  /^(?:one-line |one-sentence |page )?(?:description|summary)\s*:\s*/i,
+];
+
+const QUOTES = /^["“”'‘’`]+|["“”'‘’`]+$/g;
+
+// Words too common to show that a description is about the page
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'being', 'from', 'have', 'here', 'into', 'more', 'most', 'other', 'over',
+  'page', 'pages', 'site', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'through', 'under', 'using', 'very', 'website', 'what', 'when', 'where', 'which', 'while',
+  'will', 'with', 'your', 'provides', 'information', 'learn', 'guide', 'overview',
+]);
+
+// Pages with fewer distinct terms than this say too little to check a description against, and
+// replies with fewer say too little to tell what they are about
+const MIN_PAGE_TERMS = 3;
+const MIN_REPLY_TERMS = 3;
+
+// Strips code fences, preambles, list markers, markdown emphasis and wrapping quotes, and keeps the first
+// line, or joins the lines with `multiline`
+export function tidyReply(text: string, multiline = false): string {
+  const lines = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('```'));
+  while (lines.length > 1 && PREAMBLE_LINE.test(lines[0])) lines.shift();
+
+  let line = multiline ? lines.join(' ') : lines[0] ?? '';
+  for (let stripped = true; stripped; ) {
+    stripped = false;
+    for (const prefix of PREAMBLE_PREFIX) {
+      const next = line.replace(prefix, '');
+      if (next !== line && next) {
+        line = next;
+        stripped = true;
+      }
+    }
+  }
+  return line
+    .replace(/^([-*•]|\d+[.)])\s+/, '')
+    .replace(/\*\*|__/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(QUOTES, '')
+    .trim();
+}
+
+export function isRefusal(text: string): boolean {
+  return REFUSALS.some(pattern => pattern.test(text));
+}
+
+function terms(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? [];
+  // The first five letters stand in for a stem, so "documents" matches "documentation"
+  return new Set(words.filter(word => !STOP_WORDS.has(word)).map(word => word.slice(0, 5)));
+}
+
+// The reason to reject a tidied description, or undefined when it can be used
+export function checkDescription(text: string, page: PageData, style: DescriptionStyle = {}): Rejection | undefined {
+  if (!text) return 'empty response';
+  if (isRefusal(text)) return 'refusal';
+  const words = text.split(/\s+/).length;
+  // Two words can be a fine description ("Pricing plans."); one is a label, not a description
+  if (words < 2) return 'too short';
+  // Models overshoot a word target a little; well past it usually means a paragraph or a list
+  if (words > Math.ceil((style.maxWords ?? DEFAULT_MAX_WORDS) * 1.5) + 5) return 'too long';
+
+  // A translation shares no words with the page, so grounding can only be checked in the page's language
+  if (style.language) return undefined;
+  const pageTerms = terms([
+    page.title,
+    page.h1,
+    page.description,
+    new URL(page.url).pathname.replace(/[/_-]+/g, ' '),
+    page.content.slice(0, style.contentChars ?? DEFAULT_CONTENT_CHARS),
+  ].join(' '));
+  const replyTerms = terms(text);
+  if (pageTerms.size < MIN_PAGE_TERMS || replyTerms.size < MIN_REPLY_TERMS) return undefined;
+  for (const term of replyTerms) {
+    if (pageTerms.has(term)) return undefined;
+  }
+  return 'not about the page';
+}
+
+const CORRECTIONS: Record<Rejection, string> = {
+  'empty response': 'Your previous answer was empty.',
+  'refusal': 'Your previous answer was a refusal. Describe the page from the title and content above; they are all you need.',
+  'too short': 'Your previous answer was too short to be useful.',
+  'too long': 'Your previous answer was too long. Keep to the word limit.',
+  'not about the page': 'Your previous answer did not match the page. Use only what the title and content above say.',
+};
+
+// The prompt for another attempt after `rejection`
+export function correctionPrompt(prompt: string, rejection: Rejection): string {
+  return `${prompt}\n\n${CORRECTIONS[rejection]} Respond with only the one-line description.`;
+}
@@ -0,0 +1,191 @@
+import { readFile } from 'fs/promises';
+
+export interface LintIssue {
+  line: number;
+  severity: 'error' | 'warning';
+  rule: string;
+  message: string;
+}
+
+export interface LlmsTxtEntry {
+  title: string;
+  url: string;
+  notes?: string;
+  line: number;
+}
+
+export interface LlmsTxtSection {
+  name: string;
+  line: number;
+  entries: LlmsTxtEntry[];
+}
+
+export interface ParsedLlmsTxt {
+  title?: string;
+  summary?: string;
+  sections: LlmsTxtSection[];
+  issues: LintIssue[];
+}
+
+// "- [title](url)" with optional ": notes"; link text may contain escaped brackets
+const ENTRY_PATTERN = /^[-*]\s+\[((?:\\.|[^\]\\])*)\]\(([^)\s]+)\)(?::\s*(.*))?$/;
+
+export function parseLlmsTxt(text: string): ParsedLlmsTxt {
+  const lines = text.split(/\r?\n/);
+  const issues: LintIssue[] = [];
+  const sections: LlmsTxtSection[] = [];
+  const issue = (line: number, severity: LintIssue['severity'], rule: string, message: string) =>
+    issues.push({ line, severity, rule, message });
+
+  let title: string | undefined;
+  let summary: string | undefined;
+  let current: LlmsTxtSection | null = null;
+  let inFence = false;
+  let seenContent = false;
+
+  lines.forEach((raw, i) => {
+    const lineNo = i + 1;
+    const line = raw.trimEnd();
+    if (/^(```|~~~)/.test(line.trim())) inFence = !inFence;
+    if (line.trim() === '') return;
+
+    const heading = inFence ? null : line.match(/^(#{1,6})\s+(.*)$/);
+    if (!seenContent) {
+      seenContent = true;
+      if (heading?.[1] !== '#') issue(lineNo, 'error', 'h1-first', 'The file must start with an H1 heading');
+    }
+
+    if (heading) {
+      const level = heading[1].length;
+      const name = heading[2].trim();
+      if (level === 1) {
+        if (title !== undefined) {
+          issue(lineNo, 'error', 'h1-multiple', 'Only one H1 heading is allowed');
+        } else {
+          title = name;
+        }
+      } else if (level === 2) {
+        current = { name, line: lineNo, entries: [] };
+        sections.push(current);
+      } else {
+        issue(lineNo, 'error', 'heading-level', `H${level} headings are not allowed; use H2 sections`);
+      }
+      return;
+    }
+
+    if (!current) {
+      // Preamble: blockquote summary followed by free prose
+      if (line.startsWith('>') && summary === undefined) {
+        summary = line.replace(/^>\s?/, '').trim();
+      }
+      return;
+    }
+
+    const entry = line.trim().match(ENTRY_PATTERN);
+    if (!entry) {
+      issue(lineNo, 'error', 'section-content', `Section "${current.name}" may only contain "- [title](url): notes" list items`);
+      return;
+    }
+    current.entries.push({
+      title: entry[1].replace(/\\(.)/g, '$1'),
+      url: entry[2],
+      notes: entry[3]?.trim() || undefined,
+      line: lineNo,
+    });
+  });
+
+  if (title === undefined) {
+    // "must start with an H1" is redundant when there is no H1 at all
+    const firstIssue = issues.findIndex(i => i.rule === 'h1-first');
+    if (firstIssue !== -1) issues.splice(firstIssue, 1);
+    issue(1, 'error', 'h1-missing', 'Missing H1 heading with the site or project name');
+  }
+  if (summary === undefined) issue(1, 'warning', 'summary-missing', 'Missing "> summary" blockquote after the H1');
+
+  for (const section of sections) {
+    if (section.entries.length === 0) {
+      issue(section.line, 'warning', 'empty-section', `Section "${section.name}" has no entries`);
+    }
+  }
+
+  const seen = new Map<string, number>();
+  for (const entry of sections.flatMap(s => s.entries)) {
+    const first = seen.get(entry.url);
+    if (first !== undefined) {
+      issue(entry.line, 'warning', 'duplicate-entry', `${entry.url} is already listed on line ${first}`);
+    } else {
+      seen.set(entry.url, entry.line);
+    }
+  }
+
+  return { title, summary, sections, issues };
+}
+
+export async function checkLinks(
+  parsed: ParsedLlmsTxt,
+  base?: string,
+  concurrency = 5,
+): Promise<LintIssue[]> {
+  const entries = parsed.sections.flatMap(s => s.entries);
+  const issues: LintIssue[] = [];
+  const statusByUrl = new Map<string, Promise<string | null>>();
+
+  const check = (url: string) => {
+    if (!statusByUrl.has(url)) statusByUrl.set(url, probe(url));
+    return statusByUrl.get(url)!;
+  };
+
+  for (let i = 0; i < entries.length; i += concurrency) {
+    const batch = entries.slice(i, i + concurrency);
+    await Promise.all(batch.map(async entry => {
+      // Relative links in a local file have nothing to resolve against
+      if (!base && !/^https?:\/\//i.test(entry.url)) return;
+      let absolute: string;
+      try {
+        absolute = new URL(entry.url, base).href;
+      } catch {
+        issues.push({ line: entry.line, severity: 'error', rule: 'invalid-link', message: `Invalid URL "${entry.url}"` });
+        return;
+      }
+      const problem = await check(absolute);
+      if (problem) {
+        issues.push({ line: entry.line, severity: 'error', rule: 'broken-link', message: `${entry.url}: ${problem}` });
+      }
+    }));
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+// Resolves to a description of the problem, or null when the link works
+async function probe(url: string): Promise<string | null> {
+  const request = (method: string) => fetch(url, {
+    method,
+    redirect: 'follow',
+    signal: AbortSignal.timeout(10000),
+    headers: { 'User-Agent': 'llm-txt-gen/0.1 (+https://github.com/remete618/llm-txt-gen)' },
+  });
+  try {
+    let res = await request('HEAD');
+    // Some servers don't implement HEAD
+    if (res.status === 405 || res.status === 501) res = await request('GET');
+    return res.ok ? null : `HTTP ${res.status}`;
+  } catch (err) {
+    return (err as Error).message || 'request failed';
+  }
+}
+
+export async function readLlmsTxt(source: string): Promise<string> {
+  if (/^https?:\/\//i.test(source)) {
+    const res = await fetch(source, { signal: AbortSignal.timeout(10000) });
+    if (!res.ok) throw new Error(`Failed to fetch ${source}: HTTP ${res.status}`);
+    return res.text();
+  }
+  return readFile(source, 'utf-8');
+}
+
+export function formatIssues(source: string, issues: LintIssue[]): string {
+  return issues
+    .map(i => `${source}:${i.line}  ${i.severity.padEnd(7)}  ${i.rule.padEnd(16)}  ${i.message}`)
+    .join('\n');
+}
@@ -0,0 +1,96 @@
+import path from 'path';
+import type { PageData } from './extractor.js';
+
+// hreflang's catch-all: the page shown when no other language matches
+const X_DEFAULT = 'x-default';
+
+// "de-de" → "de-DE", "pt_br" → "pt-BR", "zh-hant-tw" → "zh-Hant-TW"; undefined for anything that isn't a language tag
+export function normalizeLocale(tag: string | undefined): string | undefined {
+  const trimmed = tag?.trim().replace(/_/g, '-');
+  if (!trimmed) return undefined;
+  if (trimmed.toLowerCase() === X_DEFAULT) return X_DEFAULT;
+  if (!/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(trimmed)) return undefined;
+  const [language, ...rest] = trimmed.split('-');
+  return [
+    language.toLowerCase(),
+    ...rest.map(part => {
+      if (part.length === 4) return part[0].toUpperCase() + part.slice(1).toLowerCase();
+      return part.length === 2 || /^\d{3}$/.test(part) ? part.toUpperCase() : part.toLowerCase();
+    }),
+  ].join('-');
+}
+
+// The hreflang a page lists for its own URL; more reliable than <html lang>, which many sites leave
+// at the template's "en" in every locale
+export function ownHreflang(url: string, alternates: Record<string, string> | undefined): string | undefined {
+  const own = Object.entries(alternates ?? {}).find(([locale, href]) => locale !== X_DEFAULT && sameUrl(href, url));
+  return own?.[0];
+}
+
+// "https://example.com/" and "https://example.com" are the same page
+function sameUrl(a: string, b: string): boolean {
+  return a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+}
+
+// A filter of "de" matches "de", "de-DE" and "de-AT"; "de-AT" matches only itself
+export function matchesLocale(locale: string | undefined, filters: string[]): boolean {
+  if (filters.length === 0) return true;
+  if (!locale) return false;
+  const lower = locale.toLowerCase();
+  return filters.some(filter => {
+    const wanted = filter.toLowerCase();
+    return lower === wanted || lower.startsWith(`${wanted}-`);
+  });
+}
+
+// "llms.txt" + "de" → "llms.de.txt"
+export function localizedPath(file: string, locale: string): string {
+  const ext = path.extname(file);
+  return `${file.slice(0, file.length - ext.length)}.${locale}${ext}`;
+}
+
+// "Deutsch (de)", or just the tag where the runtime has no name for it
+export function localeLabel(locale: string): string {
+  try {
+    const name = new Intl.DisplayNames([locale], { type: 'language' }).of(locale);
+    if (name && name !== locale) return `${name[0].toUpperCase()}${name.slice(1)} (${locale})`;
+  } catch { /* not a tag Intl knows */ }
+  return locale;
+}
+
+export interface LocaleEdition {
+  locale: string;
+  pages: PageData[];
+  // The edition written to the unsuffixed file names
+  primary: boolean;
+  // Its home page: the site root, or the root's translation into this locale
+  home?: PageData;
+}
+
+// One edition per locale, primary first. The primary locale is the one the x-default alternate of the
+// home page points at, else the home page's own, else the most common; pages without a locale join it.
+export function splitByLocale(pages: PageData[]): LocaleEdition[] {
+  const counts = new Map<string, number>();
+  for (const page of pages) {
+    if (page.lang) counts.set(page.lang, (counts.get(page.lang) ?? 0) + 1);
+  }
+  const home = pages.find(p => new URL(p.url).pathname === '/');
+  if (counts.size === 0) return [{ locale: 'und', pages, primary: true, home }];
+
+  const xDefault = home?.alternates?.[X_DEFAULT];
+  const candidates = [(xDefault ? pages.find(p => sameUrl(p.url, xDefault))?.lang : undefined), home?.lang];
+  const primary = candidates.find(locale => locale && counts.has(locale))
+    ?? [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+  const others = [...counts.keys()].filter(locale => locale !== primary).sort();
+  return [primary, ...others].map(locale => {
+    const edition = pages.filter(page => (page.lang ?? primary) === locale);
+    const translated = home?.alternates?.[locale];
+    return {
+      locale,
+      pages: edition,
+      primary: locale === primary,
+      home: locale === primary ? home : edition.find(page => translated && sameUrl(page.url, translated)),
+    };
+  });
+}
@@ -0,0 +1,268 @@
+import type { AnyNode, Element } from 'domhandler';
+
+// Elements that start a new block; everything else is rendered inline
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'html', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+// Never useful as text, even when the extractor didn't strip them
+const SKIP_TAGS = new Set([
+  'button', 'canvas', 'head', 'iframe', 'input', 'noscript', 'object', 'script',
+  'select', 'style', 'svg', 'template', 'textarea',
+]);
+
+const LIST_ITEM = /^(?:-|\d+\.) /;
+
+const LANGUAGE_CLASS = /(?:^|\s)(?:language|lang|highlight-source|highlight)-([\w+#-]+)/;
+
+function isElement(node: AnyNode): node is Element {
+  return node.type === 'tag' || node.type === 'script' || node.type === 'style';
+}
+
+function isBlock(node: AnyNode): boolean {
+  return isElement(node) && BLOCK_TAGS.has(node.name);
+}
+
+function rawText(node: AnyNode): string {
+  if (node.type === 'text') return node.data;
+  if (isElement(node)) {
+    if (node.name === 'br') return '\n';
+    return node.children.map(rawText).join('');
+  }
+  return '';
+}
+
+function absoluteUrl(href: string | undefined, baseUrl: string): string | null {
+  if (!href) return null;
+  const trimmed = href.trim();
+  // In-page anchors and script links mean nothing outside the page
+  if (!trimmed || trimmed.startsWith('#') || /^(javascript|data):/i.test(trimmed)) return null;
+  try {
+    return new URL(trimmed, baseUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(r => r.length));
+  const ticks = '`'.repeat(longestRun + 1);
+  const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${ticks}${pad}${text}${pad}${ticks}`;
+}
+
+function wrapInline(marker: string, inner: string): string {
+  const trimmed = inner.trim();
+  if (!trimmed) return inner;
+  // Keep surrounding spaces outside the markers so the emphasis still parses
+  const lead = inner.match(/^\s*/)![0] ? ' ' : '';
+  const trail = inner.match(/\s*$/)![0] ? ' ' : '';
+  return `${lead}${marker}${trimmed}${marker}${trail}`;
+}
+
+function renderInline(nodes: AnyNode[], baseUrl: string): string {
+  return nodes.map(node => inlineNode(node, baseUrl)).join('');
+}
+
+function inlineNode(node: AnyNode, baseUrl: string): string {
+  if (node.type === 'text') return node.data.replace(/\s+/g, ' ');
+  if (!isElement(node) || SKIP_TAGS.has(node.name)) return '';
+
+  const inner = () => renderInline(node.children, baseUrl);
+  switch (node.name) {
+    case 'br':
+      return '\n';
+    case 'strong':
+    case 'b':
+      return wrapInline('**', inner());
+    case 'em':
+    case 'i':
+      return wrapInline('*', inner());
+    case 'del':
+    case 's':
+      return wrapInline('~~', inner());
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const text = rawText(node).replace(/\s+/g, ' ');
+      return text.trim() ? codeSpan(text) : '';
+    }
+    case 'a': {
+      const text = inner().trim();
+      const href = absoluteUrl(node.attribs.href, baseUrl);
+      if (!text) return '';
+      return href ? `[${text.replace(/([[\]])/g, '\\$1')}](${href})` : text;
+    }
+    case 'img': {
+      const src = absoluteUrl(node.attribs.src, baseUrl);
+      const alt = (node.attribs.alt ?? '').replace(/\s+/g, ' ').trim();
+      return src ? `![${alt}](${src})` : '';
+    }
+    default:
+      return inner();
+  }
+}
+
+// Collapse the whitespace an inline run picked up from HTML formatting
+function cleanInline(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/ {2,}/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+}
+
+// Renders a mixed list of nodes into Markdown blocks, grouping loose inline content into paragraphs
+function renderBlocks(nodes: AnyNode[], baseUrl: string): string[] {
+  const blocks: string[] = [];
+  let inline: AnyNode[] = [];
+
+  const flush = () => {
+    const text = cleanInline(renderInline(inline, baseUrl));
+    if (text) blocks.push(text);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush();
+      blocks.push(...blockNode(node as Element, baseUrl));
+    } else {
+      inline.push(node);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function blockNode(el: Element, baseUrl: string): string[] {
+  const children = () => renderBlocks(el.children, baseUrl);
+
+  switch (el.name) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = cleanInline(renderInline(el.children, baseUrl)).replace(/\n/g, ' ');
+      return text ? [`${'#'.repeat(Number(el.name[1]))} ${text}`] : [];
+    }
+    case 'hr':
+      return ['---'];
+    case 'pre':
+      return [codeBlock(el)];
+    case 'blockquote': {
+      const body = children().join('\n\n');
+      return body ? [body.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')] : [];
+    }
+    case 'ul':
+    case 'ol':
+      return [renderList(el, baseUrl)].filter(Boolean);
+    case 'table':
+      return [renderTable(el, baseUrl)].filter(Boolean);
+    case 'dt': {
+      const term = cleanInline(renderInline(el.children, baseUrl));
+      return term ? [`**${term}**`] : [];
+    }
+    case 'dd':
+      return children().map(block => indent(block, '  '));
+    default:
+      return children();
+  }
+}
+
+function codeBlock(pre: Element): string {
+  const code = pre.children.find((c): c is Element => isElement(c) && c.name === 'code');
+  const classes = `${pre.attribs.class ?? ''} ${code?.attribs.class ?? ''}`;
+  const language =
+    code?.attribs['data-language'] ??
+    pre.attribs['data-language'] ??
+    classes.match(LANGUAGE_CLASS)?.[1] ??
+    '';
+  const text = rawText(pre).replace(/^\n/, '').replace(/\s+$/, '');
+  const longestRun = Math.max(0, ...(text.match(/^`{3,}/gm) ?? []).map(r => r.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language.toLowerCase()}\n${text}\n${fence}`;
+}
+
+function renderList(list: Element, baseUrl: string): string {
+  const ordered = list.name === 'ol';
+  let n = Number.parseInt(list.attribs.start ?? '1', 10);
+  if (Number.isNaN(n)) n = 1;
+
+  const items: string[] = [];
+  for (const li of list.children) {
+    if (!isElement(li) || li.name !== 'li') continue;
+    const marker = ordered ? `${n++}.` : '-';
+    // A nested list hangs directly under its item's text
+    const body = renderBlocks(li.children, baseUrl)
+      .map((block, i) => (i === 0 ? block : (LIST_ITEM.test(block) ? '\n' : '\n\n') + block))
+      .join('');
+    if (!body) continue;
+    const pad = ' '.repeat(marker.length + 1);
+    const [first, ...rest] = indent(body, pad).split('\n');
+    items.push([`${marker} ${first.slice(pad.length)}`, ...rest].join('\n'));
+  }
+  // Items whose content spans several blocks need blank lines between them to stay in one list
+  return items.join(items.some(item => item.includes('\n\n')) ? '\n\n' : '\n');
+}
+
+function renderTable(table: Element, baseUrl: string): string {
+  const rows: Element[] = [];
+  const collectRows = (node: Element) => {
+    for (const child of node.children) {
+      if (!isElement(child)) continue;
+      if (child.name === 'tr') rows.push(child);
+      else if (child.name === 'thead' || child.name === 'tbody' || child.name === 'tfoot') collectRows(child);
+    }
+  };
+  collectRows(table);
+
+  const cells = rows
+    .map(row => row.children
+      .filter((c): c is Element => isElement(c) && (c.name === 'td' || c.name === 'th'))
+      .map(cell => cleanInline(renderInline(cell.children, baseUrl)).replace(/\n/g, ' ').replace(/\|/g, '\\|')))
+    .filter(row => row.length > 0);
+  if (cells.length === 0) return '';
+
+  const width = Math.max(...cells.map(r => r.length));
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => row[i] ?? '').join(' | ')} |`;
+  const [header, ...body] = cells;
+  return [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+export function htmlToMarkdown(root: AnyNode | AnyNode[], baseUrl: string): string {
+  const nodes = Array.isArray(root) ? root : [root];
+  return renderBlocks(nodes, baseUrl).join('\n\n').trim();
+}
+
+// Cut at a paragraph or heading boundary (else a line boundary) and close a code fence left open by the cut
+export function truncateMarkdown(markdown: string, maxLength: number): string {
+  if (markdown.length <= maxLength) return markdown;
+  let cut = markdown.slice(0, maxLength);
+  const lastParagraph = cut.lastIndexOf('\n\n');
+  const lastBreak = cut.lastIndexOf('\n');
+  if (lastParagraph > maxLength / 2) cut = cut.slice(0, lastParagraph);
+  else if (lastBreak > maxLength / 2) cut = cut.slice(0, lastBreak);
+
+  const openFence = (text: string) => {
+    const fences = text.match(/^(`{3,}|~{3,})/gm) ?? [];
+    return fences.length % 2 === 1 ? fences[fences.length - 1] : null;
+  };
+  const fence = openFence(cut);
+  if (fence) {
+    // Make room for the closing fence, then check the shortened text is still inside the block
+    cut = cut.slice(0, maxLength - fence.length - 1).trimEnd();
+    if (openFence(cut)) cut += `\n${fence}`;
+  }
+  return cut.trimEnd();
+}
@@ -0,0 +1,75 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { stringify as stringifyYaml } from 'yaml';
+import type { PageData } from './extractor.js';
+import { getPageDescription, getPageTitle } from './extractor.js';
+
+// Characters that are unsafe in file names on at least one common filesystem
+const UNSAFE_CHARS = /[<>:"\\|?*/\x00-\x1f]/g;
+
+function safeSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch { /* keep the raw segment */ }
+  return decoded.replace(UNSAFE_CHARS, '_');
+}
+
+// The llms.txt proposal's convention: the page URL plus ".md", or "index.html.md" for URLs without a file name
+export function markdownPath(url: string): string {
+  const { pathname } = new URL(url);
+  const segments = pathname
+    .split('/')
+    .map(safeSegment)
+    .filter(s => s !== '' && s !== '.' && s !== '..');
+  const isDirectory = pathname.endsWith('/') || segments.length === 0;
+  return isDirectory
+    ? [...segments, 'index.html.md'].join('/')
+    : `${segments.join('/')}.md`;
+}
+
+export function markdownUrl(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.origin}/${markdownPath(url).split('/').map(encodeURIComponent).join('/')}`;
+}
+
+export function renderMarkdownPage(page: PageData): string {
+  const title = getPageTitle(page);
+  const frontMatter: Record<string, string> = { title };
+  const description = getPageDescription(page);
+  if (description !== title && description !== page.url) frontMatter.description = description;
+  frontMatter.source = page.url;
+  if (page.lastmod) frontMatter.lastmod = page.lastmod;
+
+  const body = page.content.trim();
+  // Extracted content usually opens with the page's own H1
+  const heading = /^#\s/.test(body) ? '' : `# ${page.h1 || title}\n\n`;
+  return `---\n${stringifyYaml(frontMatter)}---\n\n${heading}${body}\n`;
+}
+
+// Writes one Markdown file per page under `dir`, mirroring the URL paths; returns the relative paths written
+export async function writeMarkdownMirror(
+  dir: string,
+  pages: PageData[],
+): Promise<{ written: string[]; skipped: string[] }> {
+  const root = path.resolve(dir);
+  const written: string[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+
+  for (const page of pages) {
+    const relative = markdownPath(page.url);
+    // URLs differing only by query string map to the same file; the first one wins
+    if (seen.has(relative)) {
+      skipped.push(page.url);
+      continue;
+    }
+    seen.add(relative);
+    const full = path.join(root, ...relative.split('/'));
+    await mkdir(path.dirname(full), { recursive: true });
+    await writeFile(full, renderMarkdownPage(page), 'utf-8');
+    written.push(relative);
+  }
+
+  return { written, skipped };
+}
@@ -0,0 +1,67 @@
+export interface UrlRules {
+  include?: string[];
+  exclude?: string[];
+}
+
+// Glob syntax: `*` matches within one path segment, `**` across segments, `?` one character
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// Pattern forms:
+//   "re:<regex>"          regex searched anywhere in the full URL
+//   "https://x.com/a/*"   glob matched against the full URL
+//   "/blog/tag/*"         glob matched against the pathname
+export function matchesPattern(url: string, pattern: string): boolean {
+  if (pattern.startsWith('re:')) {
+    try {
+      return new RegExp(pattern.slice(3), 'i').test(url);
+    } catch { return false; }
+  }
+  if (/^https?:\/\//i.test(pattern)) return globToRegExp(pattern).test(url);
+  try {
+    return globToRegExp(pattern).test(new URL(url).pathname);
+  } catch { return false; }
+}
+
+export function findMatchingPattern(url: string, patterns: string[]): string | undefined {
+  return patterns.find(p => matchesPattern(url, p));
+}
+
+// Returns why a URL is dropped by the rules, or null when it is kept
+export function checkUrl(url: string, rules: UrlRules): string | null {
+  const excludedBy = findMatchingPattern(url, rules.exclude ?? []);
+  if (excludedBy) return `exclude "${excludedBy}"`;
+  const include = rules.include ?? [];
+  if (include.length > 0 && !findMatchingPattern(url, include)) return 'no include rule matched';
+  return null;
+}
+
+export function validateUrlPatterns(patterns: string[]): string[] {
+  const errors: string[] = [];
+  for (const pattern of patterns) {
+    if (!pattern.startsWith('re:')) continue;
+    try {
+      new RegExp(pattern.slice(3));
+    } catch (err) {
+      errors.push(`Invalid regex "${pattern}": ${(err as Error).message}`);
+    }
+  }
+  return errors;
+}
@@ -1,10 +1,13 @@
-import { extractPageData } from './extractor.js';
-import type { PageData } from './extractor.js';
+import { extractPageData, withRobotsHeader } from './extractor.js';
+import type { PageData, ExtractOptions } from './extractor.js';
+import type { RobotsGate } from './robots.js';
 
 export async function fetchPagesWithBrowser(
   urls: string[],
   concurrency: number,
   onProgress?: (success: boolean) => void,
+  robots?: RobotsGate,
+  extract?: ExtractOptions,
 ): Promise<(PageData | null)[]> {
   let pw: typeof import('playwright');
   try {
@@ -23,11 +26,18 @@ export async function fetchPagesWithBrowser(
       const batch = urls.slice(i, i + concurrency);
       await Promise.all(
         batch.map(async (url, j) => {
+          if (robots) {
+            if (!robots.allows(url)) {
+              onProgress?.(false);
+              return;
+            }
+            await robots.wait();
+          }
           const page = await browser.newPage();
           try {
-            await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+            const response = await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
             const html = await page.content();
-            results[i + j] = extractPageData(url, html);
+            results[i + j] = withRobotsHeader(extractPageData(url, html, extract), response?.headers()['x-robots-tag']);
             onProgress?.(true);
           } catch {
             onProgress?.(false);
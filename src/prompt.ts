@@ -0,0 +1,77 @@
+import type { PageData } from './extractor.js';
+
+export interface DescriptionStyle {
+  // Prompt with {{field}} placeholders, see PROMPT_FIELDS; replaces the built-in prompt
+  template?: string;
+  // Target description length (default 20)
+  maxWords?: number;
+  // e.g. "imperative, starting with 'How to'" or "neutral, third person"
+  tone?: string;
+  // Language to write in, e.g. "German"; by default the model usually follows the page
+  language?: string;
+  // Characters of page content included in the prompt (default 500)
+  contentChars?: number;
+}
+
+export const PROMPT_FIELDS = [
+  'title', 'h1', 'description', 'content', 'url', 'section', 'maxWords', 'tone', 'language',
+] as const;
+
+export const DEFAULT_MAX_WORDS = 20;
+export const DEFAULT_CONTENT_CHARS = 500;
+
+const FIELD = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Placeholders in `template` that buildDescriptionPrompt would not fill
+export function unknownFields(template: string): string[] {
+  const known: readonly string[] = PROMPT_FIELDS;
+  const names = [...template.matchAll(FIELD)].map(m => m[1]);
+  return [...new Set(names.filter(name => !known.includes(name)))];
+}
+
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(FIELD, (match, name: string) => values[name] ?? match);
+}
+
+function defaultTemplate(style: DescriptionStyle): string {
+  const guidance = [
+    style.tone ? 'Tone: {{tone}}.' : '',
+    style.language ? 'Write the description in {{language}}.' : '',
+  ].filter(Boolean);
+  return [
+    'Summarize this web page in one concise sentence (under {{maxWords}} words) for an llm.txt index file.',
+    '',
+    'Title: {{title}}',
+    'H1: {{h1}}',
+    'Meta description: {{description}}',
+    'Content excerpt: {{content}}',
+    '',
+    ...(guidance.length > 0 ? [...guidance, ''] : []),
+    'Respond with only the one-line description.',
+  ].join('\n');
+}
+
+export function buildDescriptionPrompt(page: PageData, style: DescriptionStyle = {}, section = ''): string {
+  const values: Record<(typeof PROMPT_FIELDS)[number], string> = {
+    title: page.title,
+    h1: page.h1,
+    description: page.description,
+    content: page.content.slice(0, style.contentChars ?? DEFAULT_CONTENT_CHARS),
+    url: page.url,
+    section,
+    maxWords: String(style.maxWords ?? DEFAULT_MAX_WORDS),
+    tone: style.tone ?? '',
+    language: style.language ?? '',
+  };
+  return renderTemplate(style.template ?? defaultTemplate(style), values);
+}
+
+// Room for the reply: roughly 1.3 tokens per English word, more for other languages and scripts
+export function maxTokensFor(style: DescriptionStyle = {}): number {
+  return Math.max(80, (style.maxWords ?? DEFAULT_MAX_WORDS) * 4);
+}
+
+// What a description of the target length usually costs, for estimates
+export function typicalOutputTokens(style: DescriptionStyle = {}): number {
+  return Math.ceil((style.maxWords ?? DEFAULT_MAX_WORDS) * 1.3);
+}
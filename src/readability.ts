@@ -0,0 +1,184 @@
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+export interface ExtractOptions {
+  // CSS selector for the main content; skips scoring when it matches
+  contentSelector?: string;
+  // Extra CSS selectors removed before extraction (on top of the built-in boilerplate rules)
+  removeSelectors?: string[];
+}
+
+const ALWAYS_REMOVE = 'script, style, noscript, template, svg, iframe, nav, [role="navigation"], dialog';
+
+// Page chrome that only counts as boilerplate outside an article
+const CHROME = 'header, footer, aside, [role="banner"], [role="contentinfo"], [role="complementary"]';
+
+// Matched against individual class/id tokens, e.g. "cookie-banner" or "related_posts"
+const COOKIE_TOKEN = /(^|[-_])(cookies?|consent|gdpr|ccpa|onetrust|cookiebot|cookielaw|cc-window|cmp)([-_]|$)/i;
+const UNLIKELY_TOKEN = /(^|[-_])(related|recommended|more-posts|read-next|share|sharing|social|newsletter|subscribe|signup|comments?|disqus|breadcrumbs?|sidebar|popup|modal|overlay|promo|advert|ads|sponsored|banner|masthead|menu|skip-link|pagination|pager|toc)([-_]|$)/i;
+const POSITIVE_TOKEN = /(^|[-_])(article|body|content|entry|main|page|post|prose|story|text|docs?|markdown)([-_]|$)/i;
+const NEGATIVE_TOKEN = /(^|[-_])(comment|meta|footer|footnote|foot|hidden|widget|sidebar|sponsor|shoutbox|related|share|social|nav|menu|tags?|byline|author)([-_]|$)/i;
+
+const ACCEPT_TEXT = /\b(accept|agree|allow|got it|ok|okay|i understand|reject|decline|manage preferences)\b/i;
+
+// Last resort when nothing scores, e.g. very short pages
+const SEMANTIC_CONTENT = 'main, article, [role="main"], .content, #content, .main, #main, .post, .article';
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+function tokens(el: Element): string[] {
+  return `${el.attribs.class ?? ''} ${el.attribs.id ?? ''}`.split(/\s+/).filter(Boolean);
+}
+
+function classWeight(el: Element): number {
+  const list = tokens(el);
+  let weight = 0;
+  if (list.some(t => POSITIVE_TOKEN.test(t))) weight += 25;
+  if (list.some(t => NEGATIVE_TOKEN.test(t))) weight -= 25;
+  if (el.name === 'article' || el.name === 'main' || el.attribs.role === 'main') weight += 25;
+  return weight;
+}
+
+function tagWeight(el: Element): number {
+  switch (el.name) {
+    case 'article':
+    case 'main':
+    case 'section':
+    case 'div':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      return -3;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+function textLength($el: Cheerio<AnyNode>): number {
+  return $el.text().replace(/\s+/g, ' ').trim().length;
+}
+
+function linkDensity($: CheerioAPI, el: Element): number {
+  const total = textLength($(el));
+  if (total === 0) return 0;
+  const linked = $(el).find('a').toArray().reduce((sum, a) => sum + textLength($(a)), 0);
+  return Math.min(1, linked / total);
+}
+
+function isCookieNotice($: CheerioAPI, el: Element): boolean {
+  if (tokens(el).some(t => COOKIE_TOKEN.test(t))) return true;
+  // Unlabelled notices: short blocks that talk about cookies and offer a button to dismiss them
+  const $el = $(el);
+  const text = $el.text();
+  if (text.length > 800 || !/\bcookies?\b/i.test(text)) return false;
+  return $el.find('button, a, [role="button"], input[type="button"], input[type="submit"]')
+    .toArray()
+    .some(b => ACCEPT_TEXT.test($(b).text() || (b as Element).attribs?.value || ''));
+}
+
+// Strips navigation, page chrome, cookie notices and related-content widgets in place
+export function removeBoilerplate($: CheerioAPI, extraSelectors: string[] = []): void {
+  $(ALWAYS_REMOVE).remove();
+  for (const selector of extraSelectors) $(selector).remove();
+
+  // A <header> inside an article is its title block, not the site header
+  $(CHROME).filter((_, el) => $(el).parents('article').length === 0).remove();
+
+  $('[role="dialog"], [role="alertdialog"], [aria-modal="true"]').remove();
+
+  // Innermost elements first, so a notice is removed before its container could qualify
+  for (const el of $('body *').toArray().reverse()) {
+    if (isCookieNotice($, el)) {
+      $(el).remove();
+      continue;
+    }
+    const list = tokens(el);
+    const unlikely = list.some(t => UNLIKELY_TOKEN.test(t)) && !list.some(t => POSITIVE_TOKEN.test(t));
+    if (unlikely && el.name !== 'article' && el.name !== 'main') $(el).remove();
+  }
+}
+
+function isParagraphLike($: CheerioAPI, el: Element): boolean {
+  if (el.name === 'p' || el.name === 'pre' || el.name === 'td' || el.name === 'blockquote') return true;
+  // Divs used as paragraphs: text with no block-level children
+  return el.name === 'div' && $(el).children('p, div, section, article, ul, ol, table, pre, blockquote, h1, h2, h3, h4, h5, h6').length === 0;
+}
+
+// Readability-style scoring: paragraphs award points to their parent and grandparent,
+// scaled down by how much of each candidate's text is links
+export function scoreContent($: CheerioAPI): Element | null {
+  const scores = new Map<Element, number>();
+  const initialise = (el: Element) => {
+    if (!scores.has(el)) scores.set(el, tagWeight(el) + classWeight(el));
+  };
+
+  $('body').find('*').each((_, el) => {
+    if (!isParagraphLike($, el)) return;
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const commas = text.split(',').length - 1;
+    const points = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+    const parent = el.parent as Element | null;
+    if (!parent || parent.type !== 'tag') return;
+    initialise(parent);
+    scores.set(parent, scores.get(parent)! + points);
+
+    const grandparent = parent.parent as Element | null;
+    if (grandparent && grandparent.type === 'tag') {
+      initialise(grandparent);
+      scores.set(grandparent, scores.get(grandparent)! + points / 2);
+    }
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, raw] of scores) {
+    const score = raw * (1 - linkDensity($, el));
+    scores.set(el, score);
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  }
+  if (!best) return null;
+
+  // Content split across sibling blocks scores on the shared parent too; climb while it holds up
+  let parent = best.parent as Element | null;
+  while (parent && parent.type === 'tag' && parent.name !== 'body' && (scores.get(parent) ?? 0) >= bestScore * 0.75) {
+    best = parent;
+    parent = best.parent as Element | null;
+  }
+  return best;
+}
+
+export function findMainContent($: CheerioAPI, options: ExtractOptions = {}): Cheerio<AnyNode> {
+  if (options.contentSelector) {
+    const configured = $(options.contentSelector);
+    if (configured.length > 0) return configured.first();
+  }
+
+  const scored = scoreContent($);
+  if (scored) return $(scored);
+
+  const semantic = $(SEMANTIC_CONTENT);
+  return semantic.length > 0 ? semantic.first() : $('body');
+}
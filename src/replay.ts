@@ -0,0 +1,85 @@
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+
+// read-only: answer from the file and fail on anything missing, never calling the provider
+// record: answer from the file, call the provider for what's missing and add it
+// refresh: call the provider for everything and rewrite the file with this run's responses
+export const REPLAY_MODES = ['read-only', 'record', 'refresh'] as const;
+export type ReplayMode = (typeof REPLAY_MODES)[number];
+
+const REPLAY_VERSION = 1;
+
+export interface RecordedResponse {
+  provider: string;
+  model: string;
+  text: string;
+}
+
+// AI responses by provider, model and prompt hash; meant to be committed next to the config
+export interface ResponseCache {
+  version: number;
+  responses: Record<string, RecordedResponse>;
+}
+
+export interface Replay {
+  mode: ReplayMode;
+  cache: ResponseCache;
+  // Keys looked up or recorded this run, so refresh can drop the rest
+  used: Set<string>;
+  hits: number;
+  recorded: number;
+}
+
+export function responseKey(provider: string, model: string, prompt: string): string {
+  return `${provider}/${model}/${createHash('sha256').update(prompt).digest('hex')}`;
+}
+
+export async function loadResponseCache(cachePath: string): Promise<ResponseCache> {
+  const full = path.resolve(cachePath);
+  if (!existsSync(full)) return { version: REPLAY_VERSION, responses: {} };
+  let parsed: ResponseCache;
+  try {
+    parsed = JSON.parse(await readFile(full, 'utf-8')) as ResponseCache;
+  } catch (err) {
+    throw new Error(`Cannot read AI responses from ${cachePath}: ${(err as Error).message}`);
+  }
+  // Unlike the page cache this is committed on purpose, so silently starting over would hide a mistake
+  if (parsed.version !== REPLAY_VERSION || typeof parsed.responses !== 'object' || parsed.responses === null) {
+    throw new Error(`${cachePath} is not an AI response file from this version of llm-txt-gen`);
+  }
+  return parsed;
+}
+
+export function createReplay(cache: ResponseCache, mode: ReplayMode): Replay {
+  return { mode, cache, used: new Set(), hits: 0, recorded: 0 };
+}
+
+// The recorded response to reuse for a prompt; refresh never reuses one
+export function replayResponse(replay: Replay, key: string): string | undefined {
+  if (replay.mode === 'refresh') return undefined;
+  const recorded = replay.cache.responses[key];
+  if (!recorded) return undefined;
+  replay.used.add(key);
+  replay.hits++;
+  return recorded.text;
+}
+
+export function recordResponse(replay: Replay, key: string, response: RecordedResponse): void {
+  replay.cache.responses[key] = response;
+  replay.used.add(key);
+  replay.recorded++;
+}
+
+// Keys are sorted so the same responses always produce the same file, whatever order they arrived in
+export async function saveResponseCache(cachePath: string, replay: Replay): Promise<void> {
+  const keys = Object.keys(replay.cache.responses)
+    .filter(key => replay.mode !== 'refresh' || replay.used.has(key))
+    .sort();
+  const file: ResponseCache = {
+    version: REPLAY_VERSION,
+    responses: Object.fromEntries(keys.map(key => [key, replay.cache.responses[key]])),
+  };
+  await writeFile(path.resolve(cachePath), JSON.stringify(file, null, 2) + '\n', 'utf-8');
+}
@@ -0,0 +1,190 @@
+export const USER_AGENT_TOKEN = 'llm-txt-gen';
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// The rules that apply to one user agent, after group selection
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelay?: number;
+  // Why robots.txt could not be read ("HTTP 503", "fetch failed"), when that is what disallows everything
+  unreachable?: string;
+}
+
+export interface RobotsGate {
+  allows(url: string): boolean;
+  wait(): Promise<void>;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [] };
+export const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: '/' }] };
+
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep === -1) continue;
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (key === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+// Merge every group naming our product token; fall back to the "*" groups
+export function selectPolicy(robots: RobotsTxt, userAgent = USER_AGENT_TOKEN): RobotsPolicy {
+  const token = userAgent.toLowerCase();
+  let matched = robots.groups.filter(g => g.agents.includes(token));
+  if (matched.length === 0) matched = robots.groups.filter(g => g.agents.includes('*'));
+  if (matched.length === 0) return ALLOW_ALL;
+
+  const delays = matched.map(g => g.crawlDelay).filter((d): d is number => d !== undefined);
+  return {
+    rules: matched.flatMap(g => g.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Longest matching pattern wins; on a tie Allow beats Disallow
+export function isAllowed(policy: RobotsPolicy, url: string): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = parsed.pathname + parsed.search;
+  } catch { return false; }
+
+  if (path === '/robots.txt') return true;
+
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+// Per RFC 9309: a missing robots.txt allows everything, an unreachable one allows nothing
+export async function fetchRobotsPolicy(baseUrl: string): Promise<RobotsPolicy> {
+  const origin = new URL(baseUrl).origin;
+  try {
+    const res = await fetch(`${origin}/robots.txt`, {
+      signal: AbortSignal.timeout(5000),
+      headers: { 'User-Agent': 'llm-txt-gen/0.1 (+https://github.com/remete618/llm-txt-gen)' },
+    });
+    if (res.ok) return selectPolicy(parseRobotsTxt(await res.text()));
+    if (res.status >= 400 && res.status < 500) return ALLOW_ALL;
+    return { ...DISALLOW_ALL, unreachable: `HTTP ${res.status}` };
+  } catch (err) {
+    return { ...DISALLOW_ALL, unreachable: (err as Error).message };
+  }
+}
+
+export function createRobotsGate(policy: RobotsPolicy): RobotsGate {
+  const delayMs = (policy.crawlDelay ?? 0) * 1000;
+  let nextSlot = 0;
+
+  return {
+    allows: url => isAllowed(policy, url),
+    async wait() {
+      if (delayMs <= 0) return;
+      // Reserve the next slot synchronously so parallel callers queue up
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot);
+      nextSlot = slot + delayMs;
+      if (slot > now) await new Promise(r => setTimeout(r, slot - now));
+    },
+  };
+}
+
+// Page-level directives that take a value after a colon, so "max-snippet: 50" is not read as an agent prefix
+const VALUE_DIRECTIVES = new Set(['unavailable_after', 'max-snippet', 'max-image-preview', 'max-video-preview']);
+
+// Directives that keep a page out of llm.txt: the standard ones, plus "noai" for opting out of AI use
+export const NOINDEX_DIRECTIVES = ['noindex', 'none', 'noai'];
+
+// The directives in a <meta name="robots"> content or an X-Robots-Tag header that apply to us.
+// "googlebot: noindex, nofollow" scopes everything after the prefix to that agent; unprefixed ones apply to all.
+export function robotsDirectives(value: string | undefined, userAgent = USER_AGENT_TOKEN): string[] {
+  const token = userAgent.toLowerCase();
+  const directives: string[] = [];
+  let agent: string | undefined;
+  for (const raw of (value ?? '').split(',')) {
+    let part = raw.trim().toLowerCase();
+    const prefixed = part.match(/^([a-z][\w-]*)\s*:\s*(.*)$/);
+    if (prefixed && !VALUE_DIRECTIVES.has(prefixed[1])) {
+      agent = prefixed[1];
+      part = prefixed[2];
+    }
+    if (part && (agent === undefined || agent === token)) directives.push(part.replace(/\s*:\s*/, ': '));
+  }
+  return directives;
+}
+
+// The directive that excludes a page, e.g. "noindex", or undefined when it may be listed
+export function noindexDirective(directives: string[]): string | undefined {
+  return NOINDEX_DIRECTIVES.find(directive => directives.includes(directive));
+}
+
+export function isNofollow(directives: string[]): boolean {
+  return directives.includes('nofollow') || directives.includes('none');
+}
@@ -0,0 +1,135 @@
+import type { SitemapEntry } from './sitemap.js';
+import type { SectionRule } from './formatter.js';
+import { getSectionLabel, isKeyPage } from './formatter.js';
+import { findMatchingPattern } from './patterns.js';
+
+// balanced: key pages, then sections in turn; recent: key pages, then newest lastmod first;
+// priority: sitemap <priority> alone, as older versions did
+export const SELECT_STRATEGIES = ['balanced', 'recent', 'priority'] as const;
+export type SelectStrategy = typeof SELECT_STRATEGIES[number];
+
+// How many sitemap URLs to read when choosing, rather than stopping at --limit: the protocol's per-file
+// maximum, since a section listed after thousands of blog posts is only found by reading past them
+export const MAX_CANDIDATES = 50_000;
+
+export function candidateLimit(limit: number, strategy: SelectStrategy): number {
+  return strategy === 'priority' ? limit : MAX_CANDIDATES;
+}
+
+const KEY_PAGES_LABEL = 'Key Pages';
+
+export interface SelectOptions {
+  strategy?: SelectStrategy;
+  // Configured sections claim their URLs first; a quota reserves that many URLs for the section and caps it there
+  sections?: Array<Pick<SectionRule, 'label' | 'patterns'> & { quota?: number }>;
+  // URL patterns that replace the built-in key page detection
+  keyPages?: string[];
+}
+
+export interface SelectedSection {
+  label: string;
+  selected: number;
+  available: number;
+}
+
+export interface Selection {
+  // In their original order
+  selected: SitemapEntry[];
+  skipped: SitemapEntry[];
+  sections: SelectedSection[];
+}
+
+// What entries are ranked on, worked out once per entry rather than on every comparison
+interface RankKey {
+  time: number;
+  depth: number;
+  order: number;
+}
+
+function rankKey(entry: SitemapEntry, order: number): RankKey {
+  const parsed = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+  let depth = Infinity;
+  try {
+    depth = new URL(entry.url).pathname.split('/').filter(Boolean).length;
+  } catch { /* an unparseable URL ranks last */ }
+  return { time: isNaN(parsed) ? -Infinity : parsed, depth, order };
+}
+
+// Compares two numbers descending; entries without a lastmod (-Infinity) tie with each other
+function descending(a: number, b: number): number {
+  return a === b ? 0 : b - a;
+}
+
+// Chooses `limit` entries. Key pages come first, then each configured quota, then the strategy fills what is left.
+export function selectEntries(entries: SitemapEntry[], limit: number, options: SelectOptions = {}): Selection {
+  const { strategy = 'balanced', sections = [], keyPages } = options;
+  const keys = new Map(entries.map((entry, i) => [entry, rankKey(entry, i)]));
+  const byImportance = (a: SitemapEntry, b: SitemapEntry) => {
+    const [ka, kb] = [keys.get(a)!, keys.get(b)!];
+    return descending(a.priority, b.priority) || descending(ka.time, kb.time) || ka.depth - kb.depth || ka.order - kb.order;
+  };
+  const byRecency = (a: SitemapEntry, b: SitemapEntry) =>
+    descending(keys.get(a)!.time, keys.get(b)!.time) || byImportance(a, b);
+
+  const groups = new Map<string, SitemapEntry[]>();
+  const add = (label: string, entry: SitemapEntry) => {
+    const group = groups.get(label);
+    if (group) group.push(entry);
+    else groups.set(label, [entry]);
+  };
+  for (const entry of entries) {
+    if (strategy !== 'priority' && isKeyPage(entry.url, keyPages)) {
+      add(KEY_PAGES_LABEL, entry);
+      continue;
+    }
+    const rule = sections.find(r => findMatchingPattern(entry.url, r.patterns) !== undefined);
+    add(rule?.label ?? getSectionLabel(entry.url), entry);
+  }
+
+  const chosen = new Set<SitemapEntry>();
+  const take = (list: SitemapEntry[]) => {
+    for (const entry of list) {
+      if (chosen.size >= limit) return;
+      chosen.add(entry);
+    }
+  };
+
+  if (strategy === 'priority') {
+    take([...entries].sort((a, b) => descending(a.priority, b.priority) || keys.get(a)!.order - keys.get(b)!.order));
+  } else {
+    const rank = strategy === 'recent' ? byRecency : byImportance;
+    take([...(groups.get(KEY_PAGES_LABEL) ?? [])].sort(rank));
+
+    const quotas = new Map<string, number>();
+    for (const rule of sections) {
+      if (rule.quota !== undefined && !quotas.has(rule.label)) quotas.set(rule.label, rule.quota);
+    }
+    const open: SitemapEntry[][] = [];
+    for (const [label, list] of groups) {
+      if (label === KEY_PAGES_LABEL) continue;
+      const ranked = [...list].sort(rank);
+      const quota = quotas.get(label);
+      if (quota === undefined) open.push(ranked);
+      else take(ranked.slice(0, quota));
+    }
+
+    if (strategy === 'recent') {
+      take(open.flat().sort(rank));
+    } else {
+      // One URL from each section in turn, so a section of thousands can't crowd out one of ten
+      for (let round = 0; chosen.size < limit && open.some(list => round < list.length); round++) {
+        take(open.filter(list => round < list.length).map(list => list[round]));
+      }
+    }
+  }
+
+  return {
+    selected: entries.filter(entry => chosen.has(entry)),
+    skipped: entries.filter(entry => !chosen.has(entry)),
+    sections: [...groups].map(([label, list]) => ({
+      label,
+      selected: list.filter(entry => chosen.has(entry)).length,
+      available: list.length,
+    })),
+  };
+}
@@ -1,81 +1,473 @@
-import * as cheerio from 'cheerio';
+import { Parser } from 'htmlparser2';
+import { normalizeLocale, ownHreflang } from './locale.js';
+import { parseRobotsTxt } from './robots.js';
+import { normalizeUrl } from './crawler.js';
 
 export interface SitemapEntry {
   url: string;
   priority: number;
   lastmod?: string;
+  // From <xhtml:link rel="alternate" hreflang> children: the entry's own language and its translations
+  lang?: string;
+  alternates?: Record<string, string>;
 }
 
-export async function discoverSitemapUrl(baseUrl: string): Promise<string | null> {
+// What a sitemap URL turned out to hold
+export type SitemapFormat = 'urlset' | 'sitemapindex' | 'rss' | 'atom' | 'text';
+
+// One record of a sitemap document: a page, or a child sitemap of an index
+export type SitemapItem = { entry: SitemapEntry } | { sitemap: string };
+
+export interface SitemapFetchOptions {
+  // Sitemaps downloaded at once while reading an index or a list of sitemaps (default 4)
+  concurrency?: number;
+  // Called for child or listed sitemaps that fail; the rest are read without them
+  onError?: (url: string, err: Error) => void;
+  // Called for records whose URL is not an http(s) URL, even resolved against the sitemap's; they are skipped
+  onInvalid?: (sitemapUrl: string, value: string) => void;
+  // Give each sitemap of an index or list an equal share of the limit, instead of filling it in list order,
+  // so a huge first child can't crowd out the others
+  share?: boolean;
+}
+
+const FALLBACK_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/sitemap/sitemap.xml', '/sitemap.xml.gz'];
+const SITEMAP_TIMEOUT_MS = 10000;
+const DEFAULT_CONCURRENCY = 4;
+// The protocol doesn't allow indexes inside indexes, but some sites nest them a level or two
+const MAX_INDEX_DEPTH = 3;
+
+// Every Sitemap: line in robots.txt, in order; else the first of the usual paths that holds a sitemap
+export async function discoverSitemapUrls(baseUrl: string): Promise<string[]> {
   const normalized = baseUrl.replace(/\/$/, '');
-  const candidates: string[] = [];
 
-  // Check robots.txt first for a Sitemap: directive
   try {
     const robotsRes = await fetch(`${normalized}/robots.txt`, { signal: AbortSignal.timeout(5000) });
     if (robotsRes.ok) {
-      const robotsTxt = await robotsRes.text();
-      const match = robotsTxt.match(/^Sitemap:\s*(.+)$/mi);
-      if (match) candidates.push(match[1].trim());
+      const declared = [...new Set(parseRobotsTxt(await robotsRes.text()).sitemaps)];
+      if (declared.length > 0) return declared;
     }
   } catch { /* ignore */ }
 
-  candidates.push(
-    `${normalized}/sitemap.xml`,
-    `${normalized}/sitemap_index.xml`,
-    `${normalized}/sitemap/sitemap.xml`,
-  );
+  for (const candidate of FALLBACK_PATHS) {
+    const url = `${normalized}${candidate}`;
+    try {
+      // Reading up to the first record is enough to tell a sitemap from an HTML error page
+      for await (const _item of streamSitemap(url)) break;
+      return [url];
+    } catch { /* continue */ }
+  }
 
-  for (const url of candidates) {
+  return [];
+}
+
+// The first sitemap discoverSitemapUrls finds, or null
+export async function discoverSitemapUrl(baseUrl: string): Promise<string | null> {
+  return (await discoverSitemapUrls(baseUrl))[0] ?? null;
+}
+
+// Push parser for every supported format: write() chunks as they arrive and get back the records they
+// completed. Throws as soon as the root element shows the document is not a sitemap or feed.
+export interface SitemapParser {
+  write(chunk: string): SitemapItem[];
+  end(): SitemapItem[];
+  // Known once the root element, or the first character of a text sitemap, has been seen
+  readonly format: SitemapFormat | undefined;
+}
+
+const ROOT_FORMATS: Record<string, SitemapFormat> = {
+  urlset: 'urlset',
+  sitemapindex: 'sitemapindex',
+  rss: 'rss',
+  RDF: 'rss',
+  feed: 'atom',
+};
+
+// The element each record is wrapped in
+const RECORD_ELEMENTS: Record<SitemapFormat, string> = {
+  urlset: 'url',
+  sitemapindex: 'sitemap',
+  rss: 'item',
+  atom: 'entry',
+  text: '',
+};
+
+interface Draft {
+  // Text of the record's child elements, by local name
+  text: Record<string, string>;
+  alternates: Record<string, string>;
+  // Atom: the entry's alternate link
+  href?: string;
+  // RSS: whether <guid> is a permalink
+  permalink: boolean;
+}
+
+// "xhtml:link" → "link"
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+// `onInvalid` hears of records skipped because their URL is not http(s), even resolved against `sitemapUrl`
+export function createSitemapParser(sitemapUrl?: string, onInvalid?: (value: string) => void): SitemapParser {
+  const notASitemap = () => new Error(sitemapUrl ? `Not a sitemap or feed: ${sitemapUrl}` : 'Not a sitemap or feed');
+  let format: SitemapFormat | undefined;
+  let items: SitemapItem[] = [];
+  let depth = 0;
+  let draft: Draft | undefined;
+  let field: string | undefined;
+  // Text sitemaps: the start of a line still being received
+  let partial = '';
+
+  const resolve = (value: string): string | undefined => {
     try {
-      const res = await fetch(url, { signal: AbortSignal.timeout(5000) });
-      if (res.ok) {
-        const text = await res.text();
-        if (text.includes('<urlset') || text.includes('<sitemapindex')) {
-          return url;
+      const url = new URL(value, sitemapUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') return url.href;
+    } catch { /* not a URL */ }
+    onInvalid?.(value);
+    return undefined;
+  };
+
+  const feedEntry = (href: string | undefined, date: string | undefined) => {
+    const url = href?.trim() ? resolve(href.trim()) : undefined;
+    if (!url) return;
+    const time = date ? new Date(date.trim()) : undefined;
+    const lastmod = time && !isNaN(time.getTime()) ? time.toISOString() : undefined;
+    items.push({ entry: { url, priority: 0.5, ...(lastmod ? { lastmod } : {}) } });
+  };
+
+  const finish = ({ text, alternates, href, permalink }: Draft) => {
+    const get = (name: string) => text[name]?.trim() || undefined;
+    if (format === 'urlset') {
+      const loc = get('loc');
+      const url = loc && resolve(loc);
+      if (!url) return;
+      const lang = normalizeLocale(ownHreflang(url, alternates));
+      items.push({
+        entry: {
+          url,
+          priority: parseFloat(get('priority') ?? '') || 0.5,
+          lastmod: get('lastmod'),
+          ...(lang ? { lang } : {}),
+          ...(Object.keys(alternates).length > 0 ? { alternates } : {}),
+        },
+      });
+    } else if (format === 'sitemapindex') {
+      const loc = get('loc');
+      const url = loc && resolve(loc);
+      if (url) items.push({ sitemap: url });
+    } else if (format === 'rss') {
+      const guid = get('guid');
+      feedEntry(get('link') ?? (permalink && guid && /^https?:/i.test(guid) ? guid : undefined), get('pubDate') ?? get('date'));
+    } else {
+      feedEntry(href, get('updated') ?? get('published'));
+    }
+  };
+
+  const xml = new Parser({
+    onopentag(name, attribs) {
+      const local = localName(name);
+      if (depth++ === 0) {
+        format = ROOT_FORMATS[local];
+        if (!format) throw notASitemap();
+        return;
+      }
+      if (local === RECORD_ELEMENTS[format!]) {
+        draft = { text: {}, alternates: {}, permalink: true };
+        return;
+      }
+      if (!draft) return;
+      field = local;
+      if (local === 'guid') draft.permalink = attribs.isPermaLink !== 'false';
+      if (local === 'link' && (attribs.rel ?? 'alternate') === 'alternate' && attribs.href) {
+        if (format === 'urlset') {
+          const locale = normalizeLocale(attribs.hreflang);
+          if (locale) draft.alternates[locale] = attribs.href.trim();
+        } else if (format === 'atom' && !draft.href) {
+          draft.href = attribs.href;
         }
       }
-    } catch { /* continue */ }
+    },
+    ontext(text) {
+      if (draft && field) draft.text[field] = (draft.text[field] ?? '') + text;
+    },
+    onclosetag(name) {
+      depth--;
+      field = undefined;
+      if (draft && localName(name) === RECORD_ELEMENTS[format!]) {
+        finish(draft);
+        draft = undefined;
+      }
+    },
+  }, { xmlMode: true });
+
+  const readLines = (text: string, last: boolean) => {
+    const lines = (partial + text).split(/\r?\n/);
+    partial = last ? '' : lines.pop()!;
+    for (const raw of lines) {
+      const line = raw.trim();
+      if (!line) continue;
+      if (!/^https?:\/\/\S+$/i.test(line)) throw notASitemap();
+      items.push({ entry: { url: line, priority: 0.5 } });
+    }
+  };
+
+  const take = () => {
+    const done = items;
+    items = [];
+    return done;
+  };
+
+  return {
+    get format() {
+      return format;
+    },
+    write(chunk) {
+      if (format === undefined && depth === 0) {
+        // XML starts with "<"; anything else can only be a text sitemap
+        const start = chunk.trimStart();
+        if (!start) return [];
+        if (!start.startsWith('<')) format = 'text';
+      }
+      if (format === 'text') readLines(chunk, false);
+      else xml.write(chunk);
+      return take();
+    },
+    end() {
+      if (format === 'text') readLines('', true);
+      else xml.end();
+      if (format === undefined) throw notASitemap();
+      return take();
+    },
+  };
+}
+
+// Gzipped sitemaps arrive compressed unless the server also sent Content-Encoding: gzip, so go by the first bytes
+async function* bodyChunks(res: Response): AsyncGenerator<Uint8Array> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  try {
+    const first = await reader.read();
+    if (first.done) return;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(first.value);
+      },
+      async pull(controller) {
+        const next = await reader.read();
+        if (next.done) controller.close();
+        else controller.enqueue(next.value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+    const gzipped = first.value[0] === 0x1f && first.value[1] === 0x8b;
+    yield* gzipped ? body.pipeThrough(new DecompressionStream('gzip') as TransformStream<Uint8Array, Uint8Array>) : body;
+  } finally {
+    // Stops the download when the caller has read enough
+    await reader.cancel().catch(() => {});
+  }
+}
+
+// The records of one sitemap document as they download; returning early cancels the rest of the download
+export async function* streamSitemap(
+  sitemapUrl: string,
+  signal?: AbortSignal,
+  onInvalid?: (value: string) => void,
+): AsyncGenerator<SitemapItem> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`Timed out fetching sitemap ${sitemapUrl}`)), SITEMAP_TIMEOUT_MS);
+  const cancel = () => controller.abort(signal?.reason);
+  if (signal?.aborted) cancel();
+  signal?.addEventListener('abort', cancel, { once: true });
+  try {
+    const res = await fetch(sitemapUrl, { signal: controller.signal });
+    if (!res.ok) throw new Error(`Failed to fetch sitemap ${sitemapUrl}: ${res.status}`);
+    const parser = createSitemapParser(sitemapUrl, onInvalid);
+    const decoder = new TextDecoder();
+    for await (const chunk of bodyChunks(res)) {
+      yield* parser.write(decoder.decode(chunk, { stream: true }));
+    }
+    yield* parser.write(decoder.decode());
+    yield* parser.end();
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
   }
+}
 
-  return null;
+// State shared by every sitemap read for one fetchSitemap or fetchSitemaps call
+interface SitemapWalk {
+  // Sitemaps already read, so an index listing itself or an ancestor is read once
+  visited: Set<string>;
+  concurrency: number;
+  slot: () => Promise<() => void>;
+  onError?: (url: string, err: Error) => void;
+  onInvalid?: (sitemapUrl: string, value: string) => void;
+  share: boolean;
 }
 
-export async function fetchSitemap(sitemapUrl: string, limit = 50): Promise<SitemapEntry[]> {
-  const res = await fetch(sitemapUrl, { signal: AbortSignal.timeout(10000) });
-  if (!res.ok) throw new Error(`Failed to fetch sitemap ${sitemapUrl}: ${res.status}`);
-  const xml = await res.text();
-  return parseSitemapXml(xml, new URL(sitemapUrl).origin, limit);
+function createWalk(options: SitemapFetchOptions): SitemapWalk {
+  const max = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+  return {
+    visited: new Set(),
+    concurrency: max,
+    onError: options.onError,
+    onInvalid: options.onInvalid,
+    share: options.share ?? false,
+    // Holds one of the download slots until the returned function is called
+    async slot() {
+      while (active >= max) await new Promise<void>(resolve => waiting.push(resolve));
+      active++;
+      return release;
+    },
+  };
 }
 
-export async function parseSitemapXml(xml: string, origin = '', limit = 50): Promise<SitemapEntry[]> {
-  const $ = cheerio.load(xml, { xmlMode: true });
+// One sitemap's own entries, highest priority first, followed by its children's if it is an index
+async function readSitemap(
+  sitemapUrl: string,
+  limit: number,
+  walk: SitemapWalk,
+  depth: number,
+  signal?: AbortSignal,
+): Promise<SitemapEntry[]> {
+  const key = normalizeUrl(sitemapUrl);
+  if (walk.visited.has(key)) return [];
+  walk.visited.add(key);
 
-  // Sitemap index — recurse into child sitemaps
-  const childSitemaps = $('sitemapindex sitemap loc');
-  if (childSitemaps.length > 0) {
-    const entries: SitemapEntry[] = [];
-    for (const el of childSitemaps.toArray()) {
+  const entries: SitemapEntry[] = [];
+  const children: string[] = [];
+  // The slot covers this document's download only, so an index waiting on its children doesn't hold one
+  const release = await walk.slot();
+  try {
+    const onInvalid = walk.onInvalid && ((value: string) => walk.onInvalid!(sitemapUrl, value));
+    for await (const item of streamSitemap(sitemapUrl, signal, onInvalid)) {
+      if ('sitemap' in item) {
+        children.push(item.sitemap);
+        continue;
+      }
+      entries.push(item.entry);
       if (entries.length >= limit) break;
-      const childUrl = $(el).text().trim();
+    }
+  } finally {
+    release();
+  }
+  entries.sort((a, b) => b.priority - a.priority);
+
+  if (children.length === 0 || entries.length >= limit) return entries.slice(0, limit);
+  if (depth >= MAX_INDEX_DEPTH) {
+    walk.onError?.(sitemapUrl, new Error(`Sitemap indexes nested more than ${MAX_INDEX_DEPTH} deep`));
+    return entries;
+  }
+  return [...entries, ...await readSitemapList(children, limit - entries.length, walk, depth + 1, signal)];
+}
+
+// Sitemaps read in parallel and combined in list order, each URL once. As soon as the sitemaps at the
+// front of the list have supplied `limit` entries, the ones still downloading are cancelled; with
+// `share`, each sitemap supplies at most its share of `limit`.
+async function readSitemapList(
+  sitemapUrls: string[],
+  limit: number,
+  walk: SitemapWalk,
+  depth: number,
+  signal?: AbortSignal,
+): Promise<SitemapEntry[]> {
+  const controller = new AbortController();
+  const cancel = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  const results: Array<SitemapEntry[] | undefined> = sitemapUrls.map(() => undefined);
+  const taken: SitemapEntry[] = [];
+  const seen = new Set<string>();
+  let settled = 0;
+  // Moves finished sitemaps at the front of the list into `taken`; later ones wait their turn
+  const advance = () => {
+    for (; settled < results.length && results[settled]; settled++) {
+      for (const entry of results[settled]!) {
+        if (seen.has(entry.url)) continue;
+        seen.add(entry.url);
+        taken.push(entry);
+      }
+    }
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < sitemapUrls.length && !controller.signal.aborted) {
+      const i = next++;
       try {
-        const childEntries = await fetchSitemap(childUrl, limit - entries.length);
-        entries.push(...childEntries);
-      } catch { /* skip broken child sitemaps */ }
+        const share = walk.share ? Math.ceil(limit / sitemapUrls.length) : limit - taken.length;
+        results[i] = await readSitemap(sitemapUrls[i], share, walk, depth, controller.signal);
+      } catch (err) {
+        results[i] = [];
+        if (!controller.signal.aborted) walk.onError?.(sitemapUrls[i], err as Error);
+      }
+      advance();
+      if (taken.length >= limit) controller.abort();
     }
-    return entries.slice(0, limit);
+  };
+
+  try {
+    // Nested indexes run their own workers; walk.slot() caps the downloads across all of them
+    await Promise.all(Array.from({ length: Math.min(walk.concurrency, sitemapUrls.length) }, worker));
+  } finally {
+    signal?.removeEventListener('abort', cancel);
   }
+  advance();
+  return taken.slice(0, limit);
+}
+
+export async function fetchSitemap(
+  sitemapUrl: string,
+  limit = 50,
+  options: SitemapFetchOptions = {},
+): Promise<SitemapEntry[]> {
+  return readSitemap(sitemapUrl, limit, createWalk(options), 0);
+}
 
-  // Regular urlset
+// Several sitemaps, in order, skipping any that fail and URLs an earlier one already listed
+export async function fetchSitemaps(
+  sitemapUrls: string[],
+  limit = 50,
+  options: SitemapFetchOptions = {},
+): Promise<SitemapEntry[]> {
+  return readSitemapList(sitemapUrls, limit, createWalk(options), 0);
+}
+
+// One URL per line, as in a text sitemap or a --urls-file; blank lines and # comments are skipped,
+// and relative URLs resolve against `base`
+export function parseUrlList(text: string, base?: string): SitemapEntry[] {
   const entries: SitemapEntry[] = [];
-  $('urlset url').each((_, el) => {
-    if (entries.length >= limit) return false as unknown as void;
-    const loc = $(el).find('loc').text().trim();
-    if (!loc) return;
-    const priority = parseFloat($(el).find('priority').text()) || 0.5;
-    const lastmod = $(el).find('lastmod').text().trim() || undefined;
-    entries.push({ url: loc, priority, lastmod });
-  });
-
-  return entries.sort((a, b) => b.priority - a.priority);
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    try {
+      const url = new URL(line, base);
+      if (url.protocol === 'http:' || url.protocol === 'https:') entries.push({ url: url.href, priority: 0.5 });
+    } catch { /* not a URL */ }
+  }
+  return entries;
+}
+
+// RSS 2.0 (and RSS 1.0) items and Atom entries, in the order the feed lists them
+export function parseFeed(xml: string, feedUrl?: string): SitemapEntry[] {
+  const parser = createSitemapParser(feedUrl);
+  return [...parser.write(xml), ...parser.end()].flatMap(item => ('entry' in item ? [item.entry] : []));
+}
+
+// A sitemap already in memory; an index's children are fetched
+export async function parseSitemapXml(xml: string, origin = '', limit = 50): Promise<SitemapEntry[]> {
+  const parser = createSitemapParser(origin || undefined);
+  const items = [...parser.write(xml), ...parser.end()];
+  const entries = items.flatMap(item => ('entry' in item ? [item.entry] : [])).slice(0, limit);
+  entries.sort((a, b) => b.priority - a.priority);
+  const children = items.flatMap(item => ('sitemap' in item ? [item.sitemap] : []));
+  if (children.length === 0 || entries.length >= limit) return entries;
+  return [...entries, ...await readSitemapList(children, limit - entries.length, createWalk({}), 1)];
 }
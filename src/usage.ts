@@ -0,0 +1,133 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import type { MergedPage } from './dedupe.js';
+
+export interface AiUsage {
+  // Every attempt counts, including retries
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// USD per million tokens
+export interface AiPrice {
+  input: number;
+  output: number;
+}
+
+// Standard-tier list prices; providers change these, so treat costs as estimates and override with aiPricing
+const MODEL_PRICES: Record<string, AiPrice> = {
+  'claude-haiku-4-5-20251001': { input: 1, output: 5 },
+  'claude-haiku-4-5':          { input: 1, output: 5 },
+  'claude-sonnet-4-5':         { input: 3, output: 15 },
+  'gpt-4o-mini':               { input: 0.15, output: 0.6 },
+  'gpt-4o':                    { input: 2.5, output: 10 },
+  'gpt-4.1-mini':              { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano':              { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash':          { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash':          { input: 0.3, output: 2.5 },
+  'sonar':                     { input: 1, output: 1 },
+  'grok-3-mini':               { input: 0.3, output: 0.5 },
+  'deepseek-chat':             { input: 0.27, output: 1.1 },
+};
+
+// Anthropic and OpenAI both charge half price for batch requests
+const BATCH_DISCOUNT = 0.5;
+
+export function batchPrice(price: AiPrice): AiPrice {
+  return { input: price.input * BATCH_DISCOUNT, output: price.output * BATCH_DISCOUNT };
+}
+
+export function emptyUsage(): AiUsage {
+  return { requests: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+export function addUsage(a: AiUsage, b: AiUsage): AiUsage {
+  return {
+    requests: a.requests + b.requests,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+  };
+}
+
+export function getModelPrice(model: string): AiPrice | undefined {
+  return MODEL_PRICES[model];
+}
+
+export function costOf(usage: AiUsage, price: AiPrice): number {
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function formatCost(usd: number): string {
+  return usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+function count(n: number): string {
+  return n.toLocaleString('en-US');
+}
+
+// "AI usage: 52 requests, 31,200 input + 1,480 output tokens, $0.04 (claude-haiku-4-5-20251001)"
+export function formatUsage(usage: AiUsage, model: string, price?: AiPrice): string {
+  const cost = price ? formatCost(costOf(usage, price)) : 'cost unknown';
+  return `AI usage: ${count(usage.requests)} requests, ${count(usage.inputTokens)} input + ` +
+    `${count(usage.outputTokens)} output tokens, ${cost} (${model})`;
+}
+
+export interface EstimateRow {
+  provider: string;
+  model: string;
+  price?: AiPrice;
+}
+
+// One token count for all providers (the prompts are the same), priced per provider
+export function formatEstimate(usage: AiUsage, rows: EstimateRow[]): string {
+  const table = rows.map(row => [
+    row.provider,
+    row.model,
+    row.price ? `$${row.price.input} / $${row.price.output}` : '?',
+    row.price ? formatCost(costOf(usage, row.price)) : '?',
+  ]);
+  const header = ['Provider', 'Model', 'Price per 1M in / out', 'Estimated cost'];
+  const widths = header.map((h, i) => Math.max(h.length, ...table.map(r => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+  return [
+    `Estimated AI usage: ${count(usage.requests)} requests, ~${count(usage.inputTokens)} input + ` +
+      `~${count(usage.outputTokens)} output tokens`,
+    '',
+    line(header),
+    ...table.map(line),
+    '',
+  ].join('\n');
+}
+
+export interface RunReport {
+  url: string;
+  startedAt: string;
+  finishedAt: string;
+  pages: number;
+  outputs: {
+    llmTxt?: string;
+    llmFullTxt?: string;
+    mdDir?: string;
+    // With --split-locales, the files written for each language
+    locales?: Record<string, { llmTxt?: string; llmFullTxt?: string }>;
+  };
+  // Pages merged into another one as duplicates
+  duplicates?: MergedPage[];
+  // Pages left out because of a robots directive such as noindex
+  excluded?: Array<{ url: string; reason: string }>;
+  ai?: AiUsage & {
+    provider: string;
+    model: string;
+    // Null when the model's price is unknown
+    costUsd: number | null;
+    failures: number;
+  };
+  estimate?: AiUsage & {
+    providers: Array<{ provider: string; model: string; costUsd: number | null }>;
+  };
+}
+
+export async function writeRunReport(reportPath: string, report: RunReport): Promise<void> {
+  await writeFile(path.resolve(reportPath), JSON.stringify(report, null, 2) + '\n', 'utf-8');
+}
@@ -1,6 +1,21 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { generateDescriptions, getProviderEnvVar } from '../src/ai.js';
+import {
+  createAiClient,
+  descriptionPrompt,
+  estimateDescriptionUsage,
+  estimateOutlineUsage,
+  generateDescriptions,
+  generateDescriptionsWithReport,
+  getProviderEnvVar,
+  getProviderModel,
+  getProviderRateLimit,
+  groupPages,
+  summarizeFailures,
+  summarizeSite,
+  writeSectionIntros,
+} from '../src/ai.js';
 import type { AiProvider } from '../src/ai.js';
+import { createReplay } from '../src/replay.js';
 import type { PageData } from '../src/extractor.js';
 
 const mockFetch = vi.fn();
@@ -14,10 +29,11 @@ afterEach(() => {
   vi.unstubAllGlobals();
 });
 
-function jsonRes(body: unknown, status = 200) {
+function jsonRes(body: unknown, status = 200, headers: Record<string, string> = {}) {
   return {
     ok: status >= 200 && status < 300,
     status,
+    headers: new Headers(headers),
     json: () => Promise.resolve(body),
   };
 }
@@ -46,6 +62,7 @@ describe('getProviderEnvVar', () => {
     ['perplexity', 'PERPLEXITY_API_KEY'],
     ['grok', 'XAI_API_KEY'],
     ['deepseek', 'DEEPSEEK_API_KEY'],
+    ['openai-compatible', 'OPENAI_COMPATIBLE_API_KEY'],
   ] as [AiProvider, string][])('%s → %s', (provider, envVar) => {
     expect(getProviderEnvVar(provider)).toBe(envVar);
   });
@@ -66,8 +83,8 @@ describe('generateDescriptions — OpenAI-compatible providers', () => {
   );
 
   it('falls back to original description on fetch error', async () => {
-    mockFetch.mockRejectedValueOnce(new Error('Network error'));
-    const results = await generateDescriptions([page], 'openai', 'test-key');
+    mockFetch.mockRejectedValue(new Error('Network error'));
+    const results = await generateDescriptions([page], 'openai', 'test-key', { retryBaseMs: 0, requestsPerMinute: 0 });
     expect(results[0].description).toBe(page.description);
   });
 
@@ -95,6 +112,65 @@ describe('generateDescriptions — Gemini', () => {
   });
 });
 
+describe('generateDescriptions — custom models and endpoints', () => {
+  it('sends the model override', async () => {
+    mockFetch.mockResolvedValueOnce(jsonRes(openAIResp));
+    await generateDescriptions([page], 'openai', 'test-key', { model: 'gpt-4.1-nano' });
+    const [, opts] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(opts.body as string).model).toBe('gpt-4.1-nano');
+  });
+
+  it('routes a built-in provider through a proxy base URL', async () => {
+    mockFetch.mockResolvedValueOnce(jsonRes(openAIResp));
+    await generateDescriptions([page], 'deepseek', 'test-key', { baseUrl: 'https://llm-proxy.internal/deepseek/' });
+    const [url] = mockFetch.mock.calls[0] as [string];
+    expect(url).toBe('https://llm-proxy.internal/deepseek/chat/completions');
+  });
+
+  it('keeps the query string of the base URL (Azure api-version)', async () => {
+    mockFetch.mockResolvedValueOnce(jsonRes(openAIResp));
+    await generateDescriptions([page], 'openai-compatible', '', {
+      baseUrl: 'https://acme.openai.azure.com/openai/deployments/mini?api-version=2024-10-21',
+      model: 'gpt-4o-mini',
+      headers: { 'api-key': 'azure-secret' },
+    });
+    const [url, opts] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://acme.openai.azure.com/openai/deployments/mini/chat/completions?api-version=2024-10-21');
+    const headers = opts.headers as Record<string, string>;
+    expect(headers['api-key']).toBe('azure-secret');
+    expect(headers['Authorization']).toBeUndefined();
+  });
+
+  it('calls a local server without an API key', async () => {
+    mockFetch.mockResolvedValueOnce(jsonRes(openAIResp));
+    const results = await generateDescriptions([page], 'openai-compatible', '', {
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+    });
+    expect(results[0].description).toBe('AI generated description.');
+    const [url, opts] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(opts.body as string).model).toBe('llama3.1');
+  });
+
+  it('requires a base URL and model for openai-compatible', async () => {
+    await expect(generateDescriptions([page], 'openai-compatible', '', { model: 'llama3.1' }))
+      .rejects.toThrow('needs a base URL');
+    await expect(generateDescriptions([page], 'openai-compatible', '', { baseUrl: 'http://localhost:11434/v1' }))
+      .rejects.toThrow('needs a model');
+  });
+
+  it('points Gemini at a base URL override', async () => {
+    mockFetch.mockResolvedValueOnce(jsonRes(geminiResp));
+    await generateDescriptions([page], 'gemini', 'gm-key', {
+      baseUrl: 'https://llm-proxy.internal/gemini/v1beta',
+      model: 'gemini-2.5-flash',
+    });
+    const [url] = mockFetch.mock.calls[0] as [string];
+    expect(url).toBe('https://llm-proxy.internal/gemini/v1beta/models/gemini-2.5-flash:generateContent?key=gm-key');
+  });
+});
+
 describe('generateDescriptions — multiple pages', () => {
   it('processes all pages and returns same count', async () => {
     mockFetch
@@ -105,3 +181,390 @@ describe('generateDescriptions — multiple pages', () => {
     expect(results).toHaveLength(2);
   });
 });
+
+describe('generateDescriptions — concurrency and rate limits', () => {
+  const manyPages = Array.from({ length: 6 }, (_, i) => ({ ...page, url: `https://example.com/p${i}` }));
+
+  it('runs up to `concurrency` requests at once and keeps page order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(r => setTimeout(r, 5));
+      inFlight--;
+      const body = JSON.parse(init.body as string) as { messages: { content: string }[] };
+      const url = body.messages[0].content.match(/p\d/)?.[0] ?? '';
+      return jsonRes({ choices: [{ message: { content: `About ${url}` } }] });
+    });
+    const pagesWithContent = manyPages.map((p, i) => ({ ...p, content: `Page p${i}` }));
+    const results = await generateDescriptions(pagesWithContent, 'openai', 'key', { concurrency: 3, requestsPerMinute: 0 });
+    expect(peak).toBe(3);
+    expect(results.map(r => r.description)).toEqual(manyPages.map((_, i) => `About p${i}`));
+  });
+
+  it('spaces request starts to stay under the requests-per-minute limit', async () => {
+    vi.useFakeTimers();
+    try {
+      const starts: number[] = [];
+      mockFetch.mockImplementation(async () => {
+        starts.push(Date.now());
+        return jsonRes(openAIResp);
+      });
+      const done = generateDescriptions(manyPages.slice(0, 3), 'openai', 'key', { concurrency: 3, requestsPerMinute: 60 });
+      await vi.advanceTimersByTimeAsync(5000);
+      await done;
+      expect(starts[1] - starts[0]).toBe(1000);
+      expect(starts[2] - starts[1]).toBe(1000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('has a default rate limit for every provider', () => {
+    expect(getProviderRateLimit('gemini')).toBeGreaterThan(0);
+    expect(getProviderRateLimit('openai')).toBeGreaterThan(getProviderRateLimit('gemini'));
+  });
+});
+
+describe('generateDescriptions — retries', () => {
+  const fast = { retryBaseMs: 0, requestsPerMinute: 0 };
+
+  it('retries 429 and 5xx responses', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonRes('busy', 429))
+      .mockResolvedValueOnce(jsonRes('oops', 503))
+      .mockResolvedValueOnce(jsonRes(openAIResp));
+    const results = await generateDescriptions([page], 'openai', 'key', fast);
+    expect(results[0].description).toBe('AI generated description.');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other client errors', async () => {
+    mockFetch.mockResolvedValue(jsonRes('Unauthorized', 401));
+    const { failures } = await generateDescriptionsWithReport([page], 'openai', 'key', fast);
+    expect(mockFetch).toHaveBeenCalledOnce();
+    expect(failures).toEqual([{ url: page.url, reason: 'HTTP 401' }]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    mockFetch.mockResolvedValue(jsonRes('busy', 429));
+    const { failures } = await generateDescriptionsWithReport([page], 'openai', 'key', { ...fast, maxRetries: 2 });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(failures[0].reason).toBe('HTTP 429');
+  });
+
+  it('waits for Retry-After before retrying', async () => {
+    vi.useFakeTimers();
+    try {
+      mockFetch
+        .mockResolvedValueOnce(jsonRes('busy', 429, { 'Retry-After': '7' }))
+        .mockResolvedValueOnce(jsonRes(openAIResp));
+      const done = generateDescriptions([page], 'openai', 'key', { requestsPerMinute: 0 });
+      await vi.advanceTimersByTimeAsync(6900);
+      expect(mockFetch).toHaveBeenCalledOnce();
+      await vi.advanceTimersByTimeAsync(200);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect((await done)[0].description).toBe('AI generated description.');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('backs off exponentially without Retry-After', async () => {
+    vi.useFakeTimers();
+    try {
+      mockFetch
+        .mockResolvedValueOnce(jsonRes('oops', 500))
+        .mockResolvedValueOnce(jsonRes('oops', 500))
+        .mockResolvedValueOnce(jsonRes(openAIResp));
+      const done = generateDescriptions([page], 'openai', 'key', { requestsPerMinute: 0, retryBaseMs: 100 });
+      await vi.advanceTimersByTimeAsync(99);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(200);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      await done;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('generateDescriptions — failure reporting', () => {
+  const fast = { retryBaseMs: 0, requestsPerMinute: 0, maxRetries: 0 };
+
+  it('reports each failed page with its reason and keeps the original description', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonRes(openAIResp))
+      .mockResolvedValueOnce(jsonRes({ choices: [{ message: { content: '' } }] }));
+    const pages = [page, { ...page, url: 'https://example.com/empty' }];
+    const result = await generateDescriptionsWithReport(pages, 'openai', 'key', { ...fast, concurrency: 1 });
+    expect(result.pages.map(p => p.description)).toEqual(['AI generated description.', page.description]);
+    expect(result.failures).toEqual([{ url: 'https://example.com/empty', reason: 'empty response' }]);
+  });
+
+  it('throws in strict mode instead of degrading', async () => {
+    mockFetch.mockResolvedValue(jsonRes('Unauthorized', 401));
+    await expect(generateDescriptions([page], 'openai', 'key', { ...fast, strict: true }))
+      .rejects.toThrow(`AI description failed for ${page.url}: HTTP 401`);
+  });
+
+  it('stops scheduling new pages after a strict failure', async () => {
+    mockFetch.mockResolvedValue(jsonRes('Unauthorized', 401));
+    const pages = Array.from({ length: 5 }, (_, i) => ({ ...page, url: `https://example.com/${i}` }));
+    await expect(generateDescriptions(pages, 'openai', 'key', { ...fast, strict: true, concurrency: 1 })).rejects.toThrow();
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it('summarizes failures by reason', () => {
+    expect(summarizeFailures([
+      { url: 'a', reason: 'HTTP 429' },
+      { url: 'b', reason: 'timeout' },
+      { url: 'c', reason: 'HTTP 429' },
+    ])).toBe('2× HTTP 429, 1× timeout');
+  });
+});
+
+describe('generateDescriptions — guardrails', () => {
+  const fast = { retryBaseMs: 0, requestsPerMinute: 0 };
+  const reply = (content: string) => jsonRes({ choices: [{ message: { content } }] });
+  const promptOf = (call: unknown[]) =>
+    (JSON.parse((call[1] as RequestInit).body as string) as { messages: { content: string }[] }).messages[0].content;
+
+  it('tidies preambles and quotes from the reply', async () => {
+    mockFetch.mockResolvedValueOnce(reply('Here is a summary:\n\n"We build great software for teams."'));
+    const [result] = await generateDescriptions([page], 'openai', 'key', fast);
+    expect(result.description).toBe('We build great software for teams.');
+  });
+
+  it('asks again with a correction after a rejected reply', async () => {
+    mockFetch
+      .mockResolvedValueOnce(reply('I cannot access this page.'))
+      .mockResolvedValueOnce(reply('We build great software for teams.'));
+    const result = await generateDescriptionsWithReport([page], 'openai', 'key', fast);
+    expect(result.pages[0].description).toBe('We build great software for teams.');
+    expect(promptOf(mockFetch.mock.calls[1])).toContain('Your previous answer was a refusal.');
+    expect(result.usage.requests).toBe(2);
+  });
+
+  it('keeps the original description with the reason when every attempt is rejected', async () => {
+    mockFetch.mockResolvedValue(reply('As an AI language model, I cannot browse websites.'));
+    const result = await generateDescriptionsWithReport([page], 'openai', 'key', { ...fast, maxRejections: 2 });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(result.pages[0].description).toBe(page.description);
+    expect(result.failures).toEqual([{ url: page.url, reason: 'rejected: refusal' }]);
+  });
+
+  it('rejects summaries and intros that are refusals', async () => {
+    mockFetch.mockResolvedValue(reply("Sorry, I can't see the pages of this website."));
+    const client = createAiClient('openai', 'key', { ...fast, maxRetries: 0 });
+    await expect(summarizeSite(client, 'Acme', [page])).rejects.toThrow('rejected: refusal');
+  });
+});
+
+describe('site outline', () => {
+  const fast = { retryBaseMs: 0, requestsPerMinute: 0, maxRetries: 0 };
+  const reply = (content: string) => jsonRes({ choices: [{ message: { content } }] });
+  const sitePages = ['install', 'webhooks', 'quickstart'].map(slug => ({
+    ...page,
+    url: `https://example.com/${slug}`,
+    title: slug,
+  }));
+
+  it('groups pages by the numbers in the JSON reply, tolerating a code fence', async () => {
+    mockFetch.mockResolvedValueOnce(reply(
+      '```json\n{"sections": [{"label": "Getting Started", "pages": [1, 3]}, {"label": "Integrations", "pages": [2]}]}\n```',
+    ));
+    const groups = await groupPages(createAiClient('openai', 'key', fast), sitePages);
+    expect(groups).toEqual([
+      { label: 'Getting Started', urls: ['https://example.com/install', 'https://example.com/quickstart'] },
+      { label: 'Integrations', urls: ['https://example.com/webhooks'] },
+    ]);
+    const [, opts] = mockFetch.mock.calls[0] as [string, RequestInit];
+    const prompt = JSON.parse(opts.body as string).messages[0].content as string;
+    expect(prompt).toContain('2. webhooks: Original description. (https://example.com/webhooks)');
+  });
+
+  it('ignores unknown and repeated page numbers and drops empty groups', async () => {
+    mockFetch.mockResolvedValueOnce(reply(JSON.stringify({
+      sections: [
+        { label: 'Docs', pages: [1, 1, 9, 'x'] },
+        { label: 'Empty', pages: [1] },
+        { label: '', pages: [2] },
+      ],
+    })));
+    const groups = await groupPages(createAiClient('openai', 'key', fast), sitePages);
+    expect(groups).toEqual([{ label: 'Docs', urls: ['https://example.com/install'] }]);
+  });
+
+  it('rejects a reply that is not JSON', async () => {
+    mockFetch.mockResolvedValueOnce(reply('Here are some sections: docs, blog'));
+    await expect(groupPages(createAiClient('openai', 'key', fast), sitePages)).rejects.toThrow('not valid JSON');
+  });
+
+  it('writes a site summary on one line without wrapping quotes', async () => {
+    mockFetch.mockResolvedValueOnce(reply('"Example sells widgets\nto small teams."'));
+    const summary = await summarizeSite(createAiClient('openai', 'key', fast), 'Example', sitePages);
+    expect(summary).toBe('Example sells widgets to small teams.');
+    const [, opts] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(opts.body as string).max_tokens).toBe(150);
+  });
+
+  it('writes section intros and reports failed sections by label', async () => {
+    mockFetch
+      .mockResolvedValueOnce(reply('How to get going.'))
+      .mockResolvedValueOnce(jsonRes('Unauthorized', 401));
+    const sections = [
+      { label: 'Getting Started', pages: [sitePages[0]] },
+      { label: 'Integrations', pages: [sitePages[1]] },
+    ];
+    const result = await writeSectionIntros(createAiClient('openai', 'key', fast), 'Example', sections, { concurrency: 1 });
+    expect(result.intros).toEqual({ 'Getting Started': 'How to get going.' });
+    expect(result.failures).toEqual([{ url: 'Integrations', reason: 'HTTP 401' }]);
+  });
+
+  it('throws on a failed intro in strict mode', async () => {
+    mockFetch.mockResolvedValue(jsonRes('Unauthorized', 401));
+    await expect(writeSectionIntros(
+      createAiClient('openai', 'key', fast),
+      'Example',
+      [{ label: 'Docs', pages: sitePages }],
+      { strict: true },
+    )).rejects.toThrow('AI intro failed for section "Docs": HTTP 401');
+  });
+});
+
+describe('generateDescriptions — description style', () => {
+  const docsPage = { ...page, url: 'https://example.com/docs/install', title: 'Install' };
+  const sentPrompt = (call: number) =>
+    JSON.parse((mockFetch.mock.calls[call] as [string, RequestInit])[1].body as string);
+
+  it('applies the global style and sizes max_tokens to the target length', async () => {
+    mockFetch.mockResolvedValueOnce(jsonRes(openAIResp));
+    await generateDescriptions([page], 'openai', 'key', { style: { maxWords: 40, tone: 'neutral', language: 'German' } });
+    const body = sentPrompt(0);
+    expect(body.max_tokens).toBe(160);
+    expect(body.messages[0].content).toContain('under 40 words');
+    expect(body.messages[0].content).toContain('Tone: neutral.');
+    expect(body.messages[0].content).toContain('Write the description in German.');
+  });
+
+  it('layers section styles over the global style and fills {{section}}', async () => {
+    mockFetch.mockResolvedValue(jsonRes(openAIResp));
+    const options = {
+      concurrency: 1,
+      style: { template: '[{{section}}] {{title}}, {{tone}}, {{maxWords}} words', tone: 'neutral' },
+      sectionOf: (p: PageData) => (p.url.includes('/docs/') ? 'Docs' : undefined),
+      sectionStyles: { Docs: { tone: "imperative, starting with 'How to'", maxWords: undefined } },
+    };
+    await generateDescriptions([docsPage, page], 'openai', 'key', options);
+    expect(sentPrompt(0).messages[0].content).toBe("[Docs] Install, imperative, starting with 'How to', 20 words");
+    expect(sentPrompt(1).messages[0].content).toBe('[] About Us, neutral, 20 words');
+  });
+
+  it('exposes the prompt a description is generated from', () => {
+    expect(descriptionPrompt(page, { style: { template: '{{url}}' } })).toBe(page.url);
+  });
+});
+
+describe('token accounting', () => {
+  const fast = { retryBaseMs: 0, requestsPerMinute: 0 };
+
+  it('adds up the usage reported by OpenAI-compatible responses', async () => {
+    mockFetch.mockResolvedValue(jsonRes({ ...openAIResp, usage: { prompt_tokens: 120, completion_tokens: 15 } }));
+    const pages = [page, { ...page, url: 'https://example.com/team' }];
+    const result = await generateDescriptionsWithReport(pages, 'openai', 'key', fast);
+    expect(result.usage).toEqual({ requests: 2, inputTokens: 240, outputTokens: 30 });
+  });
+
+  it('reads Gemini usage metadata', async () => {
+    mockFetch.mockResolvedValueOnce(jsonRes({ ...geminiResp, usageMetadata: { promptTokenCount: 90, candidatesTokenCount: 12 } }));
+    const result = await generateDescriptionsWithReport([page], 'gemini', 'key', fast);
+    expect(result.usage).toEqual({ requests: 1, inputTokens: 90, outputTokens: 12 });
+  });
+
+  it('estimates tokens a server did not report and counts every attempt', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonRes('busy', 503))
+      .mockResolvedValueOnce(jsonRes(openAIResp));
+    const client = createAiClient('openai', 'key', fast);
+    await client.complete('x'.repeat(400), 80);
+    expect(client.usage.requests).toBe(2);
+    expect(client.usage.inputTokens).toBe(100);
+    expect(client.usage.outputTokens).toBe(Math.ceil('AI generated description.'.length / 4));
+  });
+
+  it('resolves the model a provider will use', () => {
+    expect(getProviderModel('openai')).toBe('gpt-4o-mini');
+    expect(getProviderModel('openai', { model: 'gpt-4.1-nano' })).toBe('gpt-4.1-nano');
+    expect(getProviderModel('openai-compatible')).toBeUndefined();
+  });
+});
+
+describe('recorded responses', () => {
+  const fast = { retryBaseMs: 0, requestsPerMinute: 0 };
+  const emptyFile = () => ({ version: 1, responses: {} });
+
+  it('records responses and replays them without calling the provider', async () => {
+    mockFetch.mockResolvedValue(jsonRes(openAIResp));
+    const replay = createReplay(emptyFile(), 'record');
+    const first = await generateDescriptionsWithReport([page], 'openai', 'key', { ...fast, replay });
+    expect(Object.values(replay.cache.responses)).toEqual([
+      { provider: 'openai', model: 'gpt-4o-mini', text: 'AI generated description.' },
+    ]);
+
+    mockFetch.mockClear();
+    const second = await generateDescriptionsWithReport([page], 'openai', 'key', { ...fast, replay });
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(second.pages).toEqual(first.pages);
+    expect(second.usage).toEqual({ requests: 0, inputTokens: 0, outputTokens: 0 });
+    expect(replay.hits).toBe(1);
+  });
+
+  it('keys responses by model as well as prompt', async () => {
+    mockFetch.mockResolvedValue(jsonRes(openAIResp));
+    const replay = createReplay(emptyFile(), 'record');
+    await createAiClient('openai', 'key', { ...fast, replay }).complete('prompt', 80);
+    await createAiClient('openai', 'key', { ...fast, replay, model: 'gpt-4.1-nano' }).complete('prompt', 80);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(Object.keys(replay.cache.responses)).toHaveLength(2);
+  });
+
+  it('fails requests that were never recorded in read-only mode', async () => {
+    const replay = createReplay(emptyFile(), 'read-only');
+    const result = await generateDescriptionsWithReport([page], 'openai', '', { ...fast, replay });
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(result.pages[0].description).toBe('Original description.');
+    expect(result.failures).toEqual([{ url: page.url, reason: 'no recorded response (read-only replay)' }]);
+    await expect(generateDescriptionsWithReport([page], 'openai', '', { ...fast, replay, strict: true }))
+      .rejects.toThrow('no recorded response');
+  });
+
+  it('calls the provider again in refresh mode and overwrites the recording', async () => {
+    mockFetch.mockResolvedValue(jsonRes({ choices: [{ message: { content: 'Newer description.' } }] }));
+    const replay = createReplay(emptyFile(), 'record');
+    replay.cache.responses = { stale: { provider: 'openai', model: 'gpt-4o-mini', text: 'x' } };
+    const refresh = createReplay(replay.cache, 'refresh');
+    await createAiClient('openai', 'key', { ...fast, replay }).complete('prompt', 80);
+    await createAiClient('openai', 'key', { ...fast, replay: refresh }).complete('prompt', 80);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(refresh.recorded).toBe(1);
+    expect(refresh.used.has('stale')).toBe(false);
+  });
+});
+
+describe('usage estimates', () => {
+  it('estimates one request per page from the prompt and target length', () => {
+    const usage = estimateDescriptionUsage([page, page], { style: { template: 'x'.repeat(40), maxWords: 10 } });
+    expect(usage).toEqual({ requests: 2, inputTokens: 20, outputTokens: 26 });
+  });
+
+  it('counts the grouping, summary and intro requests that are enabled', () => {
+    const sections = [{ label: 'Docs', pages: [page] }, { label: 'Blog', pages: [page] }];
+    expect(estimateOutlineUsage('Example', [page], sections, { group: true }).requests).toBe(1);
+    expect(estimateOutlineUsage('Example', [page], sections, { summary: true }).requests).toBe(3);
+    expect(estimateOutlineUsage('Example', [page], sections, {}).requests).toBe(0);
+  });
+});
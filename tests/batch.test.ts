@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  collectDescriptionBatch,
+  loadBatchState,
+  pollDescriptionBatch,
+  removeBatchState,
+  submitDescriptionBatch,
+} from '../src/batch.js';
+import type { PageData } from '../src/extractor.js';
+
+function makePage(url: string, description = ''): PageData {
+  return { url, title: `Title of ${url}`, description, h1: 'Heading', content: 'Some page content' };
+}
+
+interface SubmittedRequest {
+  customId: string;
+  prompt: string;
+}
+
+// Stand-in for the Anthropic and OpenAI batch endpoints. Submitted batches stay in progress until
+// `finish` is called; requests whose custom ID is in `failing` come back as errors.
+class BatchServer {
+  server: Server;
+  base = '';
+  submitted: SubmittedRequest[] = [];
+  paths: string[] = [];
+  ended = false;
+  failing = new Set<string>();
+  dropped = new Set<string>();
+  replies = new Map<string, string>();
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.base = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  finish(): void {
+    this.ended = true;
+  }
+
+  private answered(): SubmittedRequest[] {
+    return this.submitted.filter(r => !this.dropped.has(r.customId));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const path = new URL(req.url!, this.base).pathname;
+    this.paths.push(`${req.method} ${path}`);
+    const json = (value: unknown) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(value));
+    };
+    const jsonl = (lines: unknown[]) => {
+      res.writeHead(200, { 'Content-Type': 'application/binary' });
+      res.end(lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+    };
+    const counts = () => ({
+      done: this.ended ? this.submitted.length : 0,
+      failed: this.ended ? this.answered().filter(r => this.failing.has(r.customId)).length : 0,
+    });
+
+    // Anthropic
+    if (req.method === 'POST' && path === '/v1/messages/batches') {
+      const { requests } = JSON.parse(body) as {
+        requests: { custom_id: string; params: { messages: { content: string }[] } }[];
+      };
+      this.submitted = requests.map(r => ({ customId: r.custom_id, prompt: r.params.messages[0].content }));
+      return json({ id: 'msgbatch_1', type: 'message_batch', processing_status: 'in_progress' });
+    }
+    if (req.method === 'GET' && path === '/v1/messages/batches/msgbatch_1') {
+      const { done, failed } = counts();
+      return json({
+        id: 'msgbatch_1',
+        type: 'message_batch',
+        processing_status: this.ended ? 'ended' : 'in_progress',
+        request_counts: {
+          processing: this.submitted.length - done,
+          succeeded: done - failed,
+          errored: failed,
+          canceled: 0,
+          expired: 0,
+        },
+        results_url: this.ended ? `${this.base}/v1/messages/batches/msgbatch_1/results` : null,
+      });
+    }
+    if (req.method === 'GET' && path === '/v1/messages/batches/msgbatch_1/results') {
+      return jsonl(this.answered().map(r => this.failing.has(r.customId)
+        ? { custom_id: r.customId, result: { type: 'errored', error: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } } }
+        : {
+            custom_id: r.customId,
+            result: {
+              type: 'succeeded',
+              message: {
+                content: [{ type: 'text', text: this.replies.get(r.customId) ?? ` Described ${r.customId} ` }],
+                usage: { input_tokens: 100, output_tokens: 10 },
+              },
+            },
+          }));
+    }
+
+    // OpenAI
+    if (req.method === 'POST' && path === '/v1/files') {
+      this.submitted = body.split('\n')
+        .filter(line => line.startsWith('{"custom_id"'))
+        .map(line => JSON.parse(line) as { custom_id: string; body: { messages: { content: string }[] } })
+        .map(line => ({ customId: line.custom_id, prompt: line.body.messages[0].content }));
+      return json({ id: 'file-in' });
+    }
+    if (req.method === 'POST' && path === '/v1/batches') {
+      expect(JSON.parse(body)).toMatchObject({ input_file_id: 'file-in', endpoint: '/v1/chat/completions' });
+      return json({ id: 'batch_1', status: 'validating' });
+    }
+    if (req.method === 'GET' && path === '/v1/batches/batch_1') {
+      const { done, failed } = counts();
+      return json({
+        id: 'batch_1',
+        status: this.ended ? 'completed' : 'in_progress',
+        output_file_id: this.ended ? 'file-out' : null,
+        error_file_id: this.ended && failed > 0 ? 'file-err' : null,
+        request_counts: { total: this.submitted.length, completed: done - failed, failed },
+      });
+    }
+    if (req.method === 'GET' && path === '/v1/files/file-out/content') {
+      return jsonl(this.answered().filter(r => !this.failing.has(r.customId)).map(r => ({
+        custom_id: r.customId,
+        response: {
+          status_code: 200,
+          body: {
+            choices: [{ message: { content: `Described ${r.customId}` } }],
+            usage: { prompt_tokens: 100, completion_tokens: 10 },
+          },
+        },
+      })));
+    }
+    if (req.method === 'GET' && path === '/v1/files/file-err/content') {
+      return jsonl(this.answered().filter(r => this.failing.has(r.customId)).map(r => ({
+        custom_id: r.customId,
+        response: { status_code: 429, body: {} },
+        error: null,
+      })));
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: `no route for ${req.method} ${path}` } }));
+  }
+}
+
+let tempDir: string;
+let statePath: string;
+let stand: BatchServer;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'llm-txt-gen-batch-'));
+  statePath = join(tempDir, 'batch.json');
+  stand = new BatchServer();
+  await stand.start();
+});
+
+afterEach(async () => {
+  await stand.stop();
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const pages = [makePage('https://example.com/a', 'old a'), makePage('https://example.com/b', 'old b')];
+
+describe('batch descriptions — Claude', () => {
+  const options = () => ({ baseUrl: stand.base });
+
+  it('submits one request per page and saves the batch state', async () => {
+    const state = await submitDescriptionBatch(pages, 'claude', 'key', options(), statePath);
+    expect(state).toMatchObject({ provider: 'claude', model: 'claude-haiku-4-5-20251001', batchId: 'msgbatch_1' });
+    expect(stand.submitted.map(r => r.customId)).toEqual(['page-0', 'page-1']);
+    expect(stand.submitted[0].prompt).toContain('Title of https://example.com/a');
+    expect(await loadBatchState(statePath)).toEqual(state);
+  });
+
+  it('reports progress until the batch ends, then merges the results by URL', async () => {
+    const state = await submitDescriptionBatch(pages, 'claude', 'key', options(), statePath);
+    expect(await pollDescriptionBatch(state, 'key', options())).toEqual({ ended: false, done: 0, total: 2 });
+
+    stand.finish();
+    expect(await pollDescriptionBatch(state, 'key', options())).toEqual({ ended: true, done: 2, total: 2 });
+    const extra = makePage('https://example.com/c', 'not in the batch');
+    const result = await collectDescriptionBatch(state, [...pages, extra], 'key', options());
+    expect(result.pages.map(p => p.description)).toEqual(['Described page-0', 'Described page-1', 'not in the batch']);
+    expect(result.failures).toEqual([]);
+    expect(result.usage).toEqual({ requests: 2, inputTokens: 200, outputTokens: 20 });
+  });
+
+  it('keeps the original description when a request errored or was never answered', async () => {
+    const state = await submitDescriptionBatch(
+      [...pages, makePage('https://example.com/c', 'old c')], 'claude', 'key', options(), statePath,
+    );
+    stand.failing.add('page-0');
+    stand.dropped.add('page-2');
+    stand.finish();
+    const result = await collectDescriptionBatch(
+      state, [...pages, makePage('https://example.com/c', 'old c')], 'key', options(),
+    );
+    expect(result.pages.map(p => p.description)).toEqual(['old a', 'Described page-1', 'old c']);
+    expect(result.failures).toEqual([
+      { url: 'https://example.com/a', reason: 'errored: Overloaded' },
+      { url: 'https://example.com/c', reason: 'no result' },
+    ]);
+  });
+
+  it('tidies the replies and rejects refusals', async () => {
+    const state = await submitDescriptionBatch(pages, 'claude', 'key', options(), statePath);
+    stand.replies.set('page-0', 'Here is a one-line description:\n\n"Described page-0"');
+    stand.replies.set('page-1', 'I cannot access this page, so I am unable to describe it.');
+    stand.finish();
+    const result = await collectDescriptionBatch(state, pages, 'key', options());
+    expect(result.pages.map(p => p.description)).toEqual(['Described page-0', 'old b']);
+    expect(result.failures).toEqual([{ url: 'https://example.com/b', reason: 'rejected: refusal' }]);
+  });
+
+  it('polls until the batch ends when asked to wait', async () => {
+    const state = await submitDescriptionBatch(pages, 'claude', 'key', options(), statePath);
+    setTimeout(() => stand.finish(), 30);
+    const progress = await pollDescriptionBatch(state, 'key', options(), 5_000, 10);
+    expect(progress.ended).toBe(true);
+  });
+});
+
+describe('batch descriptions — OpenAI', () => {
+  const options = () => ({ baseUrl: `${stand.base}/v1` });
+
+  it('uploads a JSONL file, creates the batch and reads the output and error files', async () => {
+    const state = await submitDescriptionBatch(pages, 'openai', 'key', options(), statePath);
+    expect(state).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', batchId: 'batch_1' });
+    expect(stand.paths).toEqual(['POST /v1/files', 'POST /v1/batches']);
+    expect(await pollDescriptionBatch(state, 'key', options())).toEqual({ ended: false, done: 0, total: 2 });
+
+    stand.failing.add('page-1');
+    stand.finish();
+    const result = await collectDescriptionBatch(state, pages, 'key', options());
+    expect(result.pages.map(p => p.description)).toEqual(['Described page-0', 'old b']);
+    expect(result.failures).toEqual([{ url: 'https://example.com/b', reason: 'HTTP 429' }]);
+    expect(result.usage).toEqual({ requests: 2, inputTokens: 100, outputTokens: 10 });
+  });
+
+  it('works with OpenAI-compatible servers', async () => {
+    const state = await submitDescriptionBatch(
+      pages, 'openai-compatible', '', { ...options(), model: 'llama3.1' }, statePath,
+    );
+    expect(state.model).toBe('llama3.1');
+  });
+});
+
+describe('batch state', () => {
+  it('rejects providers without a batch API', async () => {
+    await expect(submitDescriptionBatch(pages, 'gemini', 'key', {}, statePath))
+      .rejects.toThrow('--ai-batch is not available for gemini');
+    expect(existsSync(statePath)).toBe(false);
+  });
+
+  it('returns undefined when there is no state file, and removes it once collected', async () => {
+    expect(await loadBatchState(statePath)).toBeUndefined();
+    await submitDescriptionBatch(pages, 'claude', 'key', { baseUrl: stand.base }, statePath);
+    expect(JSON.parse(await readFile(statePath, 'utf-8')).batchId).toBe('msgbatch_1');
+    await removeBatchState(statePath);
+    expect(existsSync(statePath)).toBe(false);
+  });
+
+  it('refuses files that are not batch state', async () => {
+    await writeFile(statePath, '{ not json');
+    await expect(loadBatchState(statePath)).rejects.toThrow('Cannot read batch state');
+    await writeFile(statePath, JSON.stringify({ version: 1, pages: {} }));
+    await expect(loadBatchState(statePath)).rejects.toThrow('is not a batch state file');
+  });
+});
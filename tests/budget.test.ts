@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allocateBudget,
+  estimateTokens,
+  formatBudgetReport,
+  pageWeight,
+  parseBudgetSize,
+} from '../src/budget.js';
+import type { BudgetItem } from '../src/budget.js';
+
+function item(url: string, length: number, weight = 1): BudgetItem {
+  return { url, content: 'x'.repeat(length), overhead: 0, weight };
+}
+
+describe('parseBudgetSize', () => {
+  it('parses plain numbers and k/m suffixes', () => {
+    expect(parseBudgetSize('4000')).toBe(4000);
+    expect(parseBudgetSize('100k')).toBe(100_000);
+    expect(parseBudgetSize('1.5M')).toBe(1_500_000);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseBudgetSize('lots')).toThrow('Invalid size "lots"');
+    expect(() => parseBudgetSize('0')).toThrow('must be at least 1');
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('x'.repeat(400))).toBe(100);
+    expect(estimateTokens('abc')).toBe(1);
+  });
+});
+
+describe('pageWeight', () => {
+  it('weights by sitemap priority and doubles key pages', () => {
+    expect(pageWeight(undefined, false)).toBe(1);
+    expect(pageWeight(1, false)).toBe(1.5);
+    expect(pageWeight(0.5, true)).toBe(2);
+  });
+});
+
+describe('allocateBudget', () => {
+  it('applies only the per-page cap without a total', () => {
+    const { contents, report } = allocateBudget([item('a', 5000), item('b', 100)], { unit: 'chars', perPage: 1000 });
+    expect(contents.get('a')).toHaveLength(1000);
+    expect(contents.get('b')).toHaveLength(100);
+    expect(report.truncated).toEqual([{ url: 'a', from: 5000, to: 1000 }]);
+  });
+
+  it('hands room that small pages do not need to the larger ones', () => {
+    const { contents } = allocateBudget(
+      [item('small', 100), item('a', 5000), item('b', 5000)],
+      { unit: 'chars', perPage: 10_000, total: 2100 },
+    );
+    expect(contents.get('small')).toHaveLength(100);
+    expect(contents.get('a')).toHaveLength(1000);
+    expect(contents.get('b')).toHaveLength(1000);
+  });
+
+  it('splits a tight budget by weight', () => {
+    const { contents } = allocateBudget(
+      [item('heavy', 5000, 3), item('light', 5000, 1)],
+      { unit: 'chars', perPage: 10_000, total: 2000 },
+    );
+    expect(contents.get('heavy')).toHaveLength(1500);
+    expect(contents.get('light')).toHaveLength(500);
+  });
+
+  it('counts fixed and per-page overhead against the total', () => {
+    const { contents } = allocateBudget(
+      [{ ...item('a', 5000), overhead: 100 }],
+      { unit: 'chars', perPage: 10_000, total: 1000 },
+      400,
+    );
+    expect(contents.get('a')).toHaveLength(500);
+  });
+
+  it('omits the lowest-weight pages rather than leaving stubs', () => {
+    const { contents, report } = allocateBudget(
+      [item('key', 5000, 2), item('a', 5000, 1), item('b', 5000, 0.5)],
+      { unit: 'chars', perPage: 10_000, total: 500 },
+    );
+    expect(report.omitted).toEqual(['a', 'b']);
+    expect(contents.get('key')).toHaveLength(500);
+  });
+
+  it('converts token budgets to characters', () => {
+    const { contents, report } = allocateBudget([item('a', 5000)], { unit: 'tokens', perPage: 250 });
+    expect(contents.get('a')).toHaveLength(1000);
+    expect(report.truncated).toEqual([{ url: 'a', from: 1250, to: 250 }]);
+  });
+});
+
+describe('formatBudgetReport', () => {
+  it('summarises and lists what was cut', () => {
+    const out = formatBudgetReport(
+      { unit: 'tokens', size: 98_500, truncated: [{ url: 'https://x.com/a', from: 900, to: 400 }], omitted: ['https://x.com/b'] },
+      100_000,
+    );
+    expect(out).toBe([
+      'llm-full.txt: 98,500 tokens of 100,000, 1 page(s) truncated, 1 omitted',
+      '  omitted   https://x.com/b',
+      '  truncated https://x.com/a (900 -> 400 tokens)',
+    ].join('\n'));
+  });
+
+  it('caps the detail lines', () => {
+    const truncated = Array.from({ length: 5 }, (_, i) => ({ url: `u${i}`, from: 2, to: 1 }));
+    const out = formatBudgetReport({ unit: 'chars', size: 10, truncated, omitted: [] }, undefined, 2);
+    expect(out.split('\n')).toHaveLength(4);
+    expect(out).toContain('...and 3 more');
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  emptyCache,
+  loadCache,
+  saveCache,
+  hashPage,
+  isFreshByLastmod,
+  recordPage,
+  reusePage,
+  uncachedPages,
+  withCachedDescriptions,
+} from '../src/cache.js';
+import type { PageData } from '../src/extractor.js';
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'llm-txt-gen-cache-'));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const page: PageData = {
+  url: 'https://example.com/docs',
+  title: 'Docs',
+  description: 'Original description.',
+  h1: 'Docs',
+  content: 'Docs content.',
+};
+
+describe('loadCache / saveCache', () => {
+  it('returns an empty cache when the file does not exist', async () => {
+    const cache = await loadCache(join(tempDir, 'missing.json'));
+    expect(cache.pages).toEqual({});
+  });
+
+  it('round-trips recorded pages', async () => {
+    const cachePath = join(tempDir, 'cache.json');
+    const cache = emptyCache();
+    recordPage(cache, page, { etag: '"abc"', lastmod: '2024-01-01' });
+    await saveCache(cachePath, cache);
+    const loaded = await loadCache(cachePath);
+    expect(loaded.pages[page.url].etag).toBe('"abc"');
+    expect(loaded.pages[page.url].page).toEqual(page);
+  });
+
+  it('drops entries no run has used for 30 days when saving', async () => {
+    const cachePath = join(tempDir, 'cache.json');
+    const cache = emptyCache();
+    const old = { ...page, url: 'https://example.com/removed' };
+    recordPage(cache, page, {});
+    recordPage(cache, old, {});
+    cache.pages[old.url].seenAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    await saveCache(cachePath, cache);
+    const loaded = await loadCache(cachePath);
+    expect(Object.keys(loaded.pages)).toEqual([page.url]);
+  });
+
+  it('keeps old entries that a run reused', async () => {
+    const cachePath = join(tempDir, 'cache.json');
+    const cache = emptyCache();
+    recordPage(cache, page, {});
+    cache.pages[page.url].seenAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    expect(reusePage(cache, page.url)).toEqual(page);
+    await saveCache(cachePath, cache);
+    const loaded = await loadCache(cachePath);
+    expect(Object.keys(loaded.pages)).toEqual([page.url]);
+  });
+
+  it('discards a corrupt cache file', async () => {
+    const cachePath = join(tempDir, 'cache.json');
+    await writeFile(cachePath, '{ not json');
+    const cache = await loadCache(cachePath);
+    expect(cache.pages).toEqual({});
+  });
+
+  it('discards a cache written by another version', async () => {
+    const cachePath = join(tempDir, 'cache.json');
+    await writeFile(cachePath, JSON.stringify({ version: 0, pages: { x: {} } }));
+    const cache = await loadCache(cachePath);
+    expect(cache.pages).toEqual({});
+  });
+});
+
+describe('hashPage', () => {
+  it('changes when content changes', () => {
+    expect(hashPage(page)).not.toBe(hashPage({ ...page, content: 'New content.' }));
+  });
+
+  it('ignores the URL', () => {
+    expect(hashPage(page)).toBe(hashPage({ ...page, url: 'https://example.com/other' }));
+  });
+});
+
+describe('isFreshByLastmod', () => {
+  it('is fresh only when both lastmods are present and equal', () => {
+    const cache = emptyCache();
+    recordPage(cache, page, { lastmod: '2024-01-01' });
+    const cached = cache.pages[page.url];
+    expect(isFreshByLastmod(cached, '2024-01-01')).toBe(true);
+    expect(isFreshByLastmod(cached, '2024-02-01')).toBe(false);
+    expect(isFreshByLastmod(cached, undefined)).toBe(false);
+    expect(isFreshByLastmod(undefined, '2024-01-01')).toBe(false);
+  });
+});
+
+describe('recordPage', () => {
+  it('keeps the AI description of an existing entry', () => {
+    const cache = emptyCache();
+    recordPage(cache, page, {});
+    cache.pages[page.url].aiDescription = 'AI text';
+    recordPage(cache, page, { etag: '"new"' });
+    expect(cache.pages[page.url].aiDescription).toBe('AI text');
+    expect(cache.pages[page.url].etag).toBe('"new"');
+  });
+});
+
+describe('withCachedDescriptions', () => {
+  it('generates descriptions for uncached pages and records them', async () => {
+    const cache = emptyCache();
+    recordPage(cache, page, {});
+    const generate = vi.fn(async (pages: PageData[]) =>
+      pages.map(p => ({ ...p, description: 'AI description.' })));
+
+    const result = await withCachedDescriptions([page], cache, generate);
+
+    expect(result.pages[0].description).toBe('AI description.');
+    expect(result.reused).toBe(0);
+    expect(cache.pages[page.url].aiDescription).toBe('AI description.');
+  });
+
+  it('reuses the cached description when the page is unchanged', async () => {
+    const cache = emptyCache();
+    recordPage(cache, page, {});
+    await withCachedDescriptions([page], cache, async pages =>
+      pages.map(p => ({ ...p, description: 'AI description.' })));
+
+    const generate = vi.fn();
+    const result = await withCachedDescriptions([page], cache, generate);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(result.pages[0].description).toBe('AI description.');
+    expect(result.reused).toBe(1);
+  });
+
+  it('regenerates when the page content changed', async () => {
+    const cache = emptyCache();
+    recordPage(cache, page, {});
+    await withCachedDescriptions([page], cache, async pages =>
+      pages.map(p => ({ ...p, description: 'Old AI description.' })));
+
+    const changed = { ...page, content: 'Rewritten docs.' };
+    const generate = vi.fn(async (pages: PageData[]) =>
+      pages.map(p => ({ ...p, description: 'New AI description.' })));
+    const result = await withCachedDescriptions([changed], cache, generate);
+
+    expect(generate).toHaveBeenCalledOnce();
+    expect(result.pages[0].description).toBe('New AI description.');
+  });
+
+  it('regenerates when the prompt changed', async () => {
+    const cache = emptyCache();
+    recordPage(cache, page, {});
+    await withCachedDescriptions([page], cache, async pages =>
+      pages.map(p => ({ ...p, description: 'Neutral description.' })), () => 'tone: neutral');
+
+    const generate = vi.fn(async (pages: PageData[]) =>
+      pages.map(p => ({ ...p, description: 'How to read the docs.' })));
+    const same = await withCachedDescriptions([page], cache, generate, () => 'tone: neutral');
+    expect(same.reused).toBe(1);
+    const changed = await withCachedDescriptions([page], cache, generate, () => 'tone: imperative');
+    expect(changed.pages[0].description).toBe('How to read the docs.');
+    expect(generate).toHaveBeenCalledOnce();
+  });
+
+  it('lists the pages that would be sent to the provider', async () => {
+    const cache = emptyCache();
+    const other = { ...page, url: 'https://example.com/other' };
+    recordPage(cache, page, {});
+    recordPage(cache, other, {});
+    await withCachedDescriptions([page], cache, async pages =>
+      pages.map(p => ({ ...p, description: 'AI description.' })));
+    expect(uncachedPages([page, other], cache).map(p => p.url)).toEqual([other.url]);
+    expect(uncachedPages([page], cache, () => 'new prompt')).toEqual([page]);
+  });
+
+  it('does not cache a fallback to the original description', async () => {
+    const cache = emptyCache();
+    recordPage(cache, page, {});
+    await withCachedDescriptions([page], cache, async pages => pages);
+    expect(cache.pages[page.url].aiDescription).toBeUndefined();
+  });
+
+  it('preserves page order when mixing cached and generated pages', async () => {
+    const other = { ...page, url: 'https://example.com/about', content: 'About.' };
+    const cache = emptyCache();
+    recordPage(cache, page, {});
+    recordPage(cache, other, {});
+    await withCachedDescriptions([page], cache, async pages =>
+      pages.map(p => ({ ...p, description: 'Cached.' })));
+
+    const result = await withCachedDescriptions([other, page], cache, async pages =>
+      pages.map(p => ({ ...p, description: 'Fresh.' })));
+    expect(result.pages.map(p => p.description)).toEqual(['Fresh.', 'Cached.']);
+  });
+});
@@ -1,8 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { mkdtemp, writeFile, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { loadConfig } from '../src/config.js';
+import { loadConfig, validateConfig } from '../src/config.js';
 
 let tempDir: string;
 
@@ -15,9 +15,17 @@ afterEach(async () => {
 });
 
 describe('loadConfig', () => {
-  it('returns empty object when file does not exist', async () => {
-    const config = await loadConfig(join(tempDir, 'nonexistent.json'));
-    expect(config).toEqual({});
+  it('throws when an explicitly given file does not exist', async () => {
+    await expect(loadConfig(join(tempDir, 'nonexistent.json'))).rejects.toThrow('Config file not found');
+  });
+
+  it('returns empty object when no config file is found in the working directory', async () => {
+    const cwd = vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    try {
+      expect(await loadConfig()).toEqual({});
+    } finally {
+      cwd.mockRestore();
+    }
   });
 
   it('parses siteName and siteDescription', async () => {
@@ -37,6 +45,17 @@ describe('loadConfig', () => {
     expect(config.exclude).toEqual(['https://example.com/admin', 'https://example.com/login']);
   });
 
+  it('parses include and exclude patterns', async () => {
+    const configPath = join(tempDir, 'llm.config.json');
+    await writeFile(configPath, JSON.stringify({
+      include: ['/docs/**'],
+      exclude: ['/blog/tag/*', 're:[?&]page='],
+    }));
+    const config = await loadConfig(configPath);
+    expect(config.include).toEqual(['/docs/**']);
+    expect(config.exclude).toEqual(['/blog/tag/*', 're:[?&]page=']);
+  });
+
   it('parses per-page overrides', async () => {
     const configPath = join(tempDir, 'llm.config.json');
     await writeFile(configPath, JSON.stringify({
@@ -67,3 +86,227 @@ describe('loadConfig', () => {
     expect(config.exclude).toBeUndefined();
   });
 });
+
+describe('loadConfig — file formats', () => {
+  it('parses YAML config files', async () => {
+    const configPath = join(tempDir, 'llm.config.yaml');
+    await writeFile(configPath, 'siteName: YAML Site\nlimit: 20\nexclude:\n  - /blog/tag/*\n');
+    const config = await loadConfig(configPath);
+    expect(config).toEqual({ siteName: 'YAML Site', limit: 20, exclude: ['/blog/tag/*'] });
+  });
+
+  it('loads the default export of an .mjs config', async () => {
+    const configPath = join(tempDir, 'llm.config.mjs');
+    await writeFile(configPath, 'export default { siteName: "JS Site", render: "browser" };');
+    const config = await loadConfig(configPath);
+    expect(config).toEqual({ siteName: 'JS Site', render: 'browser' });
+  });
+
+  it('loads module.exports of a .cjs config', async () => {
+    const configPath = join(tempDir, 'llm.config.cjs');
+    await writeFile(configPath, 'module.exports = { siteName: "CJS Site" };');
+    const config = await loadConfig(configPath);
+    expect(config).toEqual({ siteName: 'CJS Site' });
+  });
+
+  it('finds a config file in the working directory when no path is given', async () => {
+    await writeFile(join(tempDir, 'llm.config.yml'), 'siteName: Found Me\n');
+    const cwd = vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    try {
+      const config = await loadConfig();
+      expect(config.siteName).toBe('Found Me');
+    } finally {
+      cwd.mockRestore();
+    }
+  });
+
+  it('resolves relative paths against the config file, not the working directory', async () => {
+    const configPath = join(tempDir, 'llm.config.json');
+    await writeFile(configPath, JSON.stringify({
+      output: 'public/llm.txt',
+      cache: '.cache/llm.json',
+      urlsFile: '../urls.txt',
+      report: '/var/reports/run.json',
+      aiPrompt: 'Describe {{title}}',
+    }));
+    const config = await loadConfig(configPath);
+    expect(config.output).toBe(join(tempDir, 'public/llm.txt'));
+    expect(config.cache).toBe(join(tempDir, '.cache/llm.json'));
+    expect(config.urlsFile).toBe(join(tempDir, '../urls.txt'));
+    expect(config.report).toBe('/var/reports/run.json');
+    expect(config.aiPrompt).toBe('Describe {{title}}');
+  });
+
+  it('reports malformed JSON with the file name', async () => {
+    const configPath = join(tempDir, 'llm.config.json');
+    await writeFile(configPath, '{ "siteName": "Oops", }');
+    await expect(loadConfig(configPath)).rejects.toThrow('Invalid JSON in llm.config.json');
+  });
+
+  it('reports malformed YAML with the file name', async () => {
+    const configPath = join(tempDir, 'llm.config.yaml');
+    await writeFile(configPath, 'siteName: [unclosed\n');
+    await expect(loadConfig(configPath)).rejects.toThrow('Invalid YAML in llm.config.yaml');
+  });
+});
+
+describe('validateConfig', () => {
+  it('accepts every run option', () => {
+    const config = {
+      siteName: 'S',
+      sitemap: 'https://example.com/sitemap.xml',
+      output: 'public/llm.txt',
+      fullOutput: 'public/llm-full.txt',
+      limit: 100,
+      concurrency: 8,
+      render: 'browser',
+      ai: 'claude',
+      maxDepth: 3,
+      scope: '/docs/',
+      stripQuery: true,
+      delay: 250,
+      ignoreRobots: false,
+      cache: '.cache.json',
+    };
+    expect(validateConfig(config)).toEqual(config);
+  });
+
+  it('flags unknown keys and suggests the closest known one', () => {
+    expect(() => validateConfig({ overides: {} }, 'llm.config.json'))
+      .toThrow('overides: unknown option (did you mean "overrides"?)');
+  });
+
+  it('qualifies errors with the path to the bad value', () => {
+    expect(() => validateConfig({
+      overrides: { 'https://example.com/docs': { title: 42 } },
+    })).toThrow('overrides["https://example.com/docs"].title: expected a string, got 42');
+  });
+
+  it('reports every problem at once', () => {
+    try {
+      validateConfig({ limit: 0, render: 'chrome', exclude: 'nope' }, 'llm.config.json');
+      expect.unreachable();
+    } catch (err) {
+      const message = (err as Error).message;
+      expect(message).toContain('Invalid config in llm.config.json');
+      expect(message).toContain('limit: expected an integer >= 1, got 0');
+      expect(message).toContain('render: expected one of "fetch", "browser", "firecrawl", got "chrome"');
+      expect(message).toContain('exclude: expected an array, got "nope"');
+    }
+  });
+
+  it('rejects unknown AI providers', () => {
+    expect(() => validateConfig({ ai: 'bard' })).toThrow('ai: expected one of');
+  });
+
+  it('rejects invalid regex URL patterns', () => {
+    expect(() => validateConfig({ exclude: ['re:(unclosed'] })).toThrow('exclude: Invalid regex');
+  });
+
+  it('accepts sections and keyPages', () => {
+    const config = {
+      keyPages: ['/', '/pricing'],
+      sections: [
+        { label: 'Guides', patterns: ['/docs/guides/**'], description: 'How-tos.', sort: 'title', maxEntries: 10 },
+        { label: 'Changelog', patterns: ['/changelog/**'], optional: true },
+      ],
+    };
+    expect(validateConfig(config)).toEqual(config);
+  });
+
+  it('requires a label and patterns for each section', () => {
+    expect(() => validateConfig({ sections: [{ patterns: ['/docs/**'] }] }))
+      .toThrow('sections[0].label: required');
+  });
+
+  it('accepts content selectors and rejects invalid ones', () => {
+    const config = { contentSelector: '.docs-body', removeSelectors: ['.promo', '#chat-widget'] };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ removeSelectors: ['.ok', 'a['] }))
+      .toThrow('removeSelectors[1]: invalid CSS selector "a["');
+  });
+
+  it('accepts budget sizes as numbers or strings', () => {
+    const config = { pageBudget: 4000, totalBudget: '100k', budgetUnit: 'tokens' };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ totalBudget: 'huge' })).toThrow('totalBudget: Invalid size "huge"');
+  });
+
+  it('accepts a custom AI endpoint', () => {
+    const config = {
+      ai: 'openai-compatible',
+      aiModel: 'llama3.1',
+      aiBaseUrl: 'http://localhost:11434/v1',
+      aiHeaders: { 'api-key': '${AZURE_KEY}' },
+      aiApiKeyEnv: 'GATEWAY_TOKEN',
+      aiSummary: true,
+      aiGroup: true,
+    };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ aiHeaders: { 'x-team': 7 } })).toThrow('aiHeaders["x-team"]: expected a string, got 7');
+  });
+
+  it('accepts AI description styles and checks prompt placeholders', () => {
+    const config = {
+      aiPrompt: 'Describe {{title}} ({{url}}) in {{maxWords}} words.',
+      aiMaxWords: 25,
+      aiTone: 'neutral',
+      aiLanguage: 'German',
+      aiContentChars: 2000,
+      sections: [{ label: 'Docs', patterns: ['/docs/**'], aiTone: "imperative, starting with 'How to'", aiMaxWords: 15 }],
+    };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ aiPrompt: 'Describe {{titel}}' }))
+      .toThrow('aiPrompt: unknown placeholder {{titel}} (available: title, h1,');
+    expect(() => validateConfig({ sections: [{ label: 'Docs', patterns: ['/docs/**'], aiPrompt: '{{body}}' }] }))
+      .toThrow('sections[0].aiPrompt: unknown placeholder {{body}}');
+  });
+
+  it('accepts custom pricing and a report path', () => {
+    const config = { aiPricing: { input: 0.2, output: 0.8 }, report: 'reports/run.json' };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ aiPricing: { input: -1 } }))
+      .toThrow(/aiPricing\.output: required[\s\S]*aiPricing\.input: expected a number >= 0, got -1/);
+  });
+
+  it('accepts a batch state file and wait time', () => {
+    const config = { aiBatch: '.llm-txt-batch.json', aiBatchWait: 30 };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ aiBatchWait: -5 })).toThrow('aiBatchWait');
+  });
+
+  it('accepts a recorded-responses file and mode', () => {
+    const config = { aiReplay: 'ai-responses.json', aiReplayMode: 'read-only' };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ aiReplayMode: 'replay' })).toThrow('aiReplayMode');
+  });
+
+  it('accepts language filters and per-language output', () => {
+    const config = { lang: ['de', 'pt-BR'], splitLocales: true };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ lang: ['german'] })).toThrow('lang[0]: expected a language tag like "de" or "pt-BR", got "german"');
+  });
+
+  it('accepts a selection strategy and section quotas', () => {
+    const config = { select: 'recent', sections: [{ label: 'Blog', patterns: ['/blog/**'], quota: 10 }] };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ select: 'random' })).toThrow('select');
+    expect(() => validateConfig({ sections: [{ label: 'Blog', patterns: ['/blog/**'], quota: -1 }] })).toThrow('quota');
+  });
+
+  it('accepts noindex and nofollow settings', () => {
+    const config = { includeNoindex: true, followNofollow: false };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ includeNoindex: 'yes' })).toThrow('includeNoindex');
+  });
+
+  it('accepts duplicate merging settings', () => {
+    const config = { dedupe: false, dedupeDistance: 0 };
+    expect(validateConfig(config)).toEqual(config);
+    expect(() => validateConfig({ dedupeDistance: -1 })).toThrow('dedupeDistance');
+  });
+
+  it('rejects a non-object config', () => {
+    expect(() => validateConfig(['a'])).toThrow('config: expected an object, got an array');
+  });
+});
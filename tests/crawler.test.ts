@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { fetchPage, crawlSite } from '../src/crawler.js';
+import { fetchPage, fetchPageIfChanged, crawlSite, cleanUrl, normalizeUrl } from '../src/crawler.js';
+import { createRobotsGate } from '../src/robots.js';
 
 const mockFetch = vi.fn();
 
@@ -12,8 +13,8 @@ afterEach(() => {
   vi.unstubAllGlobals();
 });
 
-function res(body: string, status = 200) {
-  return { ok: status >= 200 && status < 300, status, text: () => Promise.resolve(body) };
+function res(body: string, status = 200, headers: Record<string, string> = {}) {
+  return { ok: status >= 200 && status < 300, status, headers: new Headers(headers), text: () => Promise.resolve(body) };
 }
 
 describe('fetchPage', () => {
@@ -39,6 +40,82 @@ describe('fetchPage', () => {
     const [, options] = mockFetch.mock.calls[0] as [string, RequestInit];
     expect((options.headers as Record<string, string>)['User-Agent']).toContain('llm-txt-gen');
   });
+
+  it('refuses URLs disallowed by robots.txt without fetching', async () => {
+    const robots = createRobotsGate({ rules: [{ allow: false, pattern: '/private' }] });
+    await expect(fetchPage('https://example.com/private/page', robots)).rejects.toThrow('robots.txt');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('fetchPageIfChanged', () => {
+  it('sends If-None-Match and If-Modified-Since from the validators', async () => {
+    mockFetch.mockResolvedValueOnce(res('', 304));
+    await fetchPageIfChanged('https://example.com', {
+      etag: '"v1"',
+      lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+    });
+    const [, options] = mockFetch.mock.calls[0] as [string, RequestInit];
+    const headers = options.headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('"v1"');
+    expect(headers['If-Modified-Since']).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+  });
+
+  it('returns null on 304 Not Modified', async () => {
+    mockFetch.mockResolvedValueOnce(res('', 304));
+    expect(await fetchPageIfChanged('https://example.com', { etag: '"v1"' })).toBeNull();
+  });
+
+  it('returns HTML and new validators on 200', async () => {
+    mockFetch.mockResolvedValueOnce(res('<html>New</html>', 200, {
+      ETag: '"v2"',
+      'Last-Modified': 'Tue, 02 Jan 2024 00:00:00 GMT',
+    }));
+    const page = await fetchPageIfChanged('https://example.com', { etag: '"v1"' });
+    expect(page).toEqual({
+      html: '<html>New</html>',
+      etag: '"v2"',
+      lastModified: 'Tue, 02 Jan 2024 00:00:00 GMT',
+    });
+  });
+
+  it('keeps the X-Robots-Tag header', async () => {
+    mockFetch.mockResolvedValueOnce(res('<html></html>', 200, { 'X-Robots-Tag': 'noindex' }));
+    const page = await fetchPageIfChanged('https://example.com', {});
+    expect(page?.robotsTag).toBe('noindex');
+  });
+
+  it('throws on HTTP errors', async () => {
+    mockFetch.mockResolvedValueOnce(res('Gone', 410));
+    await expect(fetchPageIfChanged('https://example.com', {})).rejects.toThrow('HTTP 410');
+  });
+});
+
+describe('cleanUrl', () => {
+  it('keeps the trailing slash but drops fragments and tracking params', () => {
+    expect(cleanUrl('https://example.com/guide/?utm_source=x#intro')).toBe('https://example.com/guide/');
+    expect(cleanUrl('https://example.com/')).toBe('https://example.com');
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('strips fragments and trailing slashes', () => {
+    expect(normalizeUrl('https://example.com/docs/#intro')).toBe('https://example.com/docs');
+    expect(normalizeUrl('https://example.com/')).toBe('https://example.com');
+  });
+
+  it('lowercases the host', () => {
+    expect(normalizeUrl('https://EXAMPLE.com/Docs')).toBe('https://example.com/Docs');
+  });
+
+  it('drops tracking params and sorts the rest', () => {
+    expect(normalizeUrl('https://example.com/p?utm_source=x&b=2&fbclid=y&a=1'))
+      .toBe('https://example.com/p?a=1&b=2');
+  });
+
+  it('drops the whole query string when asked', () => {
+    expect(normalizeUrl('https://example.com/p?page=2', true)).toBe('https://example.com/p');
+  });
 });
 
 describe('crawlSite', () => {
@@ -152,4 +229,200 @@ describe('crawlSite', () => {
     // home + about + docs = 3 fetches max
     expect(mockFetch.mock.calls.length).toBeLessThanOrEqual(4);
   });
+
+  it('does not follow links disallowed by robots.txt', async () => {
+    const robots = createRobotsGate({ rules: [{ allow: false, pattern: '/docs' }] });
+    mockFetch
+      .mockResolvedValueOnce(res(homeHtml))
+      .mockResolvedValue(res('<html><body></body></html>'));
+    const entries = await crawlSite('https://example.com', 10, { robots });
+    const urls = entries.map(e => e.url);
+    expect(urls).toContain('https://example.com/about');
+    expect(urls).not.toContain('https://example.com/docs');
+    expect(mockFetch.mock.calls.map(c => c[0])).not.toContain('https://example.com/docs');
+  });
+
+  it('fetches pages in parallel up to the concurrency limit', async () => {
+    const links = Array.from({ length: 6 }, (_, i) => `<a href="/p${i}">P${i}</a>`).join('');
+    let inFlight = 0;
+    let peak = 0;
+    mockFetch.mockImplementation(async (url: string) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(r => setTimeout(r, 5));
+      inFlight--;
+      return res(url === 'https://example.com' ? `<html><body>${links}</body></html>` : '<html></html>');
+    });
+    const entries = await crawlSite('https://example.com', 10, { concurrency: 3 });
+    expect(entries).toHaveLength(7);
+    expect(peak).toBe(3);
+  });
+
+  it('keeps discovery order regardless of completion order', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.endsWith('/about')) await new Promise(r => setTimeout(r, 10));
+      return res(url === 'https://example.com' ? homeHtml : '<html></html>');
+    });
+    const entries = await crawlSite('https://example.com', 10, { concurrency: 5 });
+    expect(entries.map(e => e.url)).toEqual([
+      'https://example.com',
+      'https://example.com/about',
+      'https://example.com/docs',
+    ]);
+  });
+
+  it('stops following links beyond maxDepth', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === 'https://example.com') return res('<a href="/level-1">1</a>');
+      if (url.endsWith('/level-1')) return res('<a href="/level-2">2</a>');
+      return res('<html></html>');
+    });
+    const entries = await crawlSite('https://example.com', 10, { maxDepth: 1 });
+    const urls = entries.map(e => e.url);
+    expect(urls).toContain('https://example.com/level-1');
+    expect(urls).not.toContain('https://example.com/level-2');
+  });
+
+  it('only crawls URLs under the scope prefix', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === 'https://example.com/docs/') {
+        return res('<a href="/docs/intro">Intro</a><a href="/blog/post">Post</a><a href="/docsearch">S</a>');
+      }
+      return res('<html></html>');
+    });
+    const entries = await crawlSite('https://example.com', 10, { scope: '/docs/' });
+    expect(entries.map(e => e.url)).toEqual(['https://example.com/docs/', 'https://example.com/docs/intro']);
+  });
+
+  it('applies include and exclude globs to discovered links', async () => {
+    const html = `<a href="/blog/post-1">1</a><a href="/blog/tag/news">Tag</a><a href="/about">About</a>`;
+    mockFetch
+      .mockResolvedValueOnce(res(html))
+      .mockResolvedValue(res('<html></html>'));
+    const entries = await crawlSite('https://example.com', 10, {
+      include: ['/blog/**'],
+      exclude: ['/blog/tag/*'],
+    });
+    expect(entries.map(e => e.url)).toEqual(['https://example.com', 'https://example.com/blog/post-1']);
+  });
+
+  it('matches regex rules against the full URL and reports skipped links', async () => {
+    const html = `<a href="/shop?page=2">Page 2</a><a href="/shop/shoes">Shoes</a>`;
+    mockFetch
+      .mockResolvedValueOnce(res(html))
+      .mockResolvedValue(res('<html></html>'));
+    const onSkip = vi.fn();
+    const entries = await crawlSite('https://example.com', 10, { exclude: ['re:[?&]page='], onSkip });
+    expect(entries.map(e => e.url)).not.toContain('https://example.com/shop?page=2');
+    expect(onSkip).toHaveBeenCalledWith('https://example.com/shop?page=2', 'exclude "re:[?&]page="');
+  });
+
+  it('treats trailing-slash and tracking-param variants as the same page', async () => {
+    const html = `<a href="/about/">A</a><a href="/about?utm_source=nav">B</a><a href="/ABOUT">C</a>`;
+    mockFetch
+      .mockResolvedValueOnce(res(html))
+      .mockResolvedValue(res('<html></html>'));
+    const entries = await crawlSite('https://example.com', 10);
+    const urls = entries.map(e => e.url);
+    expect(urls.filter(u => normalizeUrl(u) === 'https://example.com/about')).toHaveLength(1);
+    // Paths stay case-sensitive
+    expect(urls).toContain('https://example.com/ABOUT');
+  });
+
+  it('resolves relative links against the final URL, keeping its trailing slash', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url === 'https://example.com') return res('<a href="/guide">Guide</a>');
+      if (url === 'https://example.com/guide') {
+        // Redirected to /guide/, as directory-style docs sites do
+        return { ...res('<a href="install/">Install</a><a href="../about/">About</a>'), url: 'https://example.com/guide/' };
+      }
+      return res('<html></html>');
+    });
+    const entries = await crawlSite('https://example.com', 10);
+    expect(entries.map(e => e.url)).toEqual([
+      'https://example.com',
+      'https://example.com/guide',
+      'https://example.com/guide/install/',
+      'https://example.com/about/',
+    ]);
+    expect(mockFetch.mock.calls.map(c => c[0])).not.toContain('https://example.com/install');
+  });
+
+  it('resolves relative links against <base href>', async () => {
+    mockFetch
+      .mockResolvedValueOnce(res('<base href="/docs/v2/"><a href="intro">Intro</a>'))
+      .mockResolvedValue(res('<html></html>'));
+    const entries = await crawlSite('https://example.com', 10);
+    expect(entries.map(e => e.url)).toEqual(['https://example.com', 'https://example.com/docs/v2/intro']);
+  });
+
+  it('waits delayMs between requests to the same host', async () => {
+    vi.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(res(homeHtml))
+      .mockResolvedValue(res('<html></html>'));
+    const crawl = crawlSite('https://example.com', 10, { delayMs: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    await crawl;
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    vi.useRealTimers();
+  });
+
+  describe('robots directives', () => {
+    function site(pages: Record<string, ReturnType<typeof res>>) {
+      mockFetch.mockImplementation(async (url: string) => pages[url] ?? res('<html></html>'));
+    }
+
+    it('leaves out noindex pages but follows their links', async () => {
+      site({
+        'https://example.com': res('<a href="/search">Search</a>'),
+        'https://example.com/search': res('<meta name="robots" content="noindex, follow"><a href="/docs">Docs</a>'),
+      });
+      const onSkip = vi.fn();
+      const entries = await crawlSite('https://example.com', 10, { onSkip });
+      expect(entries.map(e => e.url)).toEqual(['https://example.com', 'https://example.com/docs']);
+      expect(onSkip).toHaveBeenCalledWith('https://example.com/search', 'noindex');
+    });
+
+    it('reads noindex and noai from X-Robots-Tag, ignoring directives for other agents', async () => {
+      site({
+        'https://example.com': res('<a href="/a">A</a><a href="/b">B</a><a href="/c">C</a>'),
+        'https://example.com/a': res('', 200, { 'X-Robots-Tag': 'noindex' }),
+        'https://example.com/b': res('', 200, { 'X-Robots-Tag': 'noai' }),
+        'https://example.com/c': res('', 200, { 'X-Robots-Tag': 'googlebot: noindex' }),
+      });
+      const entries = await crawlSite('https://example.com', 10);
+      expect(entries.map(e => e.url)).toEqual(['https://example.com', 'https://example.com/c']);
+    });
+
+    it('does not follow rel="nofollow" links or links on nofollow pages', async () => {
+      site({
+        'https://example.com': res('<a href="/login" rel="noopener nofollow">Log in</a><a href="/blog">Blog</a>'),
+        'https://example.com/blog': res('<meta name="robots" content="nofollow"><a href="/blog/post">Post</a>'),
+      });
+      const entries = await crawlSite('https://example.com', 10);
+      expect(entries.map(e => e.url)).toEqual(['https://example.com', 'https://example.com/blog']);
+    });
+
+    it('still crawls a nofollow link that another page links to normally', async () => {
+      site({
+        'https://example.com': res('<a href="/pricing" rel="nofollow">Pricing</a><a href="/about">About</a>'),
+        'https://example.com/about': res('<a href="/pricing">Pricing</a>'),
+      });
+      const entries = await crawlSite('https://example.com', 10);
+      expect(entries.map(e => e.url)).toContain('https://example.com/pricing');
+    });
+
+    it('keeps noindex pages and follows nofollow links when asked to', async () => {
+      site({
+        'https://example.com': res('<meta name="robots" content="none"><a href="/login" rel="nofollow">Log in</a>'),
+      });
+      const entries = await crawlSite('https://example.com', 10, { includeNoindex: true, followNofollow: true });
+      expect(entries.map(e => e.url)).toEqual(['https://example.com', 'https://example.com/login']);
+    });
+  });
 });
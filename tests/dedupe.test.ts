@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { dedupePages, hammingDistance, simhash, urlKey } from '../src/dedupe.js';
+import type { PageData } from '../src/extractor.js';
+
+function makePage(url: string, extra: Partial<PageData> = {}): PageData {
+  return { url, title: url, description: '', h1: '', content: '', ...extra };
+}
+
+const ARTICLE = Array.from({ length: 12 }, (_, i) =>
+  `Section ${i} explains how the scheduler assigns worker ${i} to queue ${i * 7} and retries failed jobs.`,
+).join(' ');
+
+describe('urlKey', () => {
+  it('treats http, index files and trailing slashes as one page', () => {
+    expect(urlKey('http://example.com/docs/index.html')).toBe(urlKey('https://example.com/docs/'));
+    expect(urlKey('https://example.com/docs')).toBe(urlKey('https://example.com/docs/'));
+  });
+
+  it('keeps distinct paths apart', () => {
+    expect(urlKey('https://example.com/a')).not.toBe(urlKey('https://example.com/b'));
+  });
+});
+
+describe('simhash', () => {
+  it('is undefined for short text', () => {
+    expect(simhash('Just a few words here')).toBeUndefined();
+  });
+
+  it('gives near-identical text a close fingerprint and different text a distant one', () => {
+    const a = simhash(ARTICLE)!;
+    const b = simhash(`${ARTICLE} Updated today.`)!;
+    const c = simhash(ARTICLE.replace(/scheduler|worker|queue|retries|jobs/g, 'banana'))!;
+    expect(hammingDistance(a, a)).toBe(0);
+    expect(hammingDistance(a, b)).toBeLessThanOrEqual(3);
+    expect(hammingDistance(a, c)).toBeGreaterThan(3);
+  });
+});
+
+describe('dedupePages', () => {
+  it('merges the same page under several URLs', () => {
+    const { pages, merged } = dedupePages([
+      makePage('https://example.com/docs/'),
+      makePage('http://example.com/docs/index.html'),
+    ]);
+    expect(pages.map(p => p.url)).toEqual(['https://example.com/docs/']);
+    expect(merged).toEqual([
+      { url: 'http://example.com/docs/index.html', into: 'https://example.com/docs/', reason: 'same URL' },
+    ]);
+  });
+
+  it('keeps the canonical page of a group', () => {
+    const canonical = 'https://example.com/shoes';
+    const { pages, merged } = dedupePages([
+      makePage('https://example.com/shoes?sort=price', { canonical }),
+      makePage('https://example.com/shoes', { canonical }),
+      makePage('https://example.com/shoes?page=2', { canonical }),
+    ]);
+    expect(pages.map(p => p.url)).toEqual([canonical]);
+    expect(merged.map(m => [m.url, m.into, m.reason])).toEqual([
+      ['https://example.com/shoes?sort=price', canonical, 'canonical'],
+      ['https://example.com/shoes?page=2', canonical, 'canonical'],
+    ]);
+  });
+
+  it('groups pages whose canonical points at a page that was not crawled', () => {
+    const canonical = 'https://example.com/guide';
+    const { pages, merged } = dedupePages([
+      makePage('https://example.com/guide?v=1', { canonical }),
+      makePage('https://example.com/guide?v=2', { canonical }),
+    ]);
+    expect(pages).toHaveLength(1);
+    expect(merged).toHaveLength(1);
+  });
+
+  it('merges near-duplicate content, preferring higher priority', () => {
+    const { pages, merged } = dedupePages([
+      makePage('https://example.com/blog/tag/scheduler', { content: ARTICLE, priority: 0.3 }),
+      makePage('https://example.com/blog/scheduler', { content: `${ARTICLE} Updated today.`, priority: 0.8 }),
+    ]);
+    expect(pages.map(p => p.url)).toEqual(['https://example.com/blog/scheduler']);
+    expect(merged[0]).toEqual({
+      url: 'https://example.com/blog/tag/scheduler',
+      into: 'https://example.com/blog/scheduler',
+      reason: 'near-duplicate',
+    });
+  });
+
+  it('still merges identical content with a distance of 0', () => {
+    const { pages } = dedupePages([
+      makePage('https://example.com/a', { content: ARTICLE }),
+      makePage('https://example.com/b', { content: ARTICLE }),
+      makePage('https://example.com/c', { content: ARTICLE.replace(/scheduler|worker|queue/g, 'banana') }),
+    ], { maxDistance: 0 });
+    expect(pages.map(p => p.url)).toEqual(['https://example.com/a', 'https://example.com/c']);
+  });
+
+  it('keeps short and distinct pages, in order', () => {
+    const input = [
+      makePage('https://example.com/', { content: 'Welcome' }),
+      makePage('https://example.com/about', { content: 'Welcome' }),
+      makePage('https://example.com/docs', { content: ARTICLE }),
+    ];
+    const { pages, merged } = dedupePages(input);
+    expect(pages).toEqual(input);
+    expect(merged).toEqual([]);
+  });
+});
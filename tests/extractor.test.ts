@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractPageData, getPageDescription, getPageTitle } from '../src/extractor.js';
+import { extractPageData, getPageDescription, getPageTitle, MAX_CONTENT_LENGTH, withRobotsHeader } from '../src/extractor.js';
 
 const sampleHtml = `
 <!DOCTYPE html>
@@ -59,11 +59,12 @@ describe('extractPageData', () => {
     expect(data.description).toBe('OG description here');
   });
 
-  it('truncates content to 3000 chars', () => {
-    const longContent = 'x'.repeat(5000);
-    const html = `<html><head><title>T</title></head><body><main><p>${longContent}</p></main></body></html>`;
-    const data = extractPageData('https://example.com', html);
-    expect(data.content.length).toBeLessThanOrEqual(3000);
+  it('keeps long content up to the safety cap', () => {
+    const html = `<html><head><title>T</title></head><body><main><p>${'x'.repeat(5000)}</p></main></body></html>`;
+    expect(extractPageData('https://example.com', html).content).toHaveLength(5000);
+
+    const huge = `<html><head><title>T</title></head><body><main><p>${'x'.repeat(MAX_CONTENT_LENGTH + 10)}</p></main></body></html>`;
+    expect(extractPageData('https://example.com', huge).content).toHaveLength(MAX_CONTENT_LENGTH);
   });
 
   it('returns empty string for title when no <title> tag', () => {
@@ -115,6 +116,22 @@ describe('extractPageData', () => {
     expect(data.content).toContain('Body fallback content');
   });
 
+  it('converts the main content to Markdown', () => {
+    const html = `<html><head><title>T</title></head><body><main>
+      <h2>Install</h2>
+      <p>See the <a href="/docs/api">API reference</a>.</p>
+      <pre><code class="language-bash">npm install my-lib</code></pre>
+      <ul><li>Fast</li><li>Small</li></ul>
+    </main></body></html>`;
+    const data = extractPageData('https://example.com/start', html);
+    expect(data.content).toBe([
+      '## Install',
+      'See the [API reference](https://example.com/docs/api).',
+      '```bash\nnpm install my-lib\n```',
+      '- Fast\n- Small',
+    ].join('\n\n'));
+  });
+
   it('removes <aside> elements from content', () => {
     const html = `<html><head><title>T</title></head><body><main>
       <p>Main content</p>
@@ -126,6 +143,140 @@ describe('extractPageData', () => {
   });
 });
 
+describe('extractPageData — content detection', () => {
+  const paragraph = (n: number) =>
+    `<p>Paragraph ${n} of the article explains the feature, its options, and how to use it in practice.</p>`;
+
+  it('finds the article when the whole page is wrapped in <main>', () => {
+    const html = `<html><body><main>
+      <div class="site-links"><a href="/a">Products</a> <a href="/b">Pricing</a> <a href="/c">Company and careers</a></div>
+      <div class="article-body">${paragraph(1)}${paragraph(2)}${paragraph(3)}</div>
+      <div class="footer-links"><p><a href="/terms">Terms of service and privacy policy for everyone</a></p></div>
+    </main></body></html>`;
+    const data = extractPageData('https://example.com/post', html);
+    expect(data.content).toContain('Paragraph 1');
+    expect(data.content).toContain('Paragraph 3');
+    expect(data.content).not.toContain('Products');
+    expect(data.content).not.toContain('Terms of service');
+  });
+
+  it('keeps a <header> inside an article', () => {
+    const html = `<html><body>
+      <header>Site header</header>
+      <article><header><h2>Release notes</h2></header>${paragraph(1)}${paragraph(2)}</article>
+    </body></html>`;
+    const data = extractPageData('https://example.com/post', html);
+    expect(data.content).toContain('## Release notes');
+    expect(data.content).not.toContain('Site header');
+  });
+
+  it('removes cookie banners', () => {
+    const html = `<html><body><main>${paragraph(1)}${paragraph(2)}</main>
+      <div class="cookie-notice"><p>We use cookies to give you the best experience, analytics, and ads.</p></div>
+      <div class="bar"><p>This site uses cookies, as explained in our policy, for various purposes.</p><button>Accept all</button></div>
+    </body></html>`;
+    const data = extractPageData('https://example.com/post', html);
+    expect(data.content).toContain('Paragraph 1');
+    expect(data.content).not.toMatch(/cookies/);
+  });
+
+  it('does not treat a page that only mentions cookies as a banner', () => {
+    const html = `<html><body><main><h1>Privacy</h1>
+      <p>We use cookies to remember your preferences, and you can clear them at any time.</p>
+    </main></body></html>`;
+    expect(extractPageData('https://example.com/privacy', html).content).toContain('We use cookies');
+  });
+
+  it('removes related posts and share widgets', () => {
+    const html = `<html><body><article>${paragraph(1)}${paragraph(2)}
+      <section class="related-posts"><p>Another post you might like, with a long enough teaser text.</p></section>
+      <div class="social-share">Share on X</div>
+    </article></body></html>`;
+    const data = extractPageData('https://example.com/post', html);
+    expect(data.content).not.toContain('Another post');
+    expect(data.content).not.toContain('Share on X');
+  });
+
+  it('uses the configured contentSelector', () => {
+    const html = `<html><body><main>${paragraph(1)}${paragraph(2)}</main><div class="changelog">Short changelog</div></body></html>`;
+    const data = extractPageData('https://example.com/post', html, { contentSelector: '.changelog' });
+    expect(data.content).toBe('Short changelog');
+  });
+
+  it('falls back to scoring when contentSelector matches nothing', () => {
+    const html = `<html><body><main>${paragraph(1)}${paragraph(2)}</main></body></html>`;
+    const data = extractPageData('https://example.com/post', html, { contentSelector: '.missing' });
+    expect(data.content).toContain('Paragraph 1');
+  });
+
+  it('removes the configured removeSelectors', () => {
+    const html = `<html><body><main>${paragraph(1)}<div class="callout-upsell">Upgrade to Pro today</div>${paragraph(2)}</main></body></html>`;
+    const data = extractPageData('https://example.com/post', html, { removeSelectors: ['.callout-upsell'] });
+    expect(data.content).not.toContain('Upgrade to Pro');
+  });
+});
+
+describe('extractPageData — language', () => {
+  it('reads <html lang>', () => {
+    const page = extractPageData('https://example.com/', '<html lang="pt_br"><head><title>Início</title></head><body></body></html>');
+    expect(page.lang).toBe('pt-BR');
+    expect(page.alternates).toBeUndefined();
+  });
+
+  it('prefers the hreflang the page lists for itself, and resolves alternate URLs', () => {
+    const html = `<html lang="en"><head>
+      <link rel="alternate" hreflang="en" href="/pricing">
+      <link rel="alternate" hreflang="de" href="/de/preise">
+      <link rel="alternate" hreflang="x-default" href="/pricing">
+    </head><body></body></html>`;
+    const page = extractPageData('https://example.com/de/preise', html);
+    expect(page.lang).toBe('de');
+    expect(page.alternates).toEqual({
+      'en': 'https://example.com/pricing',
+      'de': 'https://example.com/de/preise',
+      'x-default': 'https://example.com/pricing',
+    });
+  });
+
+  it('leaves the language out when the page declares none', () => {
+    expect(extractPageData('https://example.com/', sampleHtml)).not.toHaveProperty('lang');
+  });
+});
+
+describe('extractPageData — canonical and robots', () => {
+  it('resolves the canonical link against the page URL', () => {
+    const html = '<html><head><link rel="canonical" href="/docs/intro"></head><body></body></html>';
+    expect(extractPageData('https://example.com/docs/intro?ref=nav', html).canonical).toBe('https://example.com/docs/intro');
+  });
+
+  it('reads meta robots, lowercased', () => {
+    const html = '<html><head><meta name="Robots" content="NOINDEX, follow"></head><body></body></html>';
+    expect(extractPageData('https://example.com/', html).robots).toBe('noindex, follow');
+  });
+
+  it('reads directives addressed to llm-txt-gen and skips those for other agents', () => {
+    const html = `<html><head>
+      <meta name="googlebot" content="noindex">
+      <meta name="robots" content="bingbot: noindex, follow">
+      <meta name="llm-txt-gen" content="noai">
+    </head><body></body></html>`;
+    expect(extractPageData('https://example.com/', html).robots).toBe('noai');
+  });
+
+  it('adds the X-Robots-Tag header to the meta directives', () => {
+    const page = extractPageData('https://example.com/', '<meta name="robots" content="follow">');
+    expect(withRobotsHeader(page, 'noindex').robots).toBe('follow, noindex');
+    expect(withRobotsHeader(page, 'otherbot: noindex')).toBe(page);
+    expect(withRobotsHeader(page, null)).toBe(page);
+  });
+
+  it('leaves both out when the page has neither', () => {
+    const page = extractPageData('https://example.com/', sampleHtml);
+    expect(page).not.toHaveProperty('canonical');
+    expect(page).not.toHaveProperty('robots');
+  });
+});
+
 describe('getPageDescription', () => {
   it('prefers description over h1', () => {
     const page = { url: 'https://x.com', title: 'Title', description: 'Desc', h1: 'H1', content: '' };
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { crawlWithFirecrawl } from '../src/firecrawl.js';
+import { MAX_CONTENT_LENGTH } from '../src/extractor.js';
 
 const mockFetch = vi.fn();
 
@@ -107,6 +108,15 @@ describe('crawlWithFirecrawl', () => {
     expect(result.description).toBe('Welcome');
   });
 
+  it('keeps the meta robots directives Firecrawl reports', async () => {
+    const page = { url: 'https://example.com/search', markdown: '', metadata: { title: 'Search', robots: 'NOINDEX, follow' } };
+    mockFetch
+      .mockResolvedValueOnce(res({ id: 'job-robots', success: true }))
+      .mockResolvedValueOnce(res({ status: 'completed', data: [page] }));
+    const [result] = await crawlWithFirecrawl('https://example.com', 'fc-key', 50, 0);
+    expect(result.robots).toBe('noindex, follow');
+  });
+
   it('handles pages with no metadata gracefully', async () => {
     const page = { url: 'https://example.com/minimal', markdown: 'Some text.' };
     mockFetch
@@ -118,17 +128,17 @@ describe('crawlWithFirecrawl', () => {
     expect(result.h1).toBe('');
   });
 
-  it('truncates content to 3000 chars', async () => {
+  it('keeps long content up to the safety cap', async () => {
     const page = {
       url: 'https://example.com',
-      markdown: 'x'.repeat(5000),
+      markdown: 'x'.repeat(MAX_CONTENT_LENGTH + 5000),
       metadata: { title: 'Test', description: '' },
     };
     mockFetch
       .mockResolvedValueOnce(res({ id: 'job-trunc', success: true }))
       .mockResolvedValueOnce(res({ status: 'completed', data: [page] }));
     const [result] = await crawlWithFirecrawl('https://example.com', 'fc-key', 50, 0);
-    expect(result.content.length).toBeLessThanOrEqual(3000);
+    expect(result.content.length).toBe(MAX_CONTENT_LENGTH);
   });
 
   it('accumulates pages across multiple scraping polls', async () => {
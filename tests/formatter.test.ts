@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { formatLlmTxt, formatLlmFullTxt, cleanTitle } from '../src/formatter.js';
+import { formatLlmTxt, formatLlmFullTxt, fitLlmFullTxt, cleanTitle, planSections } from '../src/formatter.js';
+import { parseLlmsTxt } from '../src/lint.js';
 import type { PageData } from '../src/extractor.js';
 
 const FIXED_DATE = new Date('2026-01-15');
@@ -250,3 +251,269 @@ describe('formatLlmFullTxt', () => {
     expect(out).toContain('Docs content here.');
   });
 });
+
+describe('fitLlmFullTxt — budgets', () => {
+  const paragraphs = (label: string, n: number) =>
+    Array.from({ length: n }, (_, i) => `${label} paragraph ${i + 1}. ${'Lorem ipsum dolor sit amet. '.repeat(8)}`).join('\n\n');
+  const longPages: PageData[] = [
+    { url: 'https://example.com/', title: 'Home', description: 'Home', h1: 'Home', content: paragraphs('Home', 20) },
+    { url: 'https://example.com/docs/a', title: 'A', description: 'A', h1: 'A', content: paragraphs('A', 20), priority: 0.9 },
+    { url: 'https://example.com/docs/b', title: 'B', description: 'B', h1: 'B', content: paragraphs('B', 20), priority: 0.1 },
+  ];
+  const longOpts = { ...opts, pages: longPages };
+
+  it('caps each page at 3000 characters by default', () => {
+    const { report } = fitLlmFullTxt(longOpts);
+    expect(report.truncated).toHaveLength(3);
+    expect(report.truncated.every(t => t.to <= 3000)).toBe(true);
+  });
+
+  it('cuts pages at paragraph boundaries', () => {
+    const { text } = fitLlmFullTxt({ ...longOpts, budget: { unit: 'chars', perPage: 1000 } });
+    const docsA = text.split('URL: https://example.com/docs/a')[1].split('\n---')[0];
+    expect(docsA.trim()).toMatch(/amet\.$/);
+  });
+
+  it('keeps the whole file within the total budget', () => {
+    const { text, report } = fitLlmFullTxt({ ...longOpts, budget: { unit: 'chars', perPage: 100_000, total: 8000 } });
+    expect(text.length).toBeLessThanOrEqual(8000);
+    expect(report.size).toBe(text.length);
+  });
+
+  it('gives key pages and higher sitemap priority a larger share', () => {
+    const { report } = fitLlmFullTxt({ ...longOpts, budget: { unit: 'chars', perPage: 100_000, total: 9000 } });
+    const size = (url: string) => report.truncated.find(t => t.url === url)!.to;
+    expect(size('https://example.com/')).toBeGreaterThan(size('https://example.com/docs/a'));
+    expect(size('https://example.com/docs/a')).toBeGreaterThan(size('https://example.com/docs/b'));
+  });
+
+  it('omits the least important pages when the budget is too small for all of them', () => {
+    const budgetOpts = { ...longOpts, budget: { unit: 'chars' as const, total: 1200 } };
+    const { text, report } = fitLlmFullTxt(budgetOpts);
+    expect(report.omitted).toContain('https://example.com/docs/b');
+    expect(text).not.toContain('URL: https://example.com/docs/b');
+    expect(text.length).toBeLessThanOrEqual(1200);
+  });
+
+  it('measures budgets in approximate tokens', () => {
+    const { text, report } = fitLlmFullTxt({ ...longOpts, budget: { unit: 'tokens', total: 2000 } });
+    expect(text.length).toBeLessThanOrEqual(8000);
+    expect(report.unit).toBe('tokens');
+    expect(report.size).toBe(Math.ceil(text.length / 4));
+  });
+});
+
+describe('formatLlmTxt — user-defined sections', () => {
+  const docsPages: PageData[] = [
+    { url: 'https://example.com/v2/en/setup', title: 'Setup', description: 'Install it', h1: '', content: '' },
+    { url: 'https://example.com/v2/en/api', title: 'API', description: 'Endpoints', h1: '', content: '' },
+    { url: 'https://example.com/v2/en/changelog', title: 'Changelog', description: 'Changes', h1: '', content: '' },
+    { url: 'https://example.com/misc/page', title: 'Misc', description: 'Other', h1: '', content: '' },
+  ];
+
+  it('groups pages into configured sections in declared order', () => {
+    const out = formatLlmTxt({
+      ...opts,
+      pages: docsPages,
+      sections: [
+        { label: 'API Reference', patterns: ['/v2/*/api'] },
+        { label: 'Guides', patterns: ['/v2/*/setup'] },
+      ],
+    });
+    const v2 = out.split('##').find(s => s.startsWith(' V2'));
+    expect(v2).not.toContain('example.com/v2/en/setup');
+    expect(out.indexOf('## API Reference')).toBeLessThan(out.indexOf('## Guides'));
+    const guides = out.split('##').find(s => s.startsWith(' Guides'));
+    expect(guides).toContain('example.com/v2/en/setup');
+  });
+
+  it('falls back to built-in grouping for unmatched pages', () => {
+    const out = formatLlmTxt({
+      ...opts,
+      pages: docsPages,
+      sections: [{ label: 'Docs', patterns: ['/v2/**'] }],
+    });
+    expect(out).toContain('## Docs');
+    expect(out).toContain('## Misc');
+  });
+
+  it('prints the section description under the heading', () => {
+    const out = formatLlmTxt({
+      ...opts,
+      pages: docsPages,
+      sections: [{ label: 'Docs', patterns: ['/v2/**'], description: 'Product documentation.' }],
+    });
+    expect(out).toContain('## Docs\n\nProduct documentation.\n\n- [');
+  });
+
+  it('sorts and caps section entries', () => {
+    const out = formatLlmTxt({
+      ...opts,
+      pages: docsPages,
+      sections: [{ label: 'Docs', patterns: ['/v2/**'], sort: 'title', maxEntries: 2 }],
+    });
+    const docs = out.split('##').find(s => s.startsWith(' Docs'))!;
+    expect(docs.indexOf('[API]')).toBeLessThan(docs.indexOf('[Changelog]'));
+    expect(docs).not.toContain('[Setup]');
+  });
+
+  it('moves optional sections under a trailing ## Optional heading', () => {
+    const out = formatLlmTxt({
+      ...opts,
+      pages: docsPages,
+      sections: [
+        { label: 'Docs', patterns: ['/v2/*/setup', '/v2/*/api'] },
+        { label: 'Changelog', patterns: ['/v2/*/changelog'], optional: true },
+      ],
+    });
+    expect(out).not.toContain('## Changelog');
+    const optional = out.split('## Optional')[1];
+    expect(optional).toContain('example.com/v2/en/changelog');
+    expect(out.trimEnd().endsWith('example.com/v2/en/changelog): Changes')).toBe(true);
+  });
+
+  it('uses configured key page patterns instead of the built-in ones', () => {
+    const out = formatLlmTxt({ ...opts, keyPages: ['/docs/**'] });
+    const keySection = out.split('##').find(s => s.startsWith(' Key Pages'))!;
+    expect(keySection).toContain('example.com/docs/start');
+    expect(keySection).not.toContain('example.com/pricing');
+  });
+
+  it('omits Key Pages when keyPages is empty', () => {
+    const out = formatLlmTxt({ ...opts, pages: docsPages, keyPages: [] });
+    expect(out).not.toContain('## Key Pages');
+  });
+});
+
+describe('formatLlmTxt — content groups and section intros', () => {
+  const flatPages: PageData[] = [
+    { url: 'https://example.com/install', title: 'Install', description: 'Set it up', h1: '', content: '' },
+    { url: 'https://example.com/webhooks', title: 'Webhooks', description: 'Events', h1: '', content: '' },
+    { url: 'https://example.com/quickstart', title: 'Quickstart', description: 'First steps', h1: '', content: '' },
+    { url: 'https://example.com/changelog', title: 'Changelog', description: 'Changes', h1: '', content: '' },
+  ];
+  const groups = [
+    { label: 'Getting Started', urls: ['https://example.com/install', 'https://example.com/quickstart'] },
+    { label: 'Integrations', urls: ['https://example.com/webhooks'] },
+  ];
+
+  it('puts grouped pages under their group and the rest under URL-based sections', () => {
+    const out = formatLlmTxt({ ...opts, pages: flatPages, groups });
+    const started = out.split('##').find(s => s.startsWith(' Getting Started'))!;
+    expect(started).toContain('example.com/install');
+    expect(started).toContain('example.com/quickstart');
+    expect(out.indexOf('## Getting Started')).toBeLessThan(out.indexOf('## Integrations'));
+    expect(out).toContain('## Changelog');
+    expect(out).not.toContain('## Install');
+  });
+
+  it('lets configured sections and key pages claim pages before groups', () => {
+    const plan = planSections({
+      ...opts,
+      pages: [...flatPages, pages[0]],
+      groups: [...groups, { label: 'Home', urls: ['https://example.com/'] }],
+      sections: [{ label: 'Setup', patterns: ['/install'] }],
+    });
+    expect(plan.keyPages.map(p => p.url)).toEqual(['https://example.com/']);
+    expect(plan.sections.map(s => [s.label, s.origin])).toEqual([
+      ['Setup', 'rule'],
+      ['Getting Started', 'group'],
+      ['Integrations', 'group'],
+      ['Changelog', 'url'],
+    ]);
+  });
+
+  it('prints intros under their headings, with a configured description taking precedence', () => {
+    const out = formatLlmTxt({
+      ...opts,
+      pages: flatPages,
+      groups,
+      sections: [{ label: 'Releases', patterns: ['/changelog'], description: 'What changed.' }],
+      sectionIntros: { 'Getting Started': 'Install and run it.', Releases: 'Ignored.' },
+    });
+    expect(out).toContain('## Getting Started\n\nInstall and run it.\n\n- [');
+    expect(out).toContain('## Releases\n\nWhat changed.\n\n- [');
+    expect(out).not.toContain('Ignored.');
+  });
+
+  it('leaves intros out in strict mode', () => {
+    const out = formatLlmTxt({
+      ...opts,
+      pages: flatPages,
+      groups,
+      spec: 'strict',
+      sectionIntros: { 'Getting Started': 'Install and run it.' },
+    });
+    expect(out).not.toContain('Install and run it.');
+  });
+});
+
+describe('formatLlmTxt — Markdown mirror links', () => {
+  it('links entries to their .md copies', () => {
+    const out = formatLlmTxt({ ...opts, mdLinks: true });
+    expect(out).toContain('[Getting Started](https://example.com/docs/start.md)');
+    expect(out).toContain('(https://example.com/index.html.md)');
+    expect(out).not.toContain('(https://example.com/pricing)');
+  });
+});
+
+describe('formatLlmTxt — other languages', () => {
+  it('links to the file in each other language', () => {
+    const out = formatLlmTxt({
+      ...opts,
+      languages: [
+        { label: 'Deutsch (de)', url: 'https://example.com/llms.de.txt' },
+        { label: 'Français (fr)', url: 'https://example.com/llms.fr.txt' },
+      ],
+    });
+    expect(out).toContain('## Languages\n\n- [Deutsch (de)](https://example.com/llms.de.txt)\n- [Français (fr)](https://example.com/llms.fr.txt)\n');
+  });
+
+  it('adds no section for a single language', () => {
+    expect(formatLlmTxt({ ...opts, languages: [] })).not.toContain('## Languages');
+  });
+});
+
+describe('formatLlmTxt — strict spec mode', () => {
+  const strict = { ...opts, spec: 'strict' as const };
+
+  it('omits the generated date and answering guidelines', () => {
+    const out = formatLlmTxt(strict);
+    expect(out).not.toContain('Generated:');
+    expect(out).not.toContain('## Answering Guidelines');
+  });
+
+  it('places details prose between the summary and the first section', () => {
+    const out = formatLlmTxt({ ...strict, details: 'Example sells widgets.' });
+    expect(out).toMatch(/> A great site\n\nExample sells widgets\.\n\n## /);
+  });
+
+  it('escapes brackets in link text', () => {
+    const out = formatLlmTxt({
+      ...strict,
+      pages: [{ ...pages[1], title: 'Pricing [2026]' }],
+    });
+    expect(out).toContain('[Pricing \\[2026\\]](https://example.com/pricing)');
+  });
+
+  it('percent-encodes parentheses and spaces in link URLs so the linter reads the entry', () => {
+    const out = formatLlmTxt({
+      ...strict,
+      pages: [{ ...pages[2], url: 'https://example.com/wiki/Foo_(bar) baz', title: 'Foo' }],
+    });
+    expect(out).toContain('[Foo](https://example.com/wiki/Foo_%28bar%29%20baz)');
+    const parsed = parseLlmsTxt(out);
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.sections.flatMap(s => s.entries.map(e => e.url))).toEqual(['https://example.com/wiki/Foo_%28bar%29%20baz']);
+  });
+
+  it('produces output the linter accepts without errors', () => {
+    const out = formatLlmTxt({
+      ...strict,
+      sections: [{ label: 'Docs', patterns: ['/docs/**'], description: 'Guides.', optional: true }],
+    });
+    const errors = parseLlmsTxt(out).issues.filter(i => i.severity === 'error');
+    expect(errors).toEqual([]);
+    expect(out).toContain('## Optional');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { checkDescription, correctionPrompt, isRefusal, tidyReply } from '../src/guard.js';
+import type { PageData } from '../src/extractor.js';
+
+const page: PageData = {
+  url: 'https://example.com/docs/webhooks',
+  title: 'Webhooks',
+  description: 'Receive events from Acme over HTTP.',
+  h1: 'Configuring webhooks',
+  content: 'Webhooks notify your server when an invoice is paid or a subscription changes. Each delivery is signed.',
+};
+
+describe('tidyReply', () => {
+  it('strips preambles, whether on their own line or leading the answer', () => {
+    expect(tidyReply('Here is a one-sentence summary:\n\nSet up signed webhooks for invoice events.'))
+      .toBe('Set up signed webhooks for invoice events.');
+    expect(tidyReply("Sure! Here's the description: Set up signed webhooks.")).toBe('Set up signed webhooks.');
+    expect(tidyReply('Description: Set up signed webhooks.')).toBe('Set up signed webhooks.');
+  });
+
+  it('removes wrapping quotes, emphasis, list markers and code fences', () => {
+    expect(tidyReply('"Set up signed webhooks."')).toBe('Set up signed webhooks.');
+    expect(tidyReply('“Set up **signed** webhooks.”')).toBe('Set up signed webhooks.');
+    expect(tidyReply('```\n- Set up signed webhooks.\n```')).toBe('Set up signed webhooks.');
+  });
+
+  it('keeps only the first line of a multi-line answer unless asked to join them', () => {
+    expect(tidyReply('Set up signed webhooks.\nThey cover invoices and subscriptions.')).toBe('Set up signed webhooks.');
+    expect(tidyReply('Acme bills teams.\nIt also sends webhooks.', true)).toBe('Acme bills teams. It also sends webhooks.');
+  });
+
+  it('leaves a clean answer alone', () => {
+    expect(tidyReply('  Set up   signed webhooks.  ')).toBe('Set up signed webhooks.');
+  });
+});
+
+describe('isRefusal', () => {
+  it.each([
+    'I cannot access this page.',
+    "I'm unable to browse the web, but based on the title this is about webhooks.",
+    'As an AI language model, I do not have access to URLs.',
+    'Sorry, there is not enough information provided.',
+    'No content was provided for this page.',
+  ])('catches "%s"', text => {
+    expect(isRefusal(text)).toBe(true);
+  });
+
+  it('does not flag ordinary descriptions', () => {
+    expect(isRefusal('Explains what to do when you cannot access your account.')).toBe(false);
+    expect(isRefusal('Set up signed webhooks for invoice and subscription events.')).toBe(false);
+  });
+});
+
+describe('checkDescription', () => {
+  it('accepts a description that is about the page', () => {
+    expect(checkDescription('Set up signed webhooks for invoice and subscription events.', page)).toBeUndefined();
+  });
+
+  it('matches words by their stem', () => {
+    expect(checkDescription('How Acme signs each delivered notification to your server.', page)).toBeUndefined();
+  });
+
+  it('rejects refusals, empty and very short replies', () => {
+    expect(checkDescription('', page)).toBe('empty response');
+    expect(checkDescription('I cannot access this page.', page)).toBe('refusal');
+    expect(checkDescription('Webhooks.', page)).toBe('too short');
+  });
+
+  it('accepts two-word descriptions', () => {
+    expect(checkDescription('Webhook signatures.', page)).toBeUndefined();
+    expect(checkDescription('"Webhooks"', page)).toBe('too short');
+  });
+
+  it('rejects replies well past the word target', () => {
+    const long = Array.from({ length: 40 }, () => 'webhooks').join(' ');
+    expect(checkDescription(long, page)).toBe('too long');
+    expect(checkDescription(long, page, { maxWords: 40 })).toBeUndefined();
+  });
+
+  it('rejects a description that shares no terms with the page', () => {
+    expect(checkDescription('The best pizza recipes for a family dinner party.', page)).toBe('not about the page');
+  });
+
+  it('skips the grounding check for translations and near-empty pages', () => {
+    const german = 'Richten Sie signierte Benachrichtigungen für Rechnungen ein.';
+    expect(checkDescription(german, page)).toBe('not about the page');
+    expect(checkDescription(german, page, { language: 'German' })).toBeUndefined();
+    const bare = { ...page, url: 'https://example.com/', title: 'Acme', h1: '', description: '', content: '' };
+    expect(checkDescription('The best pizza recipes for a family dinner.', bare)).toBeUndefined();
+  });
+
+  it('skips the grounding check for replies with too few terms to judge', () => {
+    expect(checkDescription('Pizza recipes.', page)).toBeUndefined();
+    expect(checkDescription('About us', page)).toBeUndefined();
+    expect(checkDescription('Pizza recipes and dinner.', page)).toBe('not about the page');
+  });
+});
+
+describe('correctionPrompt', () => {
+  it('appends what was wrong to the original prompt', () => {
+    const prompt = correctionPrompt('Summarize this page.', 'too long');
+    expect(prompt).toMatch(/^Summarize this page\.\n\nYour previous answer was too long\./);
+    expect(prompt).toContain('Respond with only the one-line description.');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parseLlmsTxt, checkLinks, readLlmsTxt, formatIssues } from '../src/lint.js';
+
+const mockFetch = vi.fn();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', mockFetch);
+  mockFetch.mockReset();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function res(status: number, body = '') {
+  return { ok: status >= 200 && status < 300, status, text: () => Promise.resolve(body) };
+}
+
+const VALID = `# Example
+
+> A site about examples.
+
+Some extra prose about the project.
+
+## Docs
+
+- [Getting Started](https://example.com/docs/start): How to begin
+- [API \\[v2\\]](https://example.com/docs/api)
+
+## Optional
+
+- [Blog](https://example.com/blog): Updates
+`;
+
+function rules(text: string) {
+  return parseLlmsTxt(text).issues.map(i => i.rule);
+}
+
+describe('parseLlmsTxt', () => {
+  it('parses title, summary, sections and entries', () => {
+    const parsed = parseLlmsTxt(VALID);
+    expect(parsed.title).toBe('Example');
+    expect(parsed.summary).toBe('A site about examples.');
+    expect(parsed.sections.map(s => s.name)).toEqual(['Docs', 'Optional']);
+    expect(parsed.sections[0].entries).toEqual([
+      { title: 'Getting Started', url: 'https://example.com/docs/start', notes: 'How to begin', line: 9 },
+      { title: 'API [v2]', url: 'https://example.com/docs/api', notes: undefined, line: 10 },
+    ]);
+    expect(parsed.issues).toEqual([]);
+  });
+
+  it('requires the file to start with an H1', () => {
+    expect(rules('Intro\n\n# Example\n\n> Summary\n')).toEqual(['h1-first']);
+  });
+
+  it('reports a missing H1 once', () => {
+    expect(rules('> Summary\n\n## Docs\n\n- [A](https://a.com)\n')).toEqual(['h1-missing']);
+  });
+
+  it('rejects a second H1', () => {
+    expect(rules('# One\n\n> Summary\n\n# Two\n')).toEqual(['h1-multiple']);
+  });
+
+  it('rejects headings deeper than H2', () => {
+    expect(rules('# Example\n\n> Summary\n\n## Docs\n\n### Sub\n\n- [A](https://a.com)\n')).toEqual(['heading-level']);
+  });
+
+  it('rejects non-list content inside sections', () => {
+    const issues = parseLlmsTxt('# Example\n\n> Summary\n\n## Docs\n\nSome prose.\n- [A](https://a.com)\n').issues;
+    expect(issues).toEqual([expect.objectContaining({ rule: 'section-content', line: 7, severity: 'error' })]);
+  });
+
+  it('ignores headings inside fenced code blocks in the preamble', () => {
+    expect(rules('# Example\n\n> Summary\n\n```\n# not a heading\n```\n')).toEqual([]);
+  });
+
+  it('warns about a missing summary and empty sections', () => {
+    const issues = parseLlmsTxt('# Example\n\n## Docs\n').issues;
+    expect(issues.map(i => [i.rule, i.severity])).toEqual([
+      ['summary-missing', 'warning'],
+      ['empty-section', 'warning'],
+    ]);
+  });
+
+  it('warns about duplicate entries across sections', () => {
+    const text = '# Example\n\n> Summary\n\n## A\n\n- [X](https://a.com/x)\n\n## B\n\n- [X again](https://a.com/x)\n';
+    const issues = parseLlmsTxt(text).issues;
+    expect(issues).toEqual([expect.objectContaining({ rule: 'duplicate-entry', line: 11 })]);
+    expect(issues[0].message).toContain('line 7');
+  });
+});
+
+describe('checkLinks', () => {
+  it('reports broken links with their line numbers', async () => {
+    mockFetch.mockImplementation(async (url: string) => res(url.endsWith('/api') ? 404 : 200));
+    const issues = await checkLinks(parseLlmsTxt(VALID));
+    expect(issues).toEqual([
+      { line: 10, severity: 'error', rule: 'broken-link', message: 'https://example.com/docs/api: HTTP 404' },
+    ]);
+  });
+
+  it('falls back to GET when HEAD is not allowed', async () => {
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) => res(init.method === 'HEAD' ? 405 : 200));
+    const issues = await checkLinks(parseLlmsTxt('# E\n\n> S\n\n## D\n\n- [A](https://a.com/x)\n'));
+    expect(issues).toEqual([]);
+    expect(mockFetch.mock.calls.map(c => (c[1] as RequestInit).method)).toEqual(['HEAD', 'GET']);
+  });
+
+  it('checks each URL once', async () => {
+    mockFetch.mockResolvedValue(res(200));
+    await checkLinks(parseLlmsTxt('# E\n\n> S\n\n## D\n\n- [A](https://a.com/x)\n- [B](https://a.com/x)\n'));
+    expect(mockFetch).toHaveBeenCalledOnce();
+  });
+
+  it('reports network failures', async () => {
+    mockFetch.mockRejectedValue(new Error('getaddrinfo ENOTFOUND a.com'));
+    const issues = await checkLinks(parseLlmsTxt('# E\n\n> S\n\n## D\n\n- [A](https://a.com/x)\n'));
+    expect(issues[0].message).toContain('ENOTFOUND');
+  });
+
+  it('resolves relative links against the base URL', async () => {
+    mockFetch.mockResolvedValue(res(200));
+    await checkLinks(parseLlmsTxt('# E\n\n> S\n\n## D\n\n- [A](/docs)\n'), 'https://example.com/llms.txt');
+    expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/docs');
+  });
+
+  it('skips relative links without a base URL', async () => {
+    const issues = await checkLinks(parseLlmsTxt('# E\n\n> S\n\n## D\n\n- [A](/docs)\n'));
+    expect(issues).toEqual([]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('readLlmsTxt', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'llm-txt-gen-lint-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads a local file', async () => {
+    const file = join(tempDir, 'llms.txt');
+    await writeFile(file, VALID);
+    expect(await readLlmsTxt(file)).toBe(VALID);
+  });
+
+  it('fetches a remote file', async () => {
+    mockFetch.mockResolvedValueOnce(res(200, VALID));
+    expect(await readLlmsTxt('https://example.com/llms.txt')).toBe(VALID);
+  });
+
+  it('throws when the remote file is missing', async () => {
+    mockFetch.mockResolvedValueOnce(res(404));
+    await expect(readLlmsTxt('https://example.com/llms.txt')).rejects.toThrow('HTTP 404');
+  });
+});
+
+describe('formatIssues', () => {
+  it('prefixes each issue with the source and line', () => {
+    const out = formatIssues('llms.txt', [{ line: 3, severity: 'error', rule: 'h1-multiple', message: 'Only one H1' }]);
+    expect(out).toMatch(/^llms\.txt:3\s+error\s+h1-multiple\s+Only one H1$/);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  localeLabel,
+  localizedPath,
+  matchesLocale,
+  normalizeLocale,
+  ownHreflang,
+  splitByLocale,
+} from '../src/locale.js';
+import type { PageData } from '../src/extractor.js';
+
+function makePage(url: string, lang?: string, alternates?: Record<string, string>): PageData {
+  return { url, title: url, description: '', h1: '', content: '', ...(lang ? { lang } : {}), ...(alternates ? { alternates } : {}) };
+}
+
+describe('normalizeLocale', () => {
+  it('normalizes case and separators', () => {
+    expect(normalizeLocale('DE')).toBe('de');
+    expect(normalizeLocale('de-de')).toBe('de-DE');
+    expect(normalizeLocale('pt_br')).toBe('pt-BR');
+    expect(normalizeLocale('zh-hant-tw')).toBe('zh-Hant-TW');
+    expect(normalizeLocale('es-419')).toBe('es-419');
+    expect(normalizeLocale('X-Default')).toBe('x-default');
+  });
+
+  it('rejects what is not a language tag', () => {
+    expect(normalizeLocale('')).toBeUndefined();
+    expect(normalizeLocale(undefined)).toBeUndefined();
+    expect(normalizeLocale('german')).toBeUndefined();
+    expect(normalizeLocale('en us')).toBeUndefined();
+  });
+});
+
+describe('matchesLocale', () => {
+  it('matches a language to all its regions', () => {
+    expect(matchesLocale('de-AT', ['de'])).toBe(true);
+    expect(matchesLocale('de', ['de'])).toBe(true);
+    expect(matchesLocale('de-AT', ['de-DE'])).toBe(false);
+    expect(matchesLocale('en', ['de', 'en'])).toBe(true);
+  });
+
+  it('matches everything without filters and nothing unknown with them', () => {
+    expect(matchesLocale(undefined, [])).toBe(true);
+    expect(matchesLocale(undefined, ['de'])).toBe(false);
+  });
+});
+
+describe('ownHreflang', () => {
+  it('finds the entry pointing at the page itself, ignoring x-default and trailing slashes', () => {
+    const alternates = { 'x-default': 'https://example.com/', 'en': 'https://example.com/', 'de': 'https://example.com/de' };
+    expect(ownHreflang('https://example.com', alternates)).toBe('en');
+    expect(ownHreflang('https://example.com/de/', alternates)).toBe('de');
+    expect(ownHreflang('https://example.com/fr', alternates)).toBeUndefined();
+  });
+});
+
+describe('localizedPath and localeLabel', () => {
+  it('puts the locale before the extension', () => {
+    expect(localizedPath('llms.txt', 'de')).toBe('llms.de.txt');
+    expect(localizedPath('public/llm-full.txt', 'pt-BR')).toBe('public/llm-full.pt-BR.txt');
+    expect(localizedPath('llms', 'fr')).toBe('llms.fr');
+  });
+
+  it('names languages in their own language', () => {
+    expect(localeLabel('de')).toBe('Deutsch (de)');
+    expect(localeLabel('qq')).toBe('qq');
+  });
+});
+
+describe('splitByLocale', () => {
+  const home = makePage('https://example.com/', 'en', {
+    'en': 'https://example.com/',
+    'de': 'https://example.com/de',
+    'x-default': 'https://example.com/',
+  });
+  const pages = [
+    makePage('https://example.com/de/preise', 'de'),
+    home,
+    makePage('https://example.com/de', 'de'),
+    makePage('https://example.com/pricing', 'en'),
+    makePage('https://example.com/fr', 'fr'),
+    makePage('https://example.com/status'),
+  ];
+
+  it('puts the x-default language first, then the others alphabetically', () => {
+    const editions = splitByLocale(pages);
+    expect(editions.map(e => [e.locale, e.primary])).toEqual([['en', true], ['de', false], ['fr', false]]);
+  });
+
+  it('keeps page order and adds pages without a language to the primary edition', () => {
+    const [en, de] = splitByLocale(pages);
+    expect(en.pages.map(p => p.url)).toEqual(['https://example.com/', 'https://example.com/pricing', 'https://example.com/status']);
+    expect(de.pages.map(p => p.url)).toEqual(['https://example.com/de/preise', 'https://example.com/de']);
+  });
+
+  it('finds each edition\'s home page through the root\'s alternates', () => {
+    const [en, de, fr] = splitByLocale(pages);
+    expect(en.home?.url).toBe('https://example.com/');
+    expect(de.home?.url).toBe('https://example.com/de');
+    expect(fr.home).toBeUndefined();
+  });
+
+  it('falls back to the most common language without a home page', () => {
+    const editions = splitByLocale(pages.filter(p => p !== home));
+    expect(editions[0]).toMatchObject({ locale: 'de', primary: true });
+  });
+
+  it('returns a single edition when no page has a language', () => {
+    const plain = [makePage('https://example.com/a'), makePage('https://example.com/b')];
+    expect(splitByLocale(plain)).toEqual([{ locale: 'und', pages: plain, primary: true, home: undefined }]);
+  });
+});
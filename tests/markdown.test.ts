@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import * as cheerio from 'cheerio';
+import { htmlToMarkdown, truncateMarkdown } from '../src/markdown.js';
+
+function md(html: string, baseUrl = 'https://example.com/docs/page') {
+  const $ = cheerio.load(`<body>${html}</body>`);
+  return htmlToMarkdown($('body').contents().toArray(), baseUrl);
+}
+
+describe('htmlToMarkdown — blocks', () => {
+  it('keeps the heading hierarchy', () => {
+    expect(md('<h1>Title</h1><h2>Part</h2><h3>Detail</h3>')).toBe('# Title\n\n## Part\n\n### Detail');
+  });
+
+  it('separates paragraphs with blank lines and collapses whitespace', () => {
+    expect(md('<p>One\n   two</p>\n<p>Three</p>')).toBe('One two\n\nThree');
+  });
+
+  it('turns loose text around blocks into paragraphs', () => {
+    expect(md('<div>before<p>inside</p>after</div>')).toBe('before\n\ninside\n\nafter');
+  });
+
+  it('renders blockquotes', () => {
+    expect(md('<blockquote><p>Quoted</p><p>Twice</p></blockquote>')).toBe('> Quoted\n>\n> Twice');
+  });
+
+  it('renders horizontal rules', () => {
+    expect(md('<p>a</p><hr><p>b</p>')).toBe('a\n\n---\n\nb');
+  });
+});
+
+describe('htmlToMarkdown — inline', () => {
+  it('renders emphasis and inline code', () => {
+    expect(md('<p>Use <strong>bold</strong>, <em>italic</em> and <code>npm i</code>.</p>'))
+      .toBe('Use **bold**, *italic* and `npm i`.');
+  });
+
+  it('uses a longer delimiter when inline code contains backticks', () => {
+    expect(md('<p><code>a`b</code></p>')).toBe('``a`b``');
+  });
+
+  it('resolves relative links against the page URL', () => {
+    expect(md('<p><a href="../api">API</a> and <a href="https://other.com/x">other</a></p>'))
+      .toBe('[API](https://example.com/api) and [other](https://other.com/x)');
+  });
+
+  it('drops in-page anchors and script links but keeps their text', () => {
+    expect(md('<p><a href="#usage">Usage</a> <a href="javascript:void(0)">Menu</a></p>')).toBe('Usage Menu');
+  });
+
+  it('renders images with absolute sources', () => {
+    expect(md('<p><img src="/img/a.png" alt="Diagram"></p>')).toBe('![Diagram](https://example.com/img/a.png)');
+  });
+
+  it('keeps line breaks', () => {
+    expect(md('<p>line one<br>line two</p>')).toBe('line one\nline two');
+  });
+});
+
+describe('htmlToMarkdown — code blocks', () => {
+  it('fences preformatted code with its language hint', () => {
+    const out = md('<pre><code class="language-ts">const a = 1;\n  indented();\n</code></pre>');
+    expect(out).toBe('```ts\nconst a = 1;\n  indented();\n```');
+  });
+
+  it('reads the language from data-language or highlight classes', () => {
+    expect(md('<pre data-language="bash"><code>ls</code></pre>')).toBe('```bash\nls\n```');
+    expect(md('<div><pre class="highlight-python">pass</pre></div>')).toBe('```python\npass\n```');
+  });
+
+  it('omits the language when there is no hint', () => {
+    expect(md('<pre>plain</pre>')).toBe('```\nplain\n```');
+  });
+
+  it('uses a longer fence when the code contains one', () => {
+    expect(md('<pre>```\nx\n```</pre>')).toBe('````\n```\nx\n```\n````');
+  });
+});
+
+describe('htmlToMarkdown — lists', () => {
+  it('renders unordered and ordered lists', () => {
+    expect(md('<ul><li>a</li><li>b</li></ul>')).toBe('- a\n- b');
+    expect(md('<ol start="3"><li>c</li><li>d</li></ol>')).toBe('3. c\n4. d');
+  });
+
+  it('indents nested lists under their item', () => {
+    expect(md('<ul><li>parent<ul><li>child</li></ul></li><li>next</li></ul>'))
+      .toBe('- parent\n  - child\n- next');
+  });
+
+  it('keeps multi-paragraph items inside the list', () => {
+    expect(md('<ol><li><p>one</p><p>more</p></li><li>two</li></ol>')).toBe('1. one\n\n   more\n\n2. two');
+  });
+
+  it('renders definition lists', () => {
+    expect(md('<dl><dt>Term</dt><dd>Meaning</dd></dl>')).toBe('**Term**\n\n  Meaning');
+  });
+});
+
+describe('htmlToMarkdown — tables', () => {
+  it('renders a header row and body rows', () => {
+    const html = '<table><thead><tr><th>Flag</th><th>Use</th></tr></thead>'
+      + '<tbody><tr><td>--a</td><td>first</td></tr><tr><td>--b</td><td>x | y</td></tr></tbody></table>';
+    expect(md(html)).toBe('| Flag | Use |\n| --- | --- |\n| --a | first |\n| --b | x \\| y |');
+  });
+
+  it('pads short rows to the widest row', () => {
+    expect(md('<table><tr><td>a</td><td>b</td></tr><tr><td>c</td></tr></table>'))
+      .toBe('| a | b |\n| --- | --- |\n| c |  |');
+  });
+});
+
+describe('truncateMarkdown', () => {
+  it('returns short text unchanged', () => {
+    expect(truncateMarkdown('short', 100)).toBe('short');
+  });
+
+  it('cuts at a line boundary', () => {
+    const text = `${'a'.repeat(60)}\n${'b'.repeat(60)}`;
+    expect(truncateMarkdown(text, 100)).toBe('a'.repeat(60));
+  });
+
+  it('closes a code fence left open by the cut', () => {
+    const text = `Intro\n\n\`\`\`js\n${'x();\n'.repeat(50)}\`\`\``;
+    const out = truncateMarkdown(text, 80);
+    expect(out.length).toBeLessThanOrEqual(80);
+    expect(out.startsWith('Intro\n\n```js\n')).toBe(true);
+    expect(out.endsWith('\n```')).toBe(true);
+  });
+});
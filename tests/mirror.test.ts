@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { markdownPath, markdownUrl, renderMarkdownPage, writeMarkdownMirror } from '../src/mirror.js';
+import type { PageData } from '../src/extractor.js';
+
+const page: PageData = {
+  url: 'https://example.com/docs/start',
+  title: 'Getting Started',
+  description: 'How to begin.',
+  h1: 'Getting Started',
+  content: '# Getting Started\n\nInstall the package.',
+  lastmod: '2026-01-15',
+};
+
+describe('markdownPath', () => {
+  it('appends .md to the URL path', () => {
+    expect(markdownPath('https://example.com/docs/start')).toBe('docs/start.md');
+    expect(markdownPath('https://example.com/guide.html')).toBe('guide.html.md');
+  });
+
+  it('uses index.html.md for URLs without a file name', () => {
+    expect(markdownPath('https://example.com')).toBe('index.html.md');
+    expect(markdownPath('https://example.com/docs/')).toBe('docs/index.html.md');
+  });
+
+  it('ignores query strings and fragments', () => {
+    expect(markdownPath('https://example.com/search?q=x#top')).toBe('search.md');
+  });
+
+  it('never escapes the output directory', () => {
+    expect(markdownPath('https://example.com/a/%2e%2e/%2e%2e/etc/passwd')).toBe('etc/passwd.md');
+  });
+
+  it('decodes segments and replaces unsafe characters', () => {
+    expect(markdownPath('https://example.com/caf%C3%A9/a%3Ab')).toBe('café/a_b.md');
+    expect(markdownPath('https://example.com/a%2Fb')).toBe('a_b.md');
+  });
+});
+
+describe('markdownUrl', () => {
+  it('points at the mirrored file on the same origin', () => {
+    expect(markdownUrl('https://example.com/docs/start')).toBe('https://example.com/docs/start.md');
+    expect(markdownUrl('https://example.com/')).toBe('https://example.com/index.html.md');
+    expect(markdownUrl('https://example.com/caf%C3%A9')).toBe('https://example.com/caf%C3%A9.md');
+  });
+});
+
+describe('renderMarkdownPage', () => {
+  it('writes front matter followed by the content', () => {
+    expect(renderMarkdownPage(page)).toBe([
+      '---',
+      'title: Getting Started',
+      'description: How to begin.',
+      'source: https://example.com/docs/start',
+      'lastmod: 2026-01-15',
+      '---',
+      '',
+      '# Getting Started',
+      '',
+      'Install the package.',
+      '',
+    ].join('\n'));
+  });
+
+  it('adds a heading when the content has none', () => {
+    const out = renderMarkdownPage({ ...page, content: 'Just text.', lastmod: undefined });
+    expect(out).not.toContain('lastmod');
+    expect(out).toContain('---\n\n# Getting Started\n\nJust text.\n');
+  });
+
+  it('quotes front matter values that need it', () => {
+    const out = renderMarkdownPage({ ...page, title: 'Q&A: "Everything"' });
+    expect(out).toContain(`title: 'Q&A: "Everything"'`);
+  });
+});
+
+describe('writeMarkdownMirror', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'llm-txt-gen-mirror-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('writes one file per page in a tree mirroring the URLs', async () => {
+    const home = { ...page, url: 'https://example.com/', content: 'Home.' };
+    const result = await writeMarkdownMirror(tempDir, [home, page]);
+    expect(result.written).toEqual(['index.html.md', 'docs/start.md']);
+    expect(await readFile(join(tempDir, 'docs', 'start.md'), 'utf-8')).toContain('Install the package.');
+    expect(await readFile(join(tempDir, 'index.html.md'), 'utf-8')).toContain('Home.');
+  });
+
+  it('skips pages that map to a file already written', async () => {
+    const variant = { ...page, url: 'https://example.com/docs/start?lang=de', content: 'Anders.' };
+    const result = await writeMarkdownMirror(tempDir, [page, variant]);
+    expect(result.skipped).toEqual(['https://example.com/docs/start?lang=de']);
+    expect(await readFile(join(tempDir, 'docs', 'start.md'), 'utf-8')).toContain('Install the package.');
+  });
+});
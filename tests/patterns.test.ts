@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp, matchesPattern, findMatchingPattern, checkUrl, validateUrlPatterns } from '../src/patterns.js';
+
+describe('globToRegExp', () => {
+  it('matches * within a single path segment', () => {
+    expect(globToRegExp('/blog/tag/*').test('/blog/tag/news')).toBe(true);
+    expect(globToRegExp('/blog/tag/*').test('/blog/tag/news/page-2')).toBe(false);
+  });
+
+  it('matches ** across path segments', () => {
+    expect(globToRegExp('/docs/**').test('/docs/api/v2/users')).toBe(true);
+  });
+
+  it('matches ? as exactly one character', () => {
+    expect(globToRegExp('/v?/intro').test('/v2/intro')).toBe(true);
+    expect(globToRegExp('/v?/intro').test('/v10/intro')).toBe(false);
+  });
+
+  it('escapes regex metacharacters', () => {
+    expect(globToRegExp('/file.html').test('/fileXhtml')).toBe(false);
+  });
+
+  it('is case-insensitive', () => {
+    expect(globToRegExp('/Docs/*').test('/docs/intro')).toBe(true);
+  });
+});
+
+describe('matchesPattern', () => {
+  it('matches path globs against the pathname only', () => {
+    expect(matchesPattern('https://example.com/blog/tag/news?page=2', '/blog/tag/*')).toBe(true);
+    expect(matchesPattern('https://example.com/blog/post', '/blog/tag/*')).toBe(false);
+  });
+
+  it('matches full-URL patterns against the whole URL', () => {
+    expect(matchesPattern('https://example.com/admin', 'https://example.com/admin')).toBe(true);
+    expect(matchesPattern('https://example.com/admin/users', 'https://example.com/admin/**')).toBe(true);
+    expect(matchesPattern('https://other.com/admin', 'https://example.com/admin')).toBe(false);
+  });
+
+  it('searches re: patterns anywhere in the URL', () => {
+    expect(matchesPattern('https://example.com/shop?page=3', 're:[?&]page=')).toBe(true);
+    expect(matchesPattern('https://example.com/shop', 're:[?&]page=')).toBe(false);
+  });
+
+  it('treats an invalid regex as no match', () => {
+    expect(matchesPattern('https://example.com/', 're:(')).toBe(false);
+  });
+});
+
+describe('findMatchingPattern', () => {
+  it('returns the first matching pattern', () => {
+    expect(findMatchingPattern('https://example.com/pricing', ['/docs/**', '/pricing'])).toBe('/pricing');
+  });
+
+  it('returns undefined for an empty list', () => {
+    expect(findMatchingPattern('https://example.com/pricing', [])).toBeUndefined();
+  });
+});
+
+describe('checkUrl', () => {
+  const rules = { include: ['/docs/**', '/pricing'], exclude: ['/docs/internal/**'] };
+
+  it('keeps URLs matched by an include rule', () => {
+    expect(checkUrl('https://example.com/docs/start', rules)).toBeNull();
+  });
+
+  it('names the exclude rule that dropped a URL', () => {
+    expect(checkUrl('https://example.com/docs/internal/x', rules)).toBe('exclude "/docs/internal/**"');
+  });
+
+  it('drops URLs no include rule matched', () => {
+    expect(checkUrl('https://example.com/blog', rules)).toBe('no include rule matched');
+  });
+
+  it('keeps everything when there are no rules', () => {
+    expect(checkUrl('https://example.com/anything', {})).toBeNull();
+  });
+});
+
+describe('validateUrlPatterns', () => {
+  it('reports invalid regex patterns', () => {
+    const errors = validateUrlPatterns(['/ok/*', 're:([a-z]']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('re:([a-z]');
+  });
+});
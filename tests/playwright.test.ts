@@ -19,6 +19,7 @@ const { mockPage, mockBrowser, mockChromium } = vi.hoisted(() => {
 vi.mock('playwright', () => ({ chromium: mockChromium }));
 
 import { fetchPagesWithBrowser } from '../src/playwright.js';
+import { createRobotsGate } from '../src/robots.js';
 
 const pageHtml = '<html><head><title>Test Page</title><meta name="description" content="A test."></head><body><main><h1>Hello</h1><p>Content here</p></main></body></html>';
 
@@ -102,4 +103,29 @@ describe('fetchPagesWithBrowser', () => {
       { waitUntil: 'networkidle', timeout: 30000 },
     );
   });
+
+  it('skips URLs disallowed by robots.txt without opening a tab', async () => {
+    const robots = createRobotsGate({ rules: [{ allow: false, pattern: '/private' }] });
+    const onProgress = vi.fn();
+    const results = await fetchPagesWithBrowser(
+      ['https://example.com', 'https://example.com/private'],
+      2,
+      onProgress,
+      robots,
+    );
+    expect(results[0]).not.toBeNull();
+    expect(results[1]).toBeNull();
+    expect(mockBrowser.newPage).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith(false);
+  });
+
+  it('applies extraction options to rendered pages', async () => {
+    mockPage.content.mockResolvedValue(
+      '<html><body><div class="promo">Buy now</div><div class="docs">Rendered docs</div></body></html>',
+    );
+    const [result] = await fetchPagesWithBrowser(['https://example.com'], 1, undefined, undefined, {
+      contentSelector: '.docs',
+    });
+    expect(result?.content).toBe('Rendered docs');
+  });
 });
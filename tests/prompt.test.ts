@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { buildDescriptionPrompt, maxTokensFor, renderTemplate, unknownFields } from '../src/prompt.js';
+import type { PageData } from '../src/extractor.js';
+
+const page: PageData = {
+  url: 'https://example.com/docs/install',
+  title: 'Installing Example',
+  description: 'Install the CLI.',
+  h1: 'Install',
+  content: 'a'.repeat(2000),
+};
+
+describe('buildDescriptionPrompt', () => {
+  it('uses the built-in prompt with a 500 character excerpt by default', () => {
+    const prompt = buildDescriptionPrompt(page);
+    expect(prompt).toContain('one concise sentence (under 20 words)');
+    expect(prompt).toContain('Title: Installing Example\nH1: Install\nMeta description: Install the CLI.');
+    expect(prompt).toContain(`Content excerpt: ${'a'.repeat(500)}\n`);
+    expect(prompt).not.toContain('Tone:');
+    expect(prompt.endsWith('Respond with only the one-line description.')).toBe(true);
+  });
+
+  it('adds tone and language guidance to the built-in prompt', () => {
+    const prompt = buildDescriptionPrompt(page, { tone: 'neutral', language: 'French', maxWords: 30 });
+    expect(prompt).toContain('under 30 words');
+    expect(prompt).toContain('Tone: neutral.\nWrite the description in French.\n\nRespond with only');
+  });
+
+  it('fills every field of a custom template', () => {
+    const template = '{{title}}|{{h1}}|{{description}}|{{url}}|{{section}}|{{maxWords}}|{{tone}}|{{language}}|{{ content }}';
+    const prompt = buildDescriptionPrompt(page, { template, tone: 'plain', contentChars: 3 }, 'Docs');
+    expect(prompt).toBe('Installing Example|Install|Install the CLI.|https://example.com/docs/install|Docs|20|plain||aaa');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('leaves unknown placeholders as they are', () => {
+    expect(renderTemplate('{{a}} and {{b}}', { a: '1' })).toBe('1 and {{b}}');
+  });
+});
+
+describe('unknownFields', () => {
+  it('lists each unknown placeholder once', () => {
+    expect(unknownFields('{{title}} {{body}} {{ body }} {{slug}}')).toEqual(['body', 'slug']);
+  });
+});
+
+describe('maxTokensFor', () => {
+  it('keeps the old 80-token floor and grows with the target length', () => {
+    expect(maxTokensFor()).toBe(80);
+    expect(maxTokensFor({ maxWords: 50 })).toBe(200);
+  });
+});
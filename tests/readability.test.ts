@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import * as cheerio from 'cheerio';
+import { removeBoilerplate, scoreContent, findMainContent } from '../src/readability.js';
+
+const paragraph = 'A real paragraph of text, with commas, clauses, and enough length to count as content here.';
+
+describe('removeBoilerplate', () => {
+  it('removes site chrome outside articles but keeps it inside', () => {
+    const $ = cheerio.load(`<body><header>Site</header><nav>Menu</nav>
+      <article><header>Post title</header><footer>Posted in News</footer></article>
+      <footer>Copyright</footer><aside>Ads</aside></body>`);
+    removeBoilerplate($);
+    expect($('body').text()).not.toMatch(/Site|Menu|Copyright|Ads/);
+    expect($('article').text()).toContain('Post title');
+    expect($('article').text()).toContain('Posted in News');
+  });
+
+  it('removes elements by class or id token, not substring', () => {
+    const $ = cheerio.load(`<body>
+      <div id="newsletter-signup">Join</div>
+      <div class="breadcrumbs">Home / Docs</div>
+      <div class="shared-state">Kept</div>
+    </body>`);
+    removeBoilerplate($);
+    expect($('body').text()).not.toContain('Join');
+    expect($('body').text()).not.toContain('Home / Docs');
+    expect($('body').text()).toContain('Kept');
+  });
+
+  it('keeps containers whose classes also mark them as content', () => {
+    const $ = cheerio.load('<body><div class="sidebar-layout main-content">Docs</div></body>');
+    removeBoilerplate($);
+    expect($('body').text()).toContain('Docs');
+  });
+
+  it('removes only the notice, not its container', () => {
+    const $ = cheerio.load(`<body><div id="page"><p>Short page.</p>
+      <div><span>We use cookies.</span><button>OK</button></div></div></body>`);
+    removeBoilerplate($);
+    expect($('#page').text()).toContain('Short page.');
+    expect($('body').text()).not.toContain('cookies');
+  });
+
+  it('removes dialogs and extra selectors', () => {
+    const $ = cheerio.load('<body><div role="dialog">Sign in</div><div class="chat">Chat</div><p>Body</p></body>');
+    removeBoilerplate($, ['.chat']);
+    expect($('body').text().trim()).toBe('Body');
+  });
+});
+
+describe('scoreContent', () => {
+  it('prefers the block with the most prose over link-heavy blocks', () => {
+    const $ = cheerio.load(`<body>
+      <div id="links"><p><a href="/1">${paragraph}</a></p><p><a href="/2">${paragraph}</a></p></div>
+      <div id="text"><p>${paragraph}</p><p>${paragraph}</p></div>
+    </body>`);
+    expect(scoreContent($)?.attribs.id).toBe('text');
+  });
+
+  it('climbs to the parent when content is split across sibling blocks', () => {
+    const $ = cheerio.load(`<body><div id="doc">
+      <section><p>${paragraph}</p><p>${paragraph}</p></section>
+      <section><p>${paragraph}</p><p>${paragraph}</p></section>
+    </div></body>`);
+    expect(scoreContent($)?.attribs.id).toBe('doc');
+  });
+
+  it('returns null when no paragraph is long enough', () => {
+    const $ = cheerio.load('<body><p>Too short.</p></body>');
+    expect(scoreContent($)).toBeNull();
+  });
+});
+
+describe('findMainContent', () => {
+  it('prefers a matching contentSelector over scoring', () => {
+    const $ = cheerio.load(`<body><div id="text"><p>${paragraph}</p></div><div id="pick">x</div></body>`);
+    expect(findMainContent($, { contentSelector: '#pick' }).attr('id')).toBe('pick');
+  });
+
+  it('falls back to semantic elements, then body', () => {
+    expect(findMainContent(cheerio.load('<body><article>Hi</article></body>'))[0]).toMatchObject({ name: 'article' });
+    expect(findMainContent(cheerio.load('<body><div>Hi</div></body>'))[0]).toMatchObject({ name: 'body' });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createReplay,
+  loadResponseCache,
+  recordResponse,
+  replayResponse,
+  responseKey,
+  saveResponseCache,
+} from '../src/replay.js';
+
+let tempDir: string;
+let filePath: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'llm-txt-gen-replay-'));
+  filePath = join(tempDir, 'ai-responses.json');
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const response = (text: string) => ({ provider: 'claude', model: 'claude-haiku-4-5', text });
+
+describe('responseKey', () => {
+  it('is stable and depends on provider, model and prompt', () => {
+    const key = responseKey('claude', 'claude-haiku-4-5', 'Summarize this page');
+    expect(key).toMatch(/^claude\/claude-haiku-4-5\/[0-9a-f]{64}$/);
+    expect(responseKey('claude', 'claude-haiku-4-5', 'Summarize this page')).toBe(key);
+    expect(responseKey('claude', 'claude-haiku-4-5', 'Summarize that page')).not.toBe(key);
+    expect(responseKey('openai', 'claude-haiku-4-5', 'Summarize this page')).not.toBe(key);
+  });
+});
+
+describe('replay modes', () => {
+  it('replays recorded responses in read-only and record mode', () => {
+    for (const mode of ['read-only', 'record'] as const) {
+      const replay = createReplay({ version: 1, responses: { a: response('A') } }, mode);
+      expect(replayResponse(replay, 'a')).toBe('A');
+      expect(replayResponse(replay, 'b')).toBeUndefined();
+      expect(replay.hits).toBe(1);
+    }
+  });
+
+  it('never replays in refresh mode', () => {
+    const replay = createReplay({ version: 1, responses: { a: response('A') } }, 'refresh');
+    expect(replayResponse(replay, 'a')).toBeUndefined();
+  });
+});
+
+describe('response file', () => {
+  it('starts empty when the file does not exist', async () => {
+    expect(await loadResponseCache(filePath)).toEqual({ version: 1, responses: {} });
+  });
+
+  it('writes the same file whatever order responses were recorded in', async () => {
+    const first = createReplay(await loadResponseCache(filePath), 'record');
+    recordResponse(first, 'b', response('B'));
+    recordResponse(first, 'a', response('A'));
+    await saveResponseCache(filePath, first);
+    const written = await readFile(filePath, 'utf-8');
+
+    const second = createReplay({ version: 1, responses: {} }, 'record');
+    recordResponse(second, 'a', response('A'));
+    recordResponse(second, 'b', response('B'));
+    await saveResponseCache(filePath, second);
+    expect(await readFile(filePath, 'utf-8')).toBe(written);
+    expect(Object.keys(JSON.parse(written).responses)).toEqual(['a', 'b']);
+  });
+
+  it('keeps unused responses when recording but drops them on refresh', async () => {
+    const record = createReplay({ version: 1, responses: { old: response('Old') } }, 'record');
+    recordResponse(record, 'new', response('New'));
+    await saveResponseCache(filePath, record);
+    expect(Object.keys((await loadResponseCache(filePath)).responses)).toEqual(['new', 'old']);
+
+    const refresh = createReplay(await loadResponseCache(filePath), 'refresh');
+    recordResponse(refresh, 'new', response('Newer'));
+    await saveResponseCache(filePath, refresh);
+    expect((await loadResponseCache(filePath)).responses).toEqual({ new: response('Newer') });
+  });
+
+  it('refuses files it cannot read instead of starting over', async () => {
+    await writeFile(filePath, '{ broken');
+    await expect(loadResponseCache(filePath)).rejects.toThrow('Cannot read AI responses');
+    await writeFile(filePath, JSON.stringify({ version: 1, pages: {} }));
+    await expect(loadResponseCache(filePath)).rejects.toThrow('is not an AI response file');
+  });
+});
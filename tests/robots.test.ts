@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  parseRobotsTxt,
+  selectPolicy,
+  isAllowed,
+  fetchRobotsPolicy,
+  createRobotsGate,
+  robotsDirectives,
+  noindexDirective,
+  isNofollow,
+} from '../src/robots.js';
+
+const mockFetch = vi.fn();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', mockFetch);
+  mockFetch.mockReset();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+function res(body: string, status = 200) {
+  return { ok: status >= 200 && status < 300, status, text: () => Promise.resolve(body) };
+}
+
+function policyFor(robotsTxt: string) {
+  return selectPolicy(parseRobotsTxt(robotsTxt));
+}
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive User-agent lines together', () => {
+    const robots = parseRobotsTxt('User-agent: a\nUser-agent: b\nDisallow: /x\n\nUser-agent: c\nDisallow: /y');
+    expect(robots.groups).toHaveLength(2);
+    expect(robots.groups[0].agents).toEqual(['a', 'b']);
+    expect(robots.groups[1].agents).toEqual(['c']);
+  });
+
+  it('collects every Sitemap directive regardless of group', () => {
+    const robots = parseRobotsTxt('Sitemap: https://x.com/a.xml\nUser-agent: *\nSitemap: https://x.com/b.xml');
+    expect(robots.sitemaps).toEqual(['https://x.com/a.xml', 'https://x.com/b.xml']);
+  });
+
+  it('ignores comments and empty Disallow values', () => {
+    const robots = parseRobotsTxt('User-agent: * # everyone\nDisallow:\nDisallow: /private # secret');
+    expect(robots.groups[0].rules).toEqual([{ allow: false, pattern: '/private' }]);
+  });
+
+  it('parses Crawl-delay', () => {
+    const robots = parseRobotsTxt('User-agent: *\nCrawl-delay: 2.5');
+    expect(robots.groups[0].crawlDelay).toBe(2.5);
+  });
+});
+
+describe('selectPolicy', () => {
+  const txt = [
+    'User-agent: *',
+    'Disallow: /everyone-blocked',
+    '',
+    'User-agent: LLM-TXT-GEN',
+    'Disallow: /we-are-blocked',
+    'Crawl-delay: 3',
+  ].join('\n');
+
+  it('prefers the group naming our user agent (case-insensitive)', () => {
+    const policy = policyFor(txt);
+    expect(isAllowed(policy, 'https://x.com/we-are-blocked')).toBe(false);
+    expect(isAllowed(policy, 'https://x.com/everyone-blocked')).toBe(true);
+    expect(policy.crawlDelay).toBe(3);
+  });
+
+  it('falls back to the * group', () => {
+    const policy = policyFor('User-agent: otherbot\nDisallow: /\n\nUser-agent: *\nDisallow: /admin');
+    expect(isAllowed(policy, 'https://x.com/admin')).toBe(false);
+    expect(isAllowed(policy, 'https://x.com/docs')).toBe(true);
+  });
+
+  it('allows everything when no group applies', () => {
+    const policy = policyFor('User-agent: otherbot\nDisallow: /');
+    expect(isAllowed(policy, 'https://x.com/anything')).toBe(true);
+  });
+});
+
+describe('isAllowed', () => {
+  it('lets the longest matching rule win', () => {
+    const policy = policyFor('User-agent: *\nDisallow: /docs\nAllow: /docs/public');
+    expect(isAllowed(policy, 'https://x.com/docs/private')).toBe(false);
+    expect(isAllowed(policy, 'https://x.com/docs/public/page')).toBe(true);
+  });
+
+  it('prefers Allow when rules are equally long', () => {
+    const policy = policyFor('User-agent: *\nDisallow: /page\nAllow: /page');
+    expect(isAllowed(policy, 'https://x.com/page')).toBe(true);
+  });
+
+  it('supports * wildcards', () => {
+    const policy = policyFor('User-agent: *\nDisallow: /*?sort=');
+    expect(isAllowed(policy, 'https://x.com/shop?sort=asc')).toBe(false);
+    expect(isAllowed(policy, 'https://x.com/shop?page=2')).toBe(true);
+  });
+
+  it('supports the $ end anchor', () => {
+    const policy = policyFor('User-agent: *\nDisallow: /*.php$');
+    expect(isAllowed(policy, 'https://x.com/index.php')).toBe(false);
+    expect(isAllowed(policy, 'https://x.com/index.php?x=1')).toBe(true);
+  });
+
+  it('always allows /robots.txt', () => {
+    const policy = policyFor('User-agent: *\nDisallow: /');
+    expect(isAllowed(policy, 'https://x.com/robots.txt')).toBe(true);
+  });
+});
+
+describe('fetchRobotsPolicy', () => {
+  it('fetches robots.txt from the site origin', async () => {
+    mockFetch.mockResolvedValueOnce(res('User-agent: *\nDisallow: /admin'));
+    const policy = await fetchRobotsPolicy('https://example.com/some/page');
+    expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/robots.txt');
+    expect(isAllowed(policy, 'https://example.com/admin')).toBe(false);
+  });
+
+  it('allows everything when robots.txt is missing', async () => {
+    mockFetch.mockResolvedValueOnce(res('Not Found', 404));
+    const policy = await fetchRobotsPolicy('https://example.com');
+    expect(isAllowed(policy, 'https://example.com/anything')).toBe(true);
+  });
+
+  it('disallows everything when robots.txt returns a server error', async () => {
+    mockFetch.mockResolvedValueOnce(res('Server Error', 503));
+    const policy = await fetchRobotsPolicy('https://example.com');
+    expect(isAllowed(policy, 'https://example.com/anything')).toBe(false);
+    expect(policy.unreachable).toBe('HTTP 503');
+  });
+
+  it('disallows everything when robots.txt is unreachable', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('Network error'));
+    const policy = await fetchRobotsPolicy('https://example.com');
+    expect(isAllowed(policy, 'https://example.com/anything')).toBe(false);
+    expect(policy.unreachable).toBe('Network error');
+  });
+
+  it('gives no reason when robots.txt was read', async () => {
+    mockFetch.mockResolvedValueOnce(res('User-agent: *\nDisallow: /'));
+    const policy = await fetchRobotsPolicy('https://example.com');
+    expect(policy.unreachable).toBeUndefined();
+  });
+});
+
+describe('createRobotsGate', () => {
+  it('spaces out requests by the crawl delay', async () => {
+    vi.useFakeTimers();
+    const gate = createRobotsGate({ rules: [], crawlDelay: 2 });
+    const done: number[] = [];
+    const waits = [0, 1, 2].map(i => gate.wait().then(() => done.push(i)));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([0]);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(done).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all(waits);
+    expect(done).toEqual([0, 1, 2]);
+  });
+
+  it('does not wait without a crawl delay', async () => {
+    const gate = createRobotsGate({ rules: [] });
+    await expect(gate.wait()).resolves.toBeUndefined();
+  });
+});
+
+describe('robotsDirectives', () => {
+  it('splits and lowercases directives', () => {
+    expect(robotsDirectives('NoIndex, nofollow')).toEqual(['noindex', 'nofollow']);
+    expect(robotsDirectives(undefined)).toEqual([]);
+  });
+
+  it('keeps only directives for every agent or for llm-txt-gen', () => {
+    expect(robotsDirectives('googlebot: noindex, nofollow')).toEqual([]);
+    expect(robotsDirectives('noarchive, llm-txt-gen: noindex')).toEqual(['noarchive', 'noindex']);
+    expect(robotsDirectives('bingbot: noindex, llm-txt-gen: noai')).toEqual(['noai']);
+  });
+
+  it('does not mistake valued directives for an agent prefix', () => {
+    expect(robotsDirectives('max-snippet:50, noindex')).toEqual(['max-snippet: 50', 'noindex']);
+  });
+});
+
+describe('noindexDirective', () => {
+  it('finds noindex, none and noai', () => {
+    expect(noindexDirective(['follow', 'noindex'])).toBe('noindex');
+    expect(noindexDirective(['none'])).toBe('none');
+    expect(noindexDirective(['noai', 'noimageai'])).toBe('noai');
+    expect(noindexDirective(['noimageai', 'nofollow'])).toBeUndefined();
+  });
+});
+
+describe('isNofollow', () => {
+  it('is true for nofollow and none', () => {
+    expect(isNofollow(['noindex', 'nofollow'])).toBe(true);
+    expect(isNofollow(['none'])).toBe(true);
+    expect(isNofollow(['noindex', 'follow'])).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { candidateLimit, selectEntries } from '../src/select.js';
+import type { SitemapEntry } from '../src/sitemap.js';
+
+function entry(path: string, priority = 0.5, lastmod?: string): SitemapEntry {
+  return { url: `https://example.com${path}`, priority, ...(lastmod ? { lastmod } : {}) };
+}
+
+const paths = (entries: SitemapEntry[]) => entries.map(e => new URL(e.url).pathname);
+
+// A blog of 100 posts listed first, as many CMS sitemaps do, then a handful of other pages
+const site = [
+  ...Array.from({ length: 100 }, (_, i) => entry(`/blog/post-${i}`)),
+  entry('/docs/start'),
+  entry('/docs/api/auth'),
+  entry('/docs/api'),
+  entry('/pricing'),
+  entry('/'),
+  entry('/features'),
+];
+
+describe('selectEntries', () => {
+  it('keeps everything when under the limit', () => {
+    const { selected, skipped } = selectEntries(site.slice(0, 3), 10);
+    expect(selected).toHaveLength(3);
+    expect(skipped).toEqual([]);
+  });
+
+  it('balances sections and guarantees key pages', () => {
+    const { selected, skipped } = selectEntries(site, 8);
+    expect(selected).toHaveLength(8);
+    expect(skipped).toHaveLength(site.length - 8);
+    expect(paths(selected)).toEqual(expect.arrayContaining(['/', '/pricing', '/features', '/docs/start', '/docs/api']));
+    // Key pages, then one per section per round: blog, docs and features, then blog and docs, then blog
+    expect(paths(selected).filter(p => p.startsWith('/blog/'))).toHaveLength(3);
+  });
+
+  it('returns entries in their original order', () => {
+    const { selected } = selectEntries(site, 8);
+    const order = selected.map(e => site.indexOf(e));
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+  });
+
+  it('prefers higher priority, then newer lastmod, then shallower URLs within a section', () => {
+    const entries = [
+      entry('/docs/a/b/c'),
+      entry('/docs/old', 0.5, '2020-01-01'),
+      entry('/docs/new', 0.5, '2024-06-01'),
+      entry('/docs/top', 0.9),
+      entry('/docs'),
+    ];
+    expect(paths(selectEntries(entries, 4).selected)).toEqual(['/docs/old', '/docs/new', '/docs/top', '/docs']);
+  });
+
+  it('honors section quotas, including 0', () => {
+    const sections = [
+      { label: 'Blog', patterns: ['/blog/**'], quota: 5 },
+      { label: 'Docs', patterns: ['/docs/**'], quota: 0 },
+    ];
+    const { selected, sections: counts } = selectEntries(site, 20, { sections });
+    expect(paths(selected).filter(p => p.startsWith('/blog/'))).toHaveLength(5);
+    expect(paths(selected).filter(p => p.startsWith('/docs/'))).toEqual([]);
+    expect(counts).toContainEqual({ label: 'Blog', selected: 5, available: 100 });
+    expect(counts).toContainEqual({ label: 'Docs', selected: 0, available: 3 });
+  });
+
+  it('takes the newest pages with "recent", after key pages', () => {
+    const entries = [
+      entry('/blog/a', 0.5, '2024-01-01'),
+      entry('/blog/b', 0.5, '2024-03-01'),
+      entry('/docs/c', 0.5, '2024-02-01'),
+      entry('/about'),
+    ];
+    expect(paths(selectEntries(entries, 3, { strategy: 'recent' }).selected)).toEqual(['/blog/b', '/docs/c', '/about']);
+  });
+
+  it('uses configured key page patterns', () => {
+    const { selected } = selectEntries(site, 2, { keyPages: ['/blog/post-99'] });
+    expect(paths(selected)).toContain('/blog/post-99');
+  });
+
+  it('selects from tens of thousands of entries in one section quickly', () => {
+    const entries = Array.from({ length: 50_000 }, (_, i) =>
+      entry(`/blog/${i % 100}/post-${i}`, 0.5, `2024-01-${String((i % 28) + 1).padStart(2, '0')}`));
+    const started = Date.now();
+    const { selected, sections } = selectEntries(entries, 50);
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(selected).toHaveLength(50);
+    expect(sections).toEqual([{ label: 'Blog', selected: 50, available: 50_000 }]);
+  });
+
+  it('takes the highest priorities in order with "priority"', () => {
+    const entries = [entry('/a', 0.3), entry('/b', 0.9), entry('/c', 0.5), entry('/d', 0.9)];
+    expect(paths(selectEntries(entries, 2, { strategy: 'priority' }).selected)).toEqual(['/b', '/d']);
+  });
+});
+
+describe('selectEntries — invalid URLs', () => {
+  it('ranks an unparseable URL last instead of throwing', () => {
+    const entries = [{ url: '/relative', priority: 0.5 }, entry('/docs/start'), entry('/docs/api')];
+    const { selected } = selectEntries(entries, 2, { sections: [{ label: 'All', patterns: ['re:.'] }] });
+    expect(selected.map(e => e.url)).toEqual(['https://example.com/docs/start', 'https://example.com/docs/api']);
+  });
+});
+
+describe('candidateLimit', () => {
+  it('reads up to one full sitemap when choosing', () => {
+    expect(candidateLimit(50, 'balanced')).toBe(50_000);
+    expect(candidateLimit(50, 'recent')).toBe(50_000);
+  });
+
+  it('stops at the limit for priority', () => {
+    expect(candidateLimit(50, 'priority')).toBe(50);
+  });
+});
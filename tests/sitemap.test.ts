@@ -1,5 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { parseSitemapXml, fetchSitemap, discoverSitemapUrl } from '../src/sitemap.js';
+import { gzipSync } from 'zlib';
+import {
+  parseSitemapXml,
+  fetchSitemap,
+  fetchSitemaps,
+  discoverSitemapUrl,
+  discoverSitemapUrls,
+  createSitemapParser,
+  parseFeed,
+  parseUrlList,
+} from '../src/sitemap.js';
+import { candidateLimit, selectEntries } from '../src/select.js';
 
 const mockFetch = vi.fn();
 
@@ -12,8 +23,8 @@ afterEach(() => {
   vi.unstubAllGlobals();
 });
 
-function res(body: string, status = 200) {
-  return { ok: status >= 200 && status < 300, status, text: () => Promise.resolve(body) };
+function res(body: string | Buffer, status = 200) {
+  return new Response(body, { status });
 }
 
 const urlsetXml = `<?xml version="1.0" encoding="UTF-8"?>
@@ -125,6 +136,46 @@ describe('parseSitemapXml', () => {
   });
 });
 
+describe('parseSitemapXml — hreflang alternates', () => {
+  const localizedXml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+  <url>
+    <loc>https://example.com/pricing</loc>
+    <xhtml:link rel="alternate" hreflang="en" href="https://example.com/pricing"/>
+    <xhtml:link rel="alternate" hreflang="de-de" href="https://example.com/de/preise"/>
+    <xhtml:link rel="alternate" hreflang="x-default" href="https://example.com/pricing"/>
+  </url>
+  <url>
+    <loc>https://example.com/de/preise</loc>
+    <xhtml:link rel="alternate" hreflang="en" href="https://example.com/pricing"/>
+    <xhtml:link rel="alternate" hreflang="de-de" href="https://example.com/de/preise"/>
+  </url>
+  <url>
+    <loc>https://example.com/about</loc>
+  </url>
+</urlset>`;
+
+  it('reads each entry\'s language and translations', async () => {
+    const entries = await parseSitemapXml(localizedXml);
+    expect(entries[0]).toEqual({
+      url: 'https://example.com/pricing',
+      priority: 0.5,
+      lang: 'en',
+      alternates: {
+        'en': 'https://example.com/pricing',
+        'de-DE': 'https://example.com/de/preise',
+        'x-default': 'https://example.com/pricing',
+      },
+    });
+    expect(entries[1].lang).toBe('de-DE');
+  });
+
+  it('leaves entries without alternates unchanged', async () => {
+    const entries = await parseSitemapXml(localizedXml);
+    expect(entries[2]).toEqual({ url: 'https://example.com/about', priority: 0.5 });
+  });
+});
+
 describe('fetchSitemap', () => {
   it('fetches and parses a sitemap', async () => {
     const xml = `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
@@ -136,10 +187,297 @@ describe('fetchSitemap', () => {
     expect(entries[0].url).toBe('https://example.com/');
   });
 
+  it('reads gzipped sitemaps and sitemap indexes', async () => {
+    const child = `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <url><loc>https://example.com/docs</loc></url>
+    </urlset>`;
+    const index = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sitemap><loc>https://example.com/sitemap-docs.xml.gz</loc></sitemap>
+    </sitemapindex>`;
+    mockFetch
+      .mockResolvedValueOnce(res(gzipSync(index)))
+      .mockResolvedValueOnce(res(gzipSync(child)));
+    const entries = await fetchSitemap('https://example.com/sitemap_index.xml.gz');
+    expect(entries.map(e => e.url)).toEqual(['https://example.com/docs']);
+  });
+
+  it('reads text sitemaps and feeds', async () => {
+    mockFetch.mockResolvedValueOnce(res('https://example.com/a\nhttps://example.com/b\n'));
+    expect((await fetchSitemap('https://example.com/sitemap.txt')).map(e => e.url))
+      .toEqual(['https://example.com/a', 'https://example.com/b']);
+
+    mockFetch.mockResolvedValueOnce(res('<rss version="2.0"><channel><item><link>https://example.com/post</link></item></channel></rss>'));
+    expect((await fetchSitemap('https://example.com/feed')).map(e => e.url)).toEqual(['https://example.com/post']);
+  });
+
+  it('throws on a document that is neither a sitemap nor a feed', async () => {
+    mockFetch.mockResolvedValueOnce(res('<html><body>Not here</body></html>'));
+    await expect(fetchSitemap('https://example.com/sitemap.xml')).rejects.toThrow('Not a sitemap or feed');
+  });
+
+  it('fetches the children of an index in parallel, up to the concurrency cap', async () => {
+    const children = Array.from({ length: 6 }, (_, i) => `https://example.com/s${i}.xml`);
+    let active = 0;
+    let peak = 0;
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.endsWith('/index.xml')) {
+        return res(`<sitemapindex>${children.map(c => `<sitemap><loc>${c}</loc></sitemap>`).join('')}</sitemapindex>`);
+      }
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return res(`<urlset><url><loc>${url.replace('.xml', '')}</loc></url></urlset>`);
+    });
+    const entries = await fetchSitemap('https://example.com/index.xml', 50, { concurrency: 3 });
+    expect(entries.map(e => e.url)).toEqual(children.map(c => c.replace('.xml', '')));
+    expect(peak).toBe(3);
+  });
+
+  it('reads each sitemap once when an index lists itself or an ancestor', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.endsWith('/index.xml')) {
+        return res('<sitemapindex><sitemap><loc>https://example.com/index.xml</loc></sitemap><sitemap><loc>https://example.com/nested.xml</loc></sitemap></sitemapindex>');
+      }
+      if (url.endsWith('/nested.xml')) {
+        return res('<sitemapindex><sitemap><loc>https://example.com/index.xml</loc></sitemap><sitemap><loc>https://example.com/pages.xml</loc></sitemap></sitemapindex>');
+      }
+      return res('<urlset><url><loc>https://example.com/page</loc></url></urlset>');
+    });
+    const entries = await fetchSitemap('https://example.com/index.xml');
+    expect(entries.map(e => e.url)).toEqual(['https://example.com/page']);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops following indexes nested too deep', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const level = Number(url.match(/level-(\d+)/)![1]);
+      return res(`<sitemapindex><sitemap><loc>https://example.com/level-${level + 1}.xml</loc></sitemap></sitemapindex>`);
+    });
+    const onError = vi.fn();
+    const entries = await fetchSitemap('https://example.com/level-0.xml', 50, { onError });
+    expect(entries).toEqual([]);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+    expect(onError).toHaveBeenCalledWith('https://example.com/level-3.xml', expect.objectContaining({
+      message: expect.stringContaining('nested more than 3 deep'),
+    }));
+  });
+
+  it('stops downloading a sitemap once it has enough entries', async () => {
+    let cancelled = false;
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('<urlset><url><loc>https://example.com/a</loc></url><url><loc>https://example.com/b</loc></url>'));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    mockFetch.mockResolvedValueOnce(new Response(body));
+    const entries = await fetchSitemap('https://example.com/sitemap.xml', 2);
+    expect(entries).toHaveLength(2);
+    expect(cancelled).toBe(true);
+  });
+
+  it('reports records with invalid URLs and keeps the rest', async () => {
+    mockFetch.mockResolvedValueOnce(res('<urlset><url><loc>javascript:void(0)</loc></url><url><loc>https://example.com/a</loc></url></urlset>'));
+    const onInvalid = vi.fn();
+    const entries = await fetchSitemap('https://example.com/sitemap.xml', 50, { onInvalid });
+    expect(entries.map(e => e.url)).toEqual(['https://example.com/a']);
+    expect(onInvalid).toHaveBeenCalledWith('https://example.com/sitemap.xml', 'javascript:void(0)');
+  });
+
   it('throws when sitemap URL returns HTTP error', async () => {
     mockFetch.mockResolvedValueOnce(res('Not Found', 404));
     await expect(fetchSitemap('https://example.com/sitemap.xml')).rejects.toThrow('404');
   });
+
+  it('reads past thousands of blog posts to the sections listed after them when choosing', async () => {
+    const blog = Array.from({ length: 3000 }, (_, i) => `<url><loc>https://example.com/blog/post-${i}</loc></url>`);
+    mockFetch.mockResolvedValueOnce(res(`<urlset>${blog.join('')}<url><loc>https://example.com/docs/start</loc></url></urlset>`));
+    const entries = await fetchSitemap('https://example.com/sitemap.xml', candidateLimit(10, 'balanced'));
+    expect(entries).toHaveLength(3001);
+    const { selected } = selectEntries(entries, 10);
+    expect(selected.map(e => e.url)).toContain('https://example.com/docs/start');
+  });
+
+  it('gives each child of an index an equal share of the limit when asked', async () => {
+    const urlset = (prefix: string, count: number) =>
+      `<urlset>${Array.from({ length: count }, (_, i) => `<url><loc>https://example.com/${prefix}/${i}</loc></url>`).join('')}</urlset>`;
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.endsWith('/index.xml')) {
+        return res('<sitemapindex><sitemap><loc>https://example.com/posts.xml</loc></sitemap><sitemap><loc>https://example.com/pages.xml</loc></sitemap></sitemapindex>');
+      }
+      return res(url.endsWith('/posts.xml') ? urlset('blog', 500) : urlset('docs', 3));
+    });
+    const shared = await fetchSitemap('https://example.com/index.xml', 100, { share: true });
+    expect(shared.filter(e => e.url.includes('/blog/'))).toHaveLength(50);
+    expect(shared.filter(e => e.url.includes('/docs/'))).toHaveLength(3);
+
+    const inOrder = await fetchSitemap('https://example.com/index.xml', 100);
+    expect(inOrder.filter(e => e.url.includes('/docs/'))).toHaveLength(0);
+  });
+});
+
+describe('fetchSitemaps', () => {
+  const urlset = (...urls: string[]) =>
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls.map(u => `<url><loc>${u}</loc></url>`).join('')}</urlset>`;
+
+  it('combines sitemaps in order without repeating URLs', async () => {
+    mockFetch
+      .mockResolvedValueOnce(res(urlset('https://example.com/a', 'https://example.com/b')))
+      .mockResolvedValueOnce(res(urlset('https://example.com/b', 'https://example.com/c')));
+    const entries = await fetchSitemaps(['https://example.com/pages.xml', 'https://example.com/posts.xml']);
+    expect(entries.map(e => e.url)).toEqual(['https://example.com/a', 'https://example.com/b', 'https://example.com/c']);
+  });
+
+  it('skips sitemaps that fail and reports them', async () => {
+    mockFetch
+      .mockResolvedValueOnce(res('Not Found', 404))
+      .mockResolvedValueOnce(res(urlset('https://example.com/a')));
+    const onError = vi.fn();
+    const entries = await fetchSitemaps(['https://example.com/gone.xml', 'https://example.com/ok.xml'], 50, { onError });
+    expect(entries).toHaveLength(1);
+    expect(onError).toHaveBeenCalledWith('https://example.com/gone.xml', expect.any(Error));
+  });
+
+  it('cancels the sitemaps still downloading once the first ones fill the limit', async () => {
+    const onError = vi.fn();
+    mockFetch
+      .mockResolvedValueOnce(res(urlset('https://example.com/a', 'https://example.com/b')))
+      // Never answers unless aborted
+      .mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_, reject) => {
+        init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+      }));
+    const entries = await fetchSitemaps(['https://example.com/one.xml', 'https://example.com/two.xml'], 2, { onError });
+    expect(entries.map(e => e.url)).toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('keeps list order when later sitemaps finish first', async () => {
+    let answerFirst!: () => void;
+    mockFetch
+      .mockImplementationOnce(() => new Promise(resolve => {
+        answerFirst = () => resolve(res(urlset('https://example.com/a')));
+      }))
+      .mockImplementationOnce(async () => {
+        setTimeout(() => answerFirst(), 10);
+        return res(urlset('https://example.com/b'));
+      });
+    const entries = await fetchSitemaps(['https://example.com/one.xml', 'https://example.com/two.xml']);
+    expect(entries.map(e => e.url)).toEqual(['https://example.com/a', 'https://example.com/b']);
+  });
+});
+
+describe('createSitemapParser', () => {
+  const formatOf = (text: string) => {
+    const parser = createSitemapParser();
+    parser.write(text);
+    return parser.format;
+  };
+
+  it('recognizes each format from the start of the document', () => {
+    expect(formatOf('<?xml version="1.0"?><urlset xmlns="x">')).toBe('urlset');
+    expect(formatOf('<sitemapindex>')).toBe('sitemapindex');
+    expect(formatOf('<rss version="2.0">')).toBe('rss');
+    expect(formatOf('<rdf:RDF>')).toBe('rss');
+    expect(formatOf('<feed xmlns="http://www.w3.org/2005/Atom">')).toBe('atom');
+    expect(formatOf('https://example.com/a')).toBe('text');
+    expect(formatOf('  ')).toBeUndefined();
+  });
+
+  it('rejects other documents as soon as their root element arrives', () => {
+    const parser = createSitemapParser('https://example.com/sitemap.xml');
+    expect(() => parser.write('<!DOCTYPE html><html><head>')).toThrow('Not a sitemap or feed: https://example.com/sitemap.xml');
+    expect(() => createSitemapParser().write('Not Found\n')).toThrow('Not a sitemap or feed');
+    expect(() => createSitemapParser().end()).toThrow('Not a sitemap or feed');
+  });
+
+  it('resolves relative locs against the sitemap URL and skips ones that are not http(s) URLs', () => {
+    const onInvalid = vi.fn();
+    const parser = createSitemapParser('https://example.com/sitemaps/pages.xml', onInvalid);
+    const items = [
+      ...parser.write('<urlset><url><loc>/relative</loc></url><url><loc>mailto:team@example.com</loc></url>'),
+      ...parser.write('<url><loc>http://[bad</loc></url><url><loc>https://example.com/ok</loc></url></urlset>'),
+      ...parser.end(),
+    ];
+    expect(items.map(item => 'entry' in item && item.entry.url)).toEqual([
+      'https://example.com/relative',
+      'https://example.com/ok',
+    ]);
+    expect(onInvalid.mock.calls).toEqual([['mailto:team@example.com'], ['http://[bad']]);
+  });
+
+  it('returns each record once it is complete, across chunk boundaries', () => {
+    const parser = createSitemapParser();
+    expect(parser.write('<urlset><url><loc>https://example.com/a</loc></url><url><loc>https://exa')).toEqual([
+      { entry: { url: 'https://example.com/a', priority: 0.5, lastmod: undefined } },
+    ]);
+    expect(parser.write('mple.com/b</loc><priority>0.9</priority></url></urlset>')).toEqual([
+      { entry: { url: 'https://example.com/b', priority: 0.9, lastmod: undefined } },
+    ]);
+    expect(parser.end()).toEqual([]);
+  });
+
+  it('splits text sitemaps on line breaks that arrive later', () => {
+    const parser = createSitemapParser();
+    expect(parser.write('https://example.com/a\nhttps://exa')).toHaveLength(1);
+    expect(parser.write('mple.com/b')).toEqual([]);
+    expect(parser.end()).toEqual([{ entry: { url: 'https://example.com/b', priority: 0.5 } }]);
+  });
+
+  it('lists the children of a sitemap index, and decodes entities and CDATA', () => {
+    const parser = createSitemapParser();
+    const items = parser.write(`<sitemapindex>
+      <sitemap><loc>https://example.com/s.xml?a=1&amp;b=2</loc></sitemap>
+      <sitemap><loc><![CDATA[https://example.com/t.xml]]></loc></sitemap>
+    </sitemapindex>`);
+    expect(items).toEqual([{ sitemap: 'https://example.com/s.xml?a=1&b=2' }, { sitemap: 'https://example.com/t.xml' }]);
+  });
+});
+
+describe('parseUrlList', () => {
+  it('skips blank lines, comments and non-HTTP URLs, resolving relative ones', () => {
+    const text = '# docs\nhttps://example.com/a\n\n/b\nmailto:hi@example.com\n';
+    expect(parseUrlList(text, 'https://example.com').map(e => e.url))
+      .toEqual(['https://example.com/a', 'https://example.com/b']);
+  });
+
+  it('drops relative URLs without a base', () => {
+    expect(parseUrlList('/b\nhttps://example.com/a')).toEqual([{ url: 'https://example.com/a', priority: 0.5 }]);
+  });
+});
+
+describe('parseFeed', () => {
+  it('reads RSS item links and dates', () => {
+    const rss = `<rss version="2.0"><channel>
+      <link>https://example.com/</link>
+      <item><link>https://example.com/post-2</link><pubDate>Tue, 02 Jan 2024 10:00:00 GMT</pubDate></item>
+      <item><guid>https://example.com/post-1</guid></item>
+      <item><guid isPermaLink="false">tag:example.com,2024:3</guid></item>
+    </channel></rss>`;
+    expect(parseFeed(rss)).toEqual([
+      { url: 'https://example.com/post-2', priority: 0.5, lastmod: '2024-01-02T10:00:00.000Z' },
+      { url: 'https://example.com/post-1', priority: 0.5 },
+    ]);
+  });
+
+  it('reads Atom alternate links, resolved against the feed', () => {
+    const atom = `<feed xmlns="http://www.w3.org/2005/Atom">
+      <link rel="self" href="/atom.xml"/>
+      <entry>
+        <link rel="edit" href="/api/posts/1"/>
+        <link rel="alternate" href="/blog/hello"/>
+        <updated>2024-03-01T00:00:00Z</updated>
+      </entry>
+      <entry><link href="https://example.com/blog/bye"/></entry>
+    </feed>`;
+    expect(parseFeed(atom, 'https://example.com/atom.xml')).toEqual([
+      { url: 'https://example.com/blog/hello', priority: 0.5, lastmod: '2024-03-01T00:00:00.000Z' },
+      { url: 'https://example.com/blog/bye', priority: 0.5 },
+    ]);
+  });
 });
 
 describe('discoverSitemapUrl', () => {
@@ -179,3 +517,61 @@ describe('discoverSitemapUrl', () => {
     expect(url).toBe('https://example.com/sitemap.xml');
   });
 });
+
+describe('discoverSitemapUrls', () => {
+  it('finds sitemap URL declared in robots.txt', async () => {
+    mockFetch
+      .mockResolvedValueOnce(res('User-agent: *\nSitemap: https://example.com/custom-sitemap.xml'))
+      .mockResolvedValueOnce(res('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"></urlset>'));
+    const urls = await discoverSitemapUrls('https://example.com');
+    expect(urls).toEqual(['https://example.com/custom-sitemap.xml']);
+  });
+
+  it('falls back to /sitemap.xml when robots.txt has no Sitemap directive', async () => {
+    mockFetch
+      .mockResolvedValueOnce(res('User-agent: *\nDisallow: /admin'))
+      .mockResolvedValueOnce(res('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"></urlset>'));
+    const urls = await discoverSitemapUrls('https://example.com');
+    expect(urls).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('returns every Sitemap directive in robots.txt, without probing them', async () => {
+    mockFetch.mockResolvedValueOnce(res([
+      'Sitemap: https://example.com/pages.xml.gz',
+      'User-agent: *',
+      'Sitemap: https://example.com/posts.xml.gz',
+      'Sitemap: https://example.com/pages.xml.gz',
+    ].join('\n')));
+    const urls = await discoverSitemapUrls('https://example.com');
+    expect(urls).toEqual(['https://example.com/pages.xml.gz', 'https://example.com/posts.xml.gz']);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('finds a gzipped sitemap at the fallback path', async () => {
+    mockFetch.mockImplementation(async (url: string) => url.endsWith('/sitemap.xml.gz')
+      ? res(gzipSync('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"></urlset>'))
+      : res('Not Found', 404));
+    const urls = await discoverSitemapUrls('https://example.com');
+    expect(urls).toEqual(['https://example.com/sitemap.xml.gz']);
+  });
+
+  it('returns no URLs when no sitemap is found anywhere', async () => {
+    mockFetch.mockResolvedValue(res('Not Found', 404));
+    const urls = await discoverSitemapUrls('https://example.com');
+    expect(urls).toEqual([]);
+  });
+
+  it('returns no URLs when robots.txt fetch fails', async () => {
+    mockFetch.mockRejectedValue(new Error('Network error'));
+    const urls = await discoverSitemapUrls('https://example.com');
+    expect(urls).toEqual([]);
+  });
+
+  it('handles trailing slash in base URL', async () => {
+    mockFetch
+      .mockResolvedValueOnce(res('User-agent: *'))
+      .mockResolvedValueOnce(res('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"></urlset>'));
+    const urls = await discoverSitemapUrls('https://example.com/');
+    expect(urls).toEqual(['https://example.com/sitemap.xml']);
+  });
+});
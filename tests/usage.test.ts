@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  addUsage,
+  batchPrice,
+  costOf,
+  formatCost,
+  formatEstimate,
+  formatUsage,
+  getModelPrice,
+  writeRunReport,
+} from '../src/usage.js';
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'llm-txt-gen-usage-'));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const usage = { requests: 50, inputTokens: 400_000, outputTokens: 20_000 };
+
+describe('pricing', () => {
+  it('knows the default model of each provider', () => {
+    for (const model of ['claude-haiku-4-5-20251001', 'gpt-4o-mini', 'gemini-2.0-flash', 'sonar', 'grok-3-mini', 'deepseek-chat']) {
+      expect(getModelPrice(model)).toBeDefined();
+    }
+    expect(getModelPrice('llama3.1')).toBeUndefined();
+  });
+
+  it('prices input and output tokens per million', () => {
+    expect(costOf(usage, { input: 1, output: 5 })).toBeCloseTo(0.5);
+  });
+
+  it('halves prices for batch requests', () => {
+    expect(batchPrice({ input: 1, output: 5 })).toEqual({ input: 0.5, output: 2.5 });
+  });
+
+  it('keeps small costs readable', () => {
+    expect(formatCost(12.345)).toBe('$12.35');
+    expect(formatCost(0.0012)).toBe('$0.0012');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+
+  it('adds usage', () => {
+    expect(addUsage(usage, { requests: 1, inputTokens: 2, outputTokens: 3 }))
+      .toEqual({ requests: 51, inputTokens: 400_002, outputTokens: 20_003 });
+  });
+});
+
+describe('formatUsage', () => {
+  it('summarizes tokens and cost', () => {
+    expect(formatUsage(usage, 'claude-haiku-4-5-20251001', { input: 1, output: 5 }))
+      .toBe('AI usage: 50 requests, 400,000 input + 20,000 output tokens, $0.50 (claude-haiku-4-5-20251001)');
+  });
+
+  it('says when the price is unknown', () => {
+    expect(formatUsage(usage, 'llama3.1')).toContain('cost unknown (llama3.1)');
+  });
+});
+
+describe('formatEstimate', () => {
+  it('prints one row per provider with aligned columns', () => {
+    const out = formatEstimate(usage, [
+      { provider: 'claude', model: 'claude-haiku-4-5-20251001', price: { input: 1, output: 5 } },
+      { provider: 'openai-compatible', model: 'llama3.1' },
+    ]);
+    const lines = out.split('\n');
+    expect(lines[0]).toBe('Estimated AI usage: 50 requests, ~400,000 input + ~20,000 output tokens');
+    expect(lines[2]).toMatch(/^Provider\s+Model\s+Price per 1M in \/ out\s+Estimated cost$/);
+    expect(lines[3]).toMatch(/^claude\s+claude-haiku-4-5-20251001\s+\$1 \/ \$5\s+\$0\.50$/);
+    expect(lines[4]).toMatch(/^openai-compatible\s+llama3\.1\s+\?\s+\?$/);
+    expect(lines[3].indexOf('claude-haiku')).toBe(lines[4].indexOf('llama3.1'));
+  });
+});
+
+describe('writeRunReport', () => {
+  it('writes the report as JSON', async () => {
+    const file = join(tempDir, 'report.json');
+    await writeRunReport(file, {
+      url: 'https://example.com',
+      startedAt: '2026-01-15T00:00:00.000Z',
+      finishedAt: '2026-01-15T00:01:00.000Z',
+      pages: 3,
+      outputs: { llmTxt: 'llm.txt' },
+      ai: { provider: 'claude', model: 'm', ...usage, costUsd: null, failures: 0 },
+    });
+    const report = JSON.parse(await readFile(file, 'utf-8'));
+    expect(report.ai.inputTokens).toBe(400_000);
+    expect(report.ai.costUsd).toBeNull();
+  });
+});